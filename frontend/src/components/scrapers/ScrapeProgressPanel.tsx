@@ -0,0 +1,242 @@
+import { useEffect, useReducer, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+
+type RunStatus = 'success' | 'partial' | 'failed' | 'cancelled';
+
+// Events sent by GET /api/scraper/runs/:runId/events (see ScrapeProgressEvent in the backend)
+type ProgressEvent = { at?: string } & (
+  | { type: 'run_started'; resumedFrom?: string; expectedCounts: Record<string, number> }
+  | { type: 'categories_planned'; categories: { id: string; name: string }[]; completedCategories: string[] }
+  | { type: 'category_started'; categoryId: string; categoryName: string }
+  | { type: 'page_saved'; categoryId: string; categoryName: string; pageNumber: number; saved: number; productsOnPage: number }
+  | { type: 'category_finished'; categoryId: string; categoryName: string; products: number }
+  | { type: 'retry'; attempt: number; message: string; categoryId?: string }
+  | { type: 'error'; message: string; categoryId?: string; pageNumber?: number }
+  | {
+      type: 'failover';
+      from: string;
+      to: string;
+      reason: 'failed' | 'anomaly';
+      message: string;
+      expectedCounts: Record<string, number>;
+    }
+  | { type: 'finished'; status: RunStatus; productsScraped: number; productsFailed: number; error?: string }
+);
+
+interface CategoryProgress {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'skipped';
+  saved: number;
+  pages: number;
+}
+
+interface ProgressState {
+  expected: Record<string, number>;
+  order: string[];
+  categories: Record<string, CategoryProgress>;
+  saved: number;
+  events: ProgressEvent[];
+  finished?: Extract<ProgressEvent, { type: 'finished' }>;
+}
+
+// The event log keeps the most recent events only
+const MAX_EVENTS = 300;
+
+const initialState: ProgressState = { expected: {}, order: [], categories: {}, saved: 0, events: [] };
+
+function updateCategory(
+  state: ProgressState,
+  id: string,
+  name: string,
+  update: (category: CategoryProgress) => Partial<CategoryProgress>
+): ProgressState {
+  const category = state.categories[id] ?? { id, name, status: 'pending', saved: 0, pages: 0 };
+  return {
+    ...state,
+    order: state.order.includes(id) ? state.order : [...state.order, id],
+    categories: { ...state.categories, [id]: { ...category, ...update(category) } },
+  };
+}
+
+function reduce(state: ProgressState, event: ProgressEvent): ProgressState {
+  state = { ...state, events: [...state.events, event].slice(-MAX_EVENTS) };
+
+  switch (event.type) {
+    case 'run_started':
+      return { ...state, expected: event.expectedCounts };
+    case 'categories_planned': {
+      const categories: Record<string, CategoryProgress> = {};
+      for (const { id, name } of event.categories) {
+        const skipped = event.completedCategories.includes(id);
+        categories[id] = { id, name, status: skipped ? 'skipped' : 'pending', saved: 0, pages: 0 };
+      }
+      return { ...state, order: event.categories.map((c) => c.id), categories };
+    }
+    case 'category_started':
+      return updateCategory(state, event.categoryId, event.categoryName, () => ({ status: 'running' }));
+    case 'page_saved':
+      return {
+        ...updateCategory(state, event.categoryId, event.categoryName, (c) => ({
+          saved: c.saved + event.saved,
+          pages: Math.max(c.pages, event.pageNumber),
+        })),
+        saved: state.saved + event.saved,
+      };
+    case 'category_finished':
+      return updateCategory(state, event.categoryId, event.categoryName, () => ({ status: 'done' }));
+    case 'failover':
+      // The next implementation plans its own categories
+      return { ...state, expected: event.expectedCounts, order: [], categories: {} };
+    case 'finished':
+      return { ...state, finished: event };
+    default:
+      return state;
+  }
+}
+
+const BAR_STYLES: Record<CategoryProgress['status'], string> = {
+  pending: 'bg-slate-300',
+  running: 'bg-blue-500 animate-pulse',
+  done: 'bg-green-500',
+  skipped: 'bg-slate-400',
+};
+
+interface ScrapeProgressPanelProps {
+  runId: string;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Live progress of a scrape run: a bar per category and a log of events, streamed over SSE.
+ * Bars fill towards the products the category yielded in previous successful runs.
+ */
+export default function ScrapeProgressPanel({ runId, title, onClose }: ScrapeProgressPanelProps) {
+  const { t } = useTranslation();
+  const [state, dispatch] = useReducer(reduce, initialState);
+  const logRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    // EventSource reconnects by itself and sends the last event ID, so no event is applied twice
+    const source = new EventSource(`/api/scraper/runs/${encodeURIComponent(runId)}/events`, {
+      withCredentials: true,
+    });
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ProgressEvent;
+      dispatch(event);
+      if (event.type === 'finished') source.close();
+    };
+    return () => source.close();
+  }, [runId]);
+
+  // Follow the newest events
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [state.events.length]);
+
+  const describe = (event: ProgressEvent): string => {
+    switch (event.type) {
+      case 'run_started':
+        return event.resumedFrom
+          ? t('scrapers.progress.event.runResumed', { runId: event.resumedFrom })
+          : t('scrapers.progress.event.runStarted');
+      case 'categories_planned':
+        return t('scrapers.progress.event.categoriesPlanned', {
+          count: event.categories.length - event.completedCategories.length,
+        });
+      case 'category_started':
+        return t('scrapers.progress.event.categoryStarted', { category: event.categoryName });
+      case 'page_saved':
+        return t('scrapers.progress.event.pageSaved', {
+          category: event.categoryName,
+          page: event.pageNumber,
+          saved: event.saved,
+          total: event.productsOnPage,
+        });
+      case 'category_finished':
+        return t('scrapers.progress.event.categoryFinished', { category: event.categoryName, products: event.products });
+      case 'retry':
+        return t('scrapers.progress.event.retry', { attempt: event.attempt, message: event.message });
+      case 'error':
+        return t('scrapers.progress.event.error', { message: event.message });
+      case 'failover':
+        return t('scrapers.progress.event.failover', { from: event.from, to: event.to, message: event.message });
+      case 'finished':
+        return t('scrapers.progress.event.finished', {
+          status: t(`scrapers.progress.status.${event.status}`),
+          products: event.productsScraped,
+        });
+    }
+  };
+
+  const eventColor = (event: ProgressEvent) => {
+    if (event.type === 'error') return 'text-red-600';
+    if (event.type === 'retry' || event.type === 'failover') return 'text-amber-600';
+    if (event.type === 'finished') return 'font-semibold text-slate-900';
+    return 'text-slate-600';
+  };
+
+  const done = state.order.filter((id) => ['done', 'skipped'].includes(state.categories[id].status)).length;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+          <p className="text-sm text-slate-500">
+            {state.finished
+              ? t(`scrapers.progress.status.${state.finished.status}`)
+              : t('scrapers.progress.summary', { done, total: state.order.length, saved: state.saved })}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title={t('common.close')}>
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {state.order.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 mb-4">
+          {state.order.map((id) => {
+            const category = state.categories[id];
+            const expected = state.expected[id];
+            const width =
+              category.status === 'done' || category.status === 'skipped'
+                ? 100
+                : expected
+                  ? Math.min(95, (category.saved / expected) * 100)
+                  : category.status === 'running' ? 50 : 0;
+            return (
+              <div key={id}>
+                <div className="flex justify-between text-xs text-slate-600 mb-0.5">
+                  <span className="truncate">{category.name}</span>
+                  <span className="shrink-0 ml-2">
+                    {category.status === 'skipped'
+                      ? t('scrapers.progress.skipped')
+                      : expected
+                        ? `${category.saved.toLocaleString()} / ~${expected.toLocaleString()}`
+                        : category.saved.toLocaleString()}
+                  </span>
+                </div>
+                <div className="h-2 rounded bg-slate-100 overflow-hidden">
+                  <div className={`h-2 rounded ${BAR_STYLES[category.status]}`} style={{ width: `${width}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ul ref={logRef} className="max-h-56 overflow-y-auto rounded-lg bg-slate-50 p-3 font-mono text-xs space-y-0.5">
+        {state.events.length === 0 && <li className="text-slate-500">{t('scrapers.progress.waiting')}</li>}
+        {state.events.map((event, index) => (
+          <li key={index} className={eventColor(event)}>
+            {event.at && <span className="text-slate-400">{new Date(event.at).toLocaleTimeString()} </span>}
+            {describe(event)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
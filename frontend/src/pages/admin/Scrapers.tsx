@@ -1,22 +1,49 @@
+import { Fragment, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { Play, RefreshCw, CheckCircle, XCircle, Clock, AlertCircle } from 'lucide-react';
+import { Play, RefreshCw, CheckCircle, XCircle, Clock, AlertCircle, AlertTriangle, Ban, Square, Activity } from 'lucide-react';
 import { scraperApi, countriesApi } from '../../services/api';
+import type { ScrapeJobStatus } from '../../services/api';
 import Loading from '../../components/common/Loading';
+import ScrapeProgressPanel from '../../components/scrapers/ScrapeProgressPanel';
 import { formatDateTime } from '../../utils/dateFormat';
 
+interface CountDrop {
+  categoryId?: string;
+  expected: number;
+  actual: number;
+  dropPercent: number;
+}
+
+interface ScrapeAnomaly {
+  threshold: number;
+  baselineRuns: number;
+  total?: CountDrop;
+  categories: CountDrop[];
+}
+
 interface ScrapeLog {
   id: number;
   supermarket_id: number;
   supermarket_name: string;
   country_name: string;
+  location_city: string | null;
   started_at: string;
   completed_at: string | null;
-  status: 'running' | 'success' | 'failed';
+  status: 'running' | 'success' | 'failed' | 'partial' | 'cancelled';
   products_scraped: number | null;
   products_failed: number | null;
   error_message: string | null;
+  failure_reason: string | null;
+  implementation: string | null;
+  failovers: { implementation: string; reason: 'failed' | 'anomaly'; message: string }[] | null;
   duration_seconds: number | null;
+  anomaly: ScrapeAnomaly | null;
+  baseline_accepted_at: string | null;
+  run_id: string | null;
+  cancel_requested_at: string | null;
+  error_count: number;
+  snapshot_count: number;
 }
 
 interface Supermarket {
@@ -37,6 +64,11 @@ interface Country {
 export default function Scrapers() {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
+  const [expandedLogId, setExpandedLogId] = useState<number | null>(null);
+  // Run shown in the live progress panel
+  const [progressRun, setProgressRun] = useState<{ runId: string; name: string } | null>(null);
+  // Last job queued from this page, per supermarket
+  const [jobIds, setJobIds] = useState<Record<number, number>>({});
 
   // Fetch scraper status
   const {
@@ -59,6 +91,25 @@ export default function Scrapers() {
   const triggerMutation = useMutation({
     mutationFn: (supermarketId?: number) =>
       scraperApi.trigger(supermarketId, undefined),
+    onSuccess: (data, supermarketId) => {
+      if (supermarketId !== undefined && data.job_id !== undefined) {
+        setJobIds((ids) => ({ ...ids, [supermarketId]: data.job_id! }));
+      }
+      queryClient.invalidateQueries({ queryKey: ['scraperStatus'] });
+    },
+  });
+
+  // Cancel a running scrape; it stops at its next page or category
+  const cancelMutation = useMutation({
+    mutationFn: (runId: string) => scraperApi.cancelRun(runId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scraperStatus'] });
+    },
+  });
+
+  // Accept a flagged run's counts as the new anomaly baseline, e.g. after a catalogue shrank for good
+  const acceptBaselineMutation = useMutation({
+    mutationFn: (runId: string) => scraperApi.acceptBaseline(runId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['scraperStatus'] });
     },
@@ -81,26 +132,16 @@ export default function Scrapers() {
     return `${mins}m ${secs}s`;
   };
 
-  const isStaleRunning = (log: ScrapeLog) => {
-    if (log.status !== 'running') return false;
-    const startedAt = new Date(log.started_at).getTime();
-    const now = Date.now();
-    const hours24 = 24 * 60 * 60 * 1000;
-    return now - startedAt > hours24;
-  };
-
-  const getEffectiveStatus = (log: ScrapeLog) => {
-    if (isStaleRunning(log)) return 'failed';
-    return log.status;
-  };
-
   const getStatusIcon = (log: ScrapeLog) => {
-    const effectiveStatus = getEffectiveStatus(log);
-    switch (effectiveStatus) {
+    switch (log.status) {
       case 'success':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'failed':
         return <XCircle className="h-5 w-5 text-red-500" />;
+      case 'partial':
+        return <AlertTriangle className="h-5 w-5 text-amber-500" />;
+      case 'cancelled':
+        return <Ban className="h-5 w-5 text-slate-500" />;
       case 'running':
         return <RefreshCw className="h-5 w-5 text-blue-500 animate-spin" />;
       default:
@@ -108,6 +149,17 @@ export default function Scrapers() {
     }
   };
 
+  const describeAnomaly = (anomaly: ScrapeAnomaly) => {
+    const lines: string[] = [];
+    if (anomaly.total) {
+      lines.push(t('scrapers.totalDrop', { ...anomaly.total }));
+    }
+    anomaly.categories.forEach((drop) => {
+      lines.push(t('scrapers.categoryDrop', { ...drop, category: drop.categoryId }));
+    });
+    return lines.join('\n');
+  };
+
   if (statusLoading) {
     return <Loading text={t('loading.loadingScraperStatus')} />;
   }
@@ -131,7 +183,7 @@ export default function Scrapers() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
         <div className="card">
           <p className="text-sm text-slate-500">{t('scrapers.currentlyRunning')}</p>
           <p className="text-2xl font-bold text-blue-600">
@@ -149,6 +201,23 @@ export default function Scrapers() {
           <p className="text-2xl font-bold text-red-600">
             {status?.stats_24h?.failed_24h || 0}
           </p>
+          {Number(status?.stats_24h?.abandoned_24h) > 0 && (
+            <p className="text-xs text-slate-500">
+              {t('scrapers.abandoned24h', { count: status?.stats_24h?.abandoned_24h })}
+            </p>
+          )}
+        </div>
+        <div className="card">
+          <p className="text-sm text-slate-500">{t('scrapers.partial24h')}</p>
+          <p className="text-2xl font-bold text-amber-600">
+            {status?.stats_24h?.partial_24h || 0}
+          </p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-slate-500">{t('scrapers.cancelled24h')}</p>
+          <p className="text-2xl font-bold text-slate-500">
+            {status?.stats_24h?.cancelled_24h || 0}
+          </p>
         </div>
         <div className="card">
           <p className="text-sm text-slate-500">{t('scrapers.productsScraped24h')}</p>
@@ -159,30 +228,69 @@ export default function Scrapers() {
       </div>
 
       {/* Running Scrapers */}
-      {status?.running_scrapers && (status.running_scrapers as ScrapeLog[]).filter((s) => !isStaleRunning(s)).length > 0 && (
+      {status?.running_scrapers && (status.running_scrapers as ScrapeLog[]).length > 0 && (
         <div className="card border-blue-200 bg-blue-50">
           <h2 className="text-lg font-semibold text-blue-900 mb-4 flex items-center gap-2">
             <RefreshCw className="h-5 w-5 animate-spin" />
             {t('scrapers.currentlyRunning')}
           </h2>
           <div className="space-y-2">
-            {(status.running_scrapers as ScrapeLog[]).filter((s) => !isStaleRunning(s)).map((scraper) => (
+            {(status.running_scrapers as ScrapeLog[]).map((scraper) => (
               <div
                 key={scraper.id}
-                className="p-3 bg-white rounded-lg border border-blue-200"
+                className="p-3 bg-white rounded-lg border border-blue-200 flex items-center justify-between"
               >
-                <p className="font-medium text-slate-900">
-                  {scraper.supermarket_name}
-                </p>
-                <p className="text-sm text-slate-500">
-                  {t('scrapers.started')}: {formatDate(scraper.started_at)}
-                </p>
+                <div>
+                  <p className="font-medium text-slate-900">
+                    {scraper.supermarket_name}
+                  </p>
+                  <p className="text-sm text-slate-500">
+                    {t('scrapers.started')}: {formatDate(scraper.started_at)}
+                  </p>
+                </div>
+                {scraper.run_id && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setProgressRun({ runId: scraper.run_id!, name: scraper.supermarket_name })}
+                      className="btn-secondary py-1 px-3 text-sm flex items-center gap-1"
+                    >
+                      <Activity className="h-3 w-3" />
+                      {t('scrapers.progress.show')}
+                    </button>
+                    {scraper.cancel_requested_at ? (
+                      <span className="text-sm text-slate-500">{t('scrapers.cancelling')}</span>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          if (confirm(t('scrapers.cancelConfirm', { name: scraper.supermarket_name }))) {
+                            cancelMutation.mutate(scraper.run_id!);
+                          }
+                        }}
+                        disabled={cancelMutation.isPending}
+                        className="btn-secondary py-1 px-3 text-sm flex items-center gap-1 text-red-600"
+                      >
+                        <Square className="h-3 w-3" />
+                        {t('common.cancel')}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
         </div>
       )}
 
+      {/* Live Progress */}
+      {progressRun && (
+        <ScrapeProgressPanel
+          key={progressRun.runId}
+          runId={progressRun.runId}
+          title={t('scrapers.progress.title', { name: progressRun.name })}
+          onClose={() => setProgressRun(null)}
+        />
+      )}
+
       {/* Supermarkets by Country */}
       <div className="space-y-4">
         <h2 className="text-lg font-semibold text-slate-900">
@@ -207,16 +315,19 @@ export default function Scrapers() {
                         {sm.is_active ? t('common.active') : t('common.inactive')}
                       </p>
                     </div>
-                    <button
-                      onClick={() => triggerMutation.mutate(sm.id)}
-                      disabled={
-                        triggerMutation.isPending || !sm.is_active
-                      }
-                      className="btn-secondary py-1 px-3 text-sm flex items-center gap-1"
-                    >
-                      <Play className="h-3 w-3" />
-                      {t('common.run')}
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {jobIds[sm.id] !== undefined && <ScrapeJobBadge jobId={jobIds[sm.id]} />}
+                      <button
+                        onClick={() => triggerMutation.mutate(sm.id)}
+                        disabled={
+                          triggerMutation.isPending || !sm.is_active
+                        }
+                        className="btn-secondary py-1 px-3 text-sm flex items-center gap-1"
+                      >
+                        <Play className="h-3 w-3" />
+                        {t('common.run')}
+                      </button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -258,41 +369,98 @@ export default function Scrapers() {
             </thead>
             <tbody className="divide-y divide-slate-100">
               {(status?.recent_logs as ScrapeLog[] || []).map((log) => (
-                <tr key={log.id} className="hover:bg-slate-50">
-                  <td className="py-3 px-4">{getStatusIcon(log)}</td>
-                  <td className="py-3 px-4">
-                    <p className="font-medium text-slate-900">
-                      {log.supermarket_name}
-                    </p>
-                    <p className="text-xs text-slate-500">{log.country_name}</p>
-                  </td>
-                  <td className="py-3 px-4 text-sm text-slate-600">
-                    {formatDate(log.started_at)}
-                  </td>
-                  <td className="py-3 px-4 text-sm text-slate-600">
-                    {formatDuration(log.duration_seconds)}
-                  </td>
-                  <td className="py-3 px-4 text-sm text-slate-600">
-                    {log.products_scraped?.toLocaleString() || '-'}
-                  </td>
-                  <td className="py-3 px-4">
-                    {log.products_failed ? (
-                      <span className="text-sm text-red-600">
-                        {log.products_failed}
-                      </span>
-                    ) : log.error_message ? (
-                      <span
-                        className="text-sm text-red-600 flex items-center gap-1"
-                        title={log.error_message}
-                      >
-                        <AlertCircle className="h-4 w-4" />
-                        Error
-                      </span>
-                    ) : (
-                      <span className="text-sm text-slate-400">-</span>
-                    )}
-                  </td>
-                </tr>
+                <Fragment key={log.id}>
+                  <tr className="hover:bg-slate-50">
+                    <td className="py-3 px-4">{getStatusIcon(log)}</td>
+                    <td className="py-3 px-4">
+                      <p className="font-medium text-slate-900">
+                        {log.supermarket_name}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {log.location_city ? `${log.country_name} · ${log.location_city}` : log.country_name}
+                      </p>
+                      {log.failovers && log.failovers.length > 0 && (
+                        <p
+                          className="text-xs text-amber-600"
+                          title={log.failovers.map((f) => `${f.implementation}: ${f.message}`).join('\n')}
+                        >
+                          {t('scrapers.failedOver', { implementation: log.implementation })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-slate-600">
+                      {formatDate(log.started_at)}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-slate-600">
+                      {formatDuration(log.duration_seconds)}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-slate-600">
+                      {log.products_scraped?.toLocaleString() || '-'}
+                    </td>
+                    <td className="py-3 px-4">
+                      {log.anomaly ? (
+                        <>
+                          <span
+                            className="text-sm text-amber-600 flex items-center gap-1"
+                            title={describeAnomaly(log.anomaly)}
+                          >
+                            <AlertTriangle className="h-4 w-4" />
+                            {t('scrapers.countsDropped')}
+                          </span>
+                          {log.baseline_accepted_at ? (
+                            <span className="text-xs text-slate-500">{t('scrapers.baselineAccepted')}</span>
+                          ) : log.run_id && (
+                            <button
+                              onClick={() => {
+                                if (confirm(t('scrapers.acceptBaselineConfirm', { name: log.supermarket_name }))) {
+                                  acceptBaselineMutation.mutate(log.run_id!);
+                                }
+                              }}
+                              disabled={acceptBaselineMutation.isPending}
+                              className="text-xs text-amber-700 hover:text-amber-900 underline"
+                            >
+                              {t('scrapers.acceptBaseline')}
+                            </button>
+                          )}
+                        </>
+                      ) : log.products_failed ? (
+                        <span className="text-sm text-red-600">
+                          {log.products_failed}
+                        </span>
+                      ) : log.error_message ? (
+                        <span
+                          className="text-sm text-red-600 flex items-center gap-1"
+                          title={log.error_message}
+                        >
+                          <AlertCircle className="h-4 w-4" />
+                          {log.failure_reason === 'abandoned' ? t('scrapers.abandoned') : 'Error'}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-slate-400">-</span>
+                      )}
+                      {(log.error_count > 0 || log.snapshot_count > 0) && log.run_id && (
+                        <button
+                          onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                          className="text-xs text-slate-500 hover:text-slate-700 underline"
+                        >
+                          {expandedLogId === log.id
+                            ? t('scrapers.hideErrors')
+                            : log.error_count > 0
+                              ? t('scrapers.showErrors', { count: log.error_count })
+                              : t('scrapers.showSnapshots', { count: log.snapshot_count })}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedLogId === log.id && log.run_id && (
+                    <tr>
+                      <td colSpan={6} className="px-4 pb-4">
+                        {log.error_count > 0 && <ScrapeErrorGroups runId={log.run_id} />}
+                        {log.snapshot_count > 0 && <ScrapeSnapshots runId={log.run_id} />}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -301,3 +469,109 @@ export default function Scrapers() {
     </div>
   );
 }
+
+const JOB_STATUS_STYLES: Record<ScrapeJobStatus, string> = {
+  queued: 'bg-slate-200 text-slate-700',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-slate-200 text-slate-500',
+};
+
+function ScrapeJobBadge({ jobId }: { jobId: number }) {
+  const { t } = useTranslation();
+  const { data: job } = useQuery({
+    queryKey: ['scrapeJob', jobId],
+    queryFn: () => scraperApi.getJob(jobId),
+    // Poll until the job is finished
+    refetchInterval: (query) =>
+      query.state.data?.status === 'queued' || query.state.data?.status === 'running' ? 3000 : false,
+  });
+
+  if (!job) return null;
+
+  return (
+    <span
+      className={`rounded px-2 py-0.5 text-xs font-medium ${JOB_STATUS_STYLES[job.status]}`}
+      title={job.last_error || undefined}
+    >
+      {t(`scrapers.jobStatus.${job.status}`)}
+      {job.attempts > 1 && ` (${t('scrapers.jobAttempt', { attempt: job.attempts, max: job.max_attempts })})`}
+    </span>
+  );
+}
+
+function ScrapeErrorGroups({ runId }: { runId: string }) {
+  const { t } = useTranslation();
+  const { data, isLoading } = useQuery({
+    queryKey: ['scrapeErrorGroups', runId],
+    queryFn: () => scraperApi.getRunErrorGroups(runId),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">{t('common.loading')}</p>;
+  }
+
+  return (
+    <ul className="space-y-1 rounded-lg bg-slate-50 p-3">
+      {(data?.groups || []).map((group) => (
+        <li
+          key={`${group.signature}|${group.category_name}`}
+          className="text-sm text-slate-700"
+          title={group.sample_message}
+        >
+          <span className="font-semibold text-red-600">{group.count.toLocaleString()} ×</span>{' '}
+          {group.signature}
+          {group.category_name && (
+            <span className="text-slate-500"> {t('scrapers.inCategory', { category: group.category_name })}</span>
+          )}
+          {group.error_class && (
+            <span className="ml-2 rounded bg-slate-200 px-1.5 py-0.5 text-xs text-slate-600">
+              {group.error_class}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ScrapeSnapshots({ runId }: { runId: string }) {
+  const { t } = useTranslation();
+  const { data } = useQuery({
+    queryKey: ['scrapeSnapshots', runId],
+    queryFn: () => scraperApi.getRunSnapshots(runId),
+  });
+
+  const artifactUrl = (snapshotId: number, artifact: string) =>
+    `/api/scraper/runs/${encodeURIComponent(runId)}/snapshots/${snapshotId}/${artifact}`;
+
+  return (
+    <div className="mt-3">
+      <p className="text-sm font-medium text-slate-700 mb-1">{t('scrapers.failureSnapshots')}</p>
+      <ul className="space-y-1 rounded-lg bg-slate-50 p-3">
+        {(data?.snapshots || []).map((snapshot) => (
+          <li key={snapshot.id} className="text-sm text-slate-700 flex flex-wrap items-center gap-2">
+            <span className="font-medium">{snapshot.category_name || snapshot.category_id}</span>
+            <span className="text-slate-500" title={snapshot.error_message || undefined}>
+              {snapshot.reason === 'empty' ? t('scrapers.snapshotEmpty') : t('scrapers.snapshotError')}
+            </span>
+            {(['html', 'screenshot', 'network'] as const).map((artifact) =>
+              snapshot.artifacts[artifact] ? (
+                <a
+                  key={artifact}
+                  href={artifactUrl(snapshot.id, artifact)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {t(`scrapers.artifact.${artifact}`)}
+                </a>
+              ) : null
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
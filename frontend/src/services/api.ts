@@ -139,11 +139,34 @@ export const ratesApi = {
 };
 
 // Scraper API (admin only)
+export type ScrapeJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ScrapeJob {
+  id: number;
+  supermarket_id: number;
+  supermarket_name: string;
+  status: ScrapeJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_id: string | null;
+  products_scraped: number | null;
+  last_error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
 export const scraperApi = {
-  trigger: async (supermarket_id?: number, categories?: string[]): Promise<{ message: string }> => {
-    const response = await api.post<{ message: string }>('/scraper/trigger', { supermarket_id, categories });
+  trigger: async (
+    supermarket_id?: number,
+    categories?: string[]
+  ): Promise<{ message: string; job_id?: number; job_ids?: number[]; status: string }> => {
+    const response = await api.post('/scraper/trigger', { supermarket_id, categories });
     return response.data;
   },
+  getJob: async (id: number): Promise<ScrapeJob> => {
+    const response = await api.get<{ data: ScrapeJob }>(`/scraper/jobs/${id}`);
+    return response.data.data;
+  },
   getStatus: async (): Promise<{
     status: string;
     running_scrapers: unknown[];
@@ -151,6 +174,9 @@ export const scraperApi = {
     stats_24h: {
       success_24h: number;
       failed_24h: number;
+      abandoned_24h: number;
+      partial_24h: number;
+      cancelled_24h: number;
       products_24h: number;
       currently_running: number;
     };
@@ -162,6 +188,44 @@ export const scraperApi = {
     const response = await api.get('/scraper/logs', { params });
     return response.data;
   },
+  cancelRun: async (runId: string): Promise<{ message: string; run_id: string; status: string }> => {
+    const response = await api.post(`/scraper/runs/${encodeURIComponent(runId)}/cancel`);
+    return response.data;
+  },
+  acceptBaseline: async (runId: string): Promise<{ message: string; run_id: string; baseline_accepted_at: string }> => {
+    const response = await api.post(`/scraper/runs/${encodeURIComponent(runId)}/accept-baseline`);
+    return response.data;
+  },
+  getRunErrorGroups: async (runId: string): Promise<{
+    run_id: string;
+    groups: {
+      signature: string;
+      error_class: string | null;
+      category_name: string | null;
+      count: number;
+      sample_message: string;
+      first_seen: string;
+      last_seen: string;
+    }[];
+  }> => {
+    const response = await api.get(`/scraper/runs/${encodeURIComponent(runId)}/errors/groups`);
+    return response.data;
+  },
+  getRunSnapshots: async (runId: string): Promise<{
+    run_id: string;
+    snapshots: {
+      id: number;
+      category_id: string;
+      category_name: string | null;
+      reason: 'error' | 'empty';
+      error_message: string | null;
+      artifacts: { html?: string; screenshot?: string; network?: string };
+      created_at: string;
+    }[];
+  }> => {
+    const response = await api.get(`/scraper/runs/${encodeURIComponent(runId)}/snapshots`);
+    return response.data;
+  },
 };
 
 export default api;
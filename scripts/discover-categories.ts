@@ -0,0 +1,100 @@
+import { ScraperService, CategoryDiscoveryResult } from '../src/services/ScraperService';
+import { query, closePool } from '../src/config/database';
+import { getScraperRegistration } from '../src/scrapers/scraperRegistry';
+import { browserPool } from '../src/scrapers/base/BrowserPool';
+
+/**
+ * Crawl retailers' category trees and diff them against the scrapers' category lists,
+ * so renumbered or new sections are noticed instead of silently missed.
+ * Usage (use -- to pass flags to script):
+ *   npm run categories:discover                          # All active supermarkets whose scraper supports discovery
+ *   npm run categories:discover -- mercadona             # One supermarket by name, ID, or class
+ *   npm run categories:discover -- mercadona --save      # Store the result in scraper_categories
+ *   npm run categories:discover -- mercadona --verbose   # Also list every discovered category
+ *
+ * With --save, the current list is copied into scraper_categories the first time, new categories
+ * are added disabled, and categories missing from the site are flagged. Enable categories with
+ * PATCH /api/scraper/categories/:supermarketId/:categoryId.
+ */
+
+function printResult(result: CategoryDiscoveryResult, verbose: boolean): void {
+  const { diff } = result;
+  console.log(`\n=== ${result.supermarketName} ===`);
+  console.log(`Discovered ${result.discovered.length} categories (${diff.unchanged} unchanged)`);
+
+  if (diff.added.length > 0) {
+    console.log(`\n  Added on the site (${diff.added.length}):`);
+    diff.added.forEach(c => console.log(`    + ${c.id.padEnd(10)} ${c.parentName ? `${c.parentName} > ` : ''}${c.name}`));
+  }
+  if (diff.removed.length > 0) {
+    console.log(`\n  Gone from the site (${diff.removed.length}):`);
+    diff.removed.forEach(c => console.log(`    - ${c.id.padEnd(10)} ${c.name}`));
+  }
+  if (diff.renamed.length > 0) {
+    console.log(`\n  Renamed (${diff.renamed.length}):`);
+    diff.renamed.forEach(c => console.log(`    ~ ${c.id.padEnd(10)} ${c.from} -> ${c.to}`));
+  }
+  if (diff.added.length + diff.removed.length + diff.renamed.length === 0) {
+    console.log('  ✅ Category list is up to date');
+  }
+
+  if (verbose) {
+    console.log('\n  All discovered categories:');
+    result.discovered.forEach(c => console.log(`    ${c.id.padEnd(10)} ${c.parentName ? `${c.parentName} > ` : ''}${c.name}`));
+  }
+
+  if (result.saved) {
+    const enabled = result.saved.filter(row => row.is_enabled).length;
+    console.log(`\n  Saved: ${result.saved.length} categories stored, ${enabled} enabled`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const save = args.includes('--save');
+  const verbose = args.includes('--verbose') || args.includes('-v');
+  const identifier = args.find(a => !a.startsWith('-'));
+
+  const scraperService = new ScraperService();
+  let failures = 0;
+
+  try {
+    const supermarkets = await query<{ id: string; name: string; scraper_class: string | null }>(
+      identifier
+        ? `SELECT id, name, scraper_class FROM supermarkets
+           WHERE id::text = $1 OR LOWER(name) = LOWER($1) OR LOWER(scraper_class) = LOWER($1)`
+        : `SELECT id, name, scraper_class FROM supermarkets WHERE is_active = true ORDER BY name`,
+      identifier ? [identifier] : []
+    );
+
+    const targets = supermarkets.rows.filter(s => {
+      const supported = !!getScraperRegistration(s.scraper_class ?? '')?.scraperClass.prototype.discoverCategories;
+      if (!supported && identifier) {
+        console.error(`${s.name} (${s.scraper_class}) does not support category discovery`);
+      }
+      return supported;
+    });
+
+    if (targets.length === 0) {
+      console.error(identifier ? `No supermarket with category discovery found for: ${identifier}` : 'No active scraper supports category discovery');
+      process.exit(1);
+    }
+
+    // One at a time - discovery may launch a browser
+    for (const supermarket of targets) {
+      try {
+        printResult(await scraperService.discoverCategories(supermarket.id, { save }), verbose);
+      } catch (error) {
+        failures++;
+        console.error(`\n❌ ${supermarket.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await browserPool.close();
+    await closePool();
+  }
+
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
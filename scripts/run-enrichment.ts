@@ -0,0 +1,79 @@
+import { EnrichmentService, EnrichmentResult } from '../src/services/EnrichmentService';
+import { scraperLogger } from '../src/utils/logger';
+import { query } from '../src/config/database';
+import { closePool } from '../src/config/database';
+import { browserPool } from '../src/scrapers/base/BrowserPool';
+
+/**
+ * Script to fill in missing product details (barcode, description, brand, unit)
+ * from product detail pages, within each supermarket's daily budget
+ * Usage (use -- to pass flags to script):
+ *   npm run enrichment:run                               # Enrich all active supermarkets that support it
+ *   npm run enrichment:run -- <name|id|class>            # Enrich a specific supermarket
+ *   npm run enrichment:run -- voli --limit=50            # Check at most 50 products this run
+ */
+
+function printEnrichmentResult(result: EnrichmentResult): void {
+  console.log(`Supermarket: ${result.supermarketId}`);
+  if (result.skippedReason) {
+    console.log(`  Skipped: ${result.skippedReason}`);
+    return;
+  }
+  console.log(`  Products checked: ${result.productsChecked}`);
+  console.log(`  Products enriched: ${result.productsEnriched}`);
+  console.log(`  Products failed: ${result.productsFailed}`);
+}
+
+async function main() {
+  const enrichmentService = new EnrichmentService();
+  const args = process.argv.slice(2);
+
+  const limitArg = args.find(a => a.startsWith('--limit='));
+  const limit = limitArg ? parseInt(limitArg.split('=')[1], 10) : undefined;
+
+  const filteredArgs = args.filter(a => !a.startsWith('--'));
+
+  try {
+    console.log('\n=== Enrichment Results ===\n');
+
+    if (filteredArgs.length === 0) {
+      scraperLogger.info('Running enrichment for all active supermarkets...');
+      const results = await enrichmentService.runAllEnrichment({ limit });
+      results.forEach(printEnrichmentResult);
+    } else {
+      const identifier = filteredArgs[0];
+      let supermarketId = identifier;
+
+      if (!identifier.match(/^[0-9a-f-]{36}$/i)) {
+        const result = await query<{ id: string; name: string }>(
+          `SELECT id, name FROM supermarkets
+           WHERE LOWER(name) = LOWER($1)
+              OR LOWER(scraper_class) = LOWER($1)
+           LIMIT 1`,
+          [identifier]
+        );
+
+        if (result.rows.length === 0) {
+          console.error(`Supermarket not found: ${identifier}`);
+          process.exit(1);
+        }
+
+        supermarketId = result.rows[0].id;
+        scraperLogger.info(`Found supermarket: ${result.rows[0].name}`);
+      }
+
+      printEnrichmentResult(await enrichmentService.runEnrichment(supermarketId, { limit }));
+    }
+
+    console.log('\n✅ Enrichment completed!');
+  } catch (error) {
+    scraperLogger.error('Enrichment failed:', error);
+    console.error('❌ Enrichment failed:', error);
+    process.exit(1);
+  } finally {
+    await browserPool.close();
+    await closePool();
+  }
+}
+
+main();
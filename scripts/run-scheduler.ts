@@ -0,0 +1,36 @@
+import { config } from '../src/config/env';
+import { checkConnection, closePool } from '../src/config/database';
+import { Scheduler } from '../src/scheduler/Scheduler';
+
+/**
+ * Long-running scheduler process: queues scrape jobs from the cron schedules in scrape_schedules.
+ * The jobs are run by worker processes (npm run worker).
+ * Schedules are managed through the admin API (/api/scraper/schedules).
+ * Usage:
+ *   npm run scheduler
+ */
+
+async function main() {
+  if (!(await checkConnection())) {
+    console.error('Database connection failed');
+    process.exit(1);
+  }
+
+  const scheduler = new Scheduler({
+    pollIntervalMs: config.scheduler.pollSeconds * 1000,
+    heartbeatTimeoutSeconds: config.scraper.heartbeatTimeoutSeconds,
+  });
+  scheduler.start();
+
+  const shutdown = async (signal: string) => {
+    console.log(`\n${signal} received, stopping scheduler...`);
+    scheduler.stop();
+    await closePool();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main();
@@ -2,6 +2,12 @@ import { ScraperService } from '../src/services/ScraperService';
 import { scraperLogger } from '../src/utils/logger';
 import { query } from '../src/config/database';
 import { closePool } from '../src/config/database';
+import { browserPool } from '../src/scrapers/base/BrowserPool';
+import fs from 'fs';
+import { ScrapeResult, ScrapeDiff, DiffProduct } from '../src/types/scraper.types';
+import { describeAnomaly } from '../src/utils/anomaly';
+import { ProductFileWriter } from '../src/utils/productExport';
+import { findScraperRegistration, getRegisteredScraperNames } from '../src/scrapers/scraperRegistry';
 
 /**
  * Script to run scrapers and store results in database
@@ -14,8 +20,130 @@ import { closePool } from '../src/config/database';
  *   npm run scraper:run -- voli --categories=75,76,77    # Run Voli with specific categories
  *   npm run scraper:run -- voli --list-categories        # List available categories for Voli
  *   npm run scraper:run -- voli -l                       # Short form for --list-categories
+ *   npm run scraper:run -- mercadona --location=4        # Scrape a specific store location (default: the default location)
+ *   npm run scraper:run -- --resume run-a1b2c3           # Continue a failed run from its checkpoint
+ *   npm run scraper:run -- mercadona --dry-run           # Run without writing to the database
+ *   npm run scraper:run -- mercadona --output=out.ndjson # Dry run, write products to NDJSON (or .csv)
+ *   npm run scraper:run -- mercadona --output=out.csv --currency=EUR  # Also reject products in other currencies
+ *   npm run scraper:run -- auchan --diff                 # Report what a run would change, store nothing
+ *   npm run scraper:run -- auchan --diff --scraper=AuchanUaGraphQLScraper --report=diff.json
+ *
+ * Dry runs never connect to Postgres (DATABASE_URL must be set but is not used). The scraper is
+ * looked up in the registry by class name, e.g. "mercadona" or "MercadonaScraper".
  */
 
+function printScrapeResult(result: ScrapeResult): void {
+  console.log('\n=== Scraping Result ===\n');
+  console.log(`Supermarket: ${result.supermarketId}`);
+  console.log(`Products scraped: ${result.productsScraped}`);
+  console.log(`Products failed: ${result.productsFailed}`);
+  console.log(`Duration: ${(result.duration / 1000).toFixed(2)}s`);
+  console.log(`Errors: ${result.errors.length}`);
+
+  if (result.anomaly) {
+    console.log(`\n⚠️  Marked partial - product counts dropped: ${describeAnomaly(result.anomaly)}`);
+  }
+
+  if (result.errors.length > 0) {
+    console.log('\nErrors:');
+    result.errors.forEach((error, i) => {
+      console.log(`  ${i + 1}. ${error.message}`);
+    });
+  }
+
+  // Show some sample products
+  if (result.products.length > 0) {
+    console.log('\nSample products:');
+    result.products.slice(0, 5).forEach((product, i) => {
+      console.log(`  ${i + 1}. ${product.name}`);
+      console.log(`     Price: ${product.price} ${product.currency}`);
+      if (product.pricePerUnit) {
+        console.log(`     Price per unit: ${product.pricePerUnit.toFixed(2)} ${product.currency}/${product.unit}`);
+      }
+    });
+  }
+}
+
+// Entries printed per diff section - the --report file has all of them
+const DIFF_SAMPLE_SIZE = 10;
+
+function describeDiffProduct(product: DiffProduct): string {
+  const id = product.externalId ? ` [${product.externalId}]` : '';
+  const price = product.price !== undefined ? ` - ${product.price} ${product.currency ?? ''}` : '';
+  return `${product.name}${id}${price}`;
+}
+
+function printDiffSection<T>(title: string, items: T[], describe: (item: T) => string): void {
+  console.log(`\n${title}: ${items.length}`);
+  items.slice(0, DIFF_SAMPLE_SIZE).forEach(item => console.log(`  ${describe(item)}`));
+  if (items.length > DIFF_SAMPLE_SIZE) {
+    console.log(`  ... and ${items.length - DIFF_SAMPLE_SIZE} more`);
+  }
+}
+
+function printScrapeDiff(diff: ScrapeDiff): void {
+  console.log(`\n=== Diff: ${diff.scraperClass} vs stored ${diff.supermarketName} products ===\n`);
+  console.log(`Scraped: ${diff.scraped} (${diff.rejected} would be quarantined, ${diff.duplicates} duplicates)`);
+  console.log(
+    `Matched: ${diff.matched.externalId} by external ID, ${diff.matched.url} by URL, ${diff.matched.nameBrand} by name and brand`
+  );
+  if (diff.errors > 0) {
+    console.log(`\n⚠️  ${diff.errors} scrape errors - some disappeared products may just have been missed`);
+  }
+
+  printDiffSection('New products', diff.newProducts, describeDiffProduct);
+  if (diff.disappeared) {
+    printDiffSection('Disappeared products', diff.disappeared, describeDiffProduct);
+  } else {
+    console.log('\nDisappeared products: not checked for category-filtered runs');
+  }
+  printDiffSection('Price changes', diff.priceChanges, c =>
+    `${c.name}: ${c.oldPrice} -> ${c.newPrice} ${c.currency ?? ''} (${c.changePercent > 0 ? '+' : ''}${c.changePercent}%)`
+  );
+  printDiffSection('Unit changes', diff.unitChanges, c =>
+    `${c.name}: ${c.oldUnitQuantity ?? '?'} ${c.oldUnit ?? '?'} -> ${c.newUnitQuantity ?? '?'} ${c.newUnit ?? '?'}`
+  );
+  printDiffSection('Mapping collisions', diff.collisions, c =>
+    c.reason === 'shared_mapping'
+      ? `mapping ${c.mappingId} would get ${c.products.length} products: ${c.products.map(p => p.name).join(' | ')}`
+      : `mapping ${c.mappingId} external ID ${c.mapping.externalId} -> ${c.products[0].externalId} (${c.products[0].name})`
+  );
+}
+
+/**
+ * --dry-run / --output: run one scraper from the registry and write products to a file
+ */
+async function dryRun(
+  scraperService: ScraperService,
+  identifier: string | undefined,
+  options: { categoryIds?: string[]; output?: string; currency?: string }
+): Promise<void> {
+  const registration = identifier ? findScraperRegistration(identifier) : undefined;
+  if (!registration) {
+    console.error(identifier ? `Scraper not found: ${identifier}` : 'A dry run needs a scraper name');
+    console.error(`\nRegistered scrapers:\n  ${getRegisteredScraperNames().join('\n  ')}`);
+    process.exit(1);
+  }
+
+  const writer = options.output ? new ProductFileWriter(options.output) : undefined;
+  try {
+    const result = await scraperService.dryRunScraper(registration, {
+      categoryIds: options.categoryIds,
+      writer,
+      currency: options.currency,
+    });
+    printScrapeResult(result);
+  } finally {
+    await writer?.close();
+  }
+
+  if (writer) {
+    console.log(`\n✅ Wrote ${writer.written} products to ${writer.filePath} (${writer.format})`);
+  } else {
+    console.log('\n✅ Dry run completed - nothing was written');
+  }
+}
+
 async function main() {
   const scraperService = new ScraperService();
   const args = process.argv.slice(2);
@@ -28,11 +156,58 @@ async function main() {
   const categoryIds = categoriesArg ? categoriesArg.split('=')[1].split(',').map(c => c.trim()) : undefined;
 
   const listCategories = args.includes('--list-categories') || args.includes('-l');
+  const locationArg = args.find(a => a.startsWith('--location='));
+  const locationId = locationArg ? locationArg.split('=')[1] : undefined;
+
+  // --resume <runId> or --resume=<runId>
+  const resumeIndex = args.indexOf('--resume');
+  const resumeArg = args.find(a => a.startsWith('--resume='));
+  const resumeRunId = resumeArg ? resumeArg.split('=')[1] : resumeIndex >= 0 ? args[resumeIndex + 1] : undefined;
+
+  const outputArg = args.find(a => a.startsWith('--output='));
+  const output = outputArg ? outputArg.split('=').slice(1).join('=') : undefined;
+  const currencyArg = args.find(a => a.startsWith('--currency='));
+  const isDryRun = args.includes('--dry-run') || !!output;
+
+  const isDiff = args.includes('--diff');
+  const scraperArg = args.find(a => a.startsWith('--scraper='));
+  const reportArg = args.find(a => a.startsWith('--report='));
+  const activeDaysArg = args.find(a => a.startsWith('--active-days='));
+
+  const filteredArgs = args.filter((a, i) => !a.startsWith('--') && !(resumeIndex >= 0 && i === resumeIndex + 1));
+
+  if (isDryRun) {
+    try {
+      await dryRun(scraperService, filteredArgs[0], {
+        categoryIds,
+        output,
+        currency: currencyArg ? currencyArg.split('=')[1].toUpperCase() : undefined,
+      });
+    } catch (error) {
+      console.error('❌ Dry run failed:', error);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
 
-  const filteredArgs = args.filter(a => !a.startsWith('--'));
+  // A diff stores nothing, so it must never fall through to a full or resumed run
+  if (isDiff && (filteredArgs.length === 0 || resumeIndex >= 0 || resumeArg)) {
+    console.error('Usage: npm run scraper:run -- <name|id|class> --diff [--categories=...] [--scraper=<class>] [--report=<file>]');
+    console.error('--diff needs a scraper and cannot be combined with --resume');
+    process.exit(1);
+  }
 
   try {
-    if (filteredArgs.length === 0) {
+    if (resumeIndex >= 0 || resumeArg) {
+      if (!resumeRunId) {
+        console.error('Usage: npm run scraper:run -- --resume <runId>');
+        process.exit(1);
+      }
+
+      scraperLogger.info(`Resuming scrape run: ${resumeRunId}`);
+      const result = await scraperService.resumeScraper(resumeRunId);
+      printScrapeResult(result);
+    } else if (filteredArgs.length === 0) {
       // Run all scrapers in parallel
       scraperLogger.info(`Running all active scrapers (${concurrency} parallel)...`);
       const results = await scraperService.runAllScrapers(concurrency);
@@ -92,35 +267,27 @@ async function main() {
         return;
       }
 
-      const categoryInfo = categoryIds ? ` (categories: ${categoryIds.join(', ')})` : '';
-      scraperLogger.info(`Running scraper for supermarket: ${supermarketId}${categoryInfo}`);
-      const result = await scraperService.runScraper(supermarketId, { categoryIds });
-
-      console.log('\n=== Scraping Result ===\n');
-      console.log(`Supermarket: ${result.supermarketId}`);
-      console.log(`Products scraped: ${result.productsScraped}`);
-      console.log(`Products failed: ${result.productsFailed}`);
-      console.log(`Duration: ${(result.duration / 1000).toFixed(2)}s`);
-      console.log(`Errors: ${result.errors.length}`);
-
-      if (result.errors.length > 0) {
-        console.log('\nErrors:');
-        result.errors.forEach((error, i) => {
-          console.log(`  ${i + 1}. ${error.message}`);
+      if (isDiff) {
+        const diff = await scraperService.diffScraper(supermarketId, {
+          categoryIds,
+          scraperClass: scraperArg ? scraperArg.split('=')[1] : undefined,
+          activeDays: activeDaysArg ? parseInt(activeDaysArg.split('=')[1], 10) : undefined,
         });
-      }
+        printScrapeDiff(diff);
 
-      // Show some sample products
-      if (result.products.length > 0) {
-        console.log('\nSample products:');
-        result.products.slice(0, 5).forEach((product, i) => {
-          console.log(`  ${i + 1}. ${product.name}`);
-          console.log(`     Price: ${product.price} ${product.currency}`);
-          if (product.pricePerUnit) {
-            console.log(`     Price per unit: ${product.pricePerUnit.toFixed(2)} ${product.currency}/${product.unit}`);
-          }
-        });
+        if (reportArg) {
+          const reportPath = reportArg.split('=').slice(1).join('=');
+          fs.writeFileSync(reportPath, JSON.stringify(diff, null, 2));
+          console.log(`\nFull report written to ${reportPath}`);
+        }
+        return;
       }
+
+      const categoryInfo = categoryIds ? ` (categories: ${categoryIds.join(', ')})` : '';
+      const locationInfo = locationId ? ` (location ${locationId})` : '';
+      scraperLogger.info(`Running scraper for supermarket: ${supermarketId}${categoryInfo}${locationInfo}`);
+      const result = await scraperService.runScraper(supermarketId, { categoryIds, locationId });
+      printScrapeResult(result);
     }
 
     // Show latest stats
@@ -141,6 +308,7 @@ async function main() {
     console.error('❌ Scraping failed:', error);
     process.exit(1);
   } finally {
+    await browserPool.close();
     await closePool();
   }
 }
@@ -0,0 +1,59 @@
+import { config } from '../src/config/env';
+import { checkConnection, closePool } from '../src/config/database';
+import { ScraperService } from '../src/services/ScraperService';
+import { ScrapeWorker } from '../src/workers/ScrapeWorker';
+import { StaleRunReaper } from '../src/workers/StaleRunReaper';
+import { browserPool } from '../src/scrapers/base/BrowserPool';
+
+/**
+ * Long-running worker process: runs scrape jobs queued by the API and the scheduler.
+ * Start as many workers as the scraping hosts can take; they share the queue in scrape_jobs.
+ * Usage:
+ *   npm run worker
+ *
+ * SIGINT/SIGTERM stop claiming jobs and wait for jobs in progress; a second signal exits immediately
+ * (the jobs are put back in the queue once their heartbeat expires).
+ */
+
+async function main() {
+  if (!(await checkConnection())) {
+    console.error('Database connection failed');
+    process.exit(1);
+  }
+
+  const worker = new ScrapeWorker(new ScraperService(), {
+    concurrency: config.worker.concurrency,
+    pollIntervalMs: config.worker.pollSeconds * 1000,
+    heartbeatIntervalMs: config.worker.heartbeatSeconds * 1000,
+    heartbeatTimeoutSeconds: config.worker.heartbeatTimeoutSeconds,
+    retryDelaySeconds: config.worker.retryDelaySeconds,
+  });
+  // Reaped runs become resumable, so retries of abandoned jobs continue from their checkpoint
+  const reaper = new StaleRunReaper({
+    intervalMs: config.scraper.heartbeatSeconds * 1000,
+    heartbeatTimeoutSeconds: config.scraper.heartbeatTimeoutSeconds,
+    eventRetentionDays: config.scraper.eventRetentionDays,
+  });
+  reaper.start();
+  worker.start();
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) {
+      console.log(`\n${signal} received again, exiting without waiting for jobs`);
+      process.exit(1);
+    }
+    stopping = true;
+    console.log(`\n${signal} received, waiting for jobs in progress to finish...`);
+    reaper.stop();
+    await worker.stop();
+    await browserPool.close();
+    await closePool();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main();
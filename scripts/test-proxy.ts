@@ -1,44 +1,121 @@
-import { chromium } from 'playwright';
-
-async function testProxy() {
-  const proxy = {
-    server: 'http://p.webshare.io:80',
-    username: '74y8tyiaug-rotate',
-    password: 'kxjhcgiqy3rte',
-  };
-
-  console.log('Launching browser with proxy...');
-
-  const browser = await chromium.launch({
-    headless: false, // Set to true for headless mode
-    proxy,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-    ],
-  });
+import { fetch, ProxyAgent } from 'undici';
+import { config } from '../src/config/env';
+import { closePool } from '../src/config/database';
+import { proxyHealthRepository } from '../src/repositories';
+import { ProxyPool, findProxies, proxyId } from '../src/scrapers/base/ProxyPool';
+
+/**
+ * Health check for the proxy pool in SCRAPER_PROXY_CONFIG.
+ * Sends one request through every proxy, records the result in proxy_health
+ * (so dead proxies get evicted) and prints each proxy's health.
+ * Usage (use -- to pass flags to script):
+ *   npm run proxy:check                                  # Check every configured proxy
+ *   npm run proxy:check -- migros                        # Only proxies assigned to a supermarket name
+ *   npm run proxy:check -- country:AL                    # Only proxies assigned to a country
+ *   npm run proxy:check -- --target=https://www.migros.com.tr   # Request this URL instead of httpbin
+ *   npm run proxy:check -- --no-record                   # Don't update proxy_health
+ */
+
+const DEFAULT_TARGET = 'https://httpbin.org/ip';
+const TIMEOUT_MS = 30000;
 
-  const page = await browser.newPage();
+interface CheckResult {
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  detail: string;
+}
+
+async function checkProxy(url: string, target: string): Promise<CheckResult> {
+  const dispatcher = new ProxyAgent(url);
+  const started = Date.now();
 
   try {
-    // Test 1: Check IP address
-    console.log('Checking IP address...');
-    await page.goto('https://httpbin.org/ip', { timeout: 30000 });
-    const ipContent = await page.textContent('body');
-    console.log('Your IP via proxy:', ipContent);
-
-    // Test 2: Try a simple page
-    console.log('\nTesting navigation...');
-    await page.goto('https://example.com', { timeout: 30000 });
-    const title = await page.title();
-    console.log('Page title:', title);
-
-    console.log('\n✅ Proxy is working!');
+    const response = await fetch(target, { dispatcher, signal: AbortSignal.timeout(TIMEOUT_MS) });
+    const body = await response.text();
+    const latencyMs = Date.now() - started;
+
+    if (!response.ok) {
+      return { url, ok: false, latencyMs, detail: `HTTP ${response.status}` };
+    }
+    // httpbin echoes the exit IP - handy to spot proxies that share one
+    const detail = target === DEFAULT_TARGET ? `exit IP ${JSON.parse(body).origin}` : `HTTP ${response.status}`;
+    return { url, ok: true, latencyMs, detail };
   } catch (error) {
-    console.error('❌ Proxy test failed:', error);
+    const cause = (error as Error & { cause?: Error }).cause;
+    return { url, ok: false, latencyMs: Date.now() - started, detail: cause?.message ?? (error as Error).message };
+  } finally {
+    await dispatcher.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const targetArg = args.find(a => a.startsWith('--target='));
+  const target = targetArg ? targetArg.split('=').slice(1).join('=') : DEFAULT_TARGET;
+  const record = !args.includes('--no-record');
+  const filter = args.find(a => !a.startsWith('--'));
+
+  const proxyConfig = config.scraper.proxyConfig;
+  const pool = new ProxyPool(proxyConfig, proxyHealthRepository, {
+    maxFailures: config.scraper.proxyMaxFailures,
+    evictionMinutes: config.scraper.proxyEvictionMinutes,
+  });
+
+  const proxies = filter
+    ? proxyConfig.get(filter.toLowerCase()) ?? findProxies(proxyConfig, filter)
+    : pool.getAllProxies();
+
+  if (proxies.length === 0) {
+    console.error(filter ? `No proxies configured for: ${filter}` : 'SCRAPER_PROXY_CONFIG has no proxies');
+    process.exit(1);
+  }
+
+  console.log(`\nChecking ${proxies.length} proxies against ${target}...\n`);
+
+  let failures = 0;
+  try {
+    // One at a time - checking a proxy should not look like a burst of traffic
+    for (const url of proxies) {
+      const result = await checkProxy(url, target);
+      if (!result.ok) failures++;
+
+      if (record) {
+        if (result.ok) {
+          await pool.reportSuccess(url);
+        } else {
+          await pool.reportFailure(url, new Error(result.detail));
+        }
+      }
+
+      console.log(`${result.ok ? '✅' : '❌'} ${proxyId(url)} (${result.latencyMs}ms) - ${result.detail}`);
+    }
+
+    const health = await pool.getHealth(proxies);
+    console.log('\n=== Proxy Health ===\n');
+    for (const url of proxies) {
+      const row = health.get(proxyId(url));
+      if (!row) {
+        console.log(`${proxyId(url)}: no history`);
+        continue;
+      }
+      const evicted = row.evicted_until && new Date(row.evicted_until) > new Date()
+        ? `, evicted until ${new Date(row.evicted_until).toISOString()}`
+        : '';
+      console.log(
+        `${row.proxy_id}: ${row.success_count} ok, ${row.failure_count} failed ` +
+          `(${row.consecutive_failures} in a row)${evicted}`
+      );
+      if (row.last_error) {
+        console.log(`  Last error: ${row.last_error}`);
+      }
+    }
   } finally {
-    await browser.close();
+    await closePool();
   }
+
+  console.log(failures === 0 ? '\n✅ All proxies are working!' : `\n❌ ${failures} of ${proxies.length} proxies failed`);
+  process.exit(failures === 0 ? 0 : 1);
 }
 
-testProxy();
+main();
@@ -6,6 +6,8 @@ import {
   getScraperCategories,
   getRegisteredScraperNames,
 } from '../src/scrapers/scraperRegistry';
+import { createFixtureScraper, replayScraperFixture } from '../src/scrapers/scraperFixtures';
+import { FIXTURES_ROOT } from '../src/scrapers/base/NetworkFixtures';
 
 /**
  * Test script for running scrapers manually
@@ -19,10 +21,22 @@ import {
  *   npx ts-node scripts/test-scraper.ts MigrosScraper --list-categories
  *   npx ts-node scripts/test-scraper.ts VoliScraper
  *   npx ts-node scripts/test-scraper.ts --list-scrapers
+ *
+ * Fixtures (offline regression testing):
+ *   npx ts-node scripts/test-scraper.ts VoliScraper 75 --record     # Record network + expected products
+ *   npx ts-node scripts/test-scraper.ts VoliScraper --replay        # Replay offline and compare to expected
+ *   npx ts-node scripts/test-scraper.ts VoliScraper --replay --fixtures-dir=./tmp/fixtures
  */
 
-const scraperArg = process.argv[2] || 'MigrosScraper';
-const categoryArg = process.argv[3];
+const args = process.argv.slice(2);
+const positionalArgs = args.filter(a => !a.startsWith('--') || a === '--list-scrapers' || a === '--list-categories');
+const scraperArg = positionalArgs[0] || 'MigrosScraper';
+const categoryArg = positionalArgs[1];
+
+const recordMode = args.includes('--record');
+const replayMode = args.includes('--replay');
+const fixturesDirArg = args.find(a => a.startsWith('--fixtures-dir='));
+const fixturesRoot = fixturesDirArg ? fixturesDirArg.split('=')[1] : FIXTURES_ROOT;
 
 interface ScraperSetup {
   config: ScraperConfig;
@@ -103,6 +117,7 @@ function getScraperSetup(scraperName: string, categoryIds?: string[]): ScraperSe
     maxRetries: defaultConfig.maxRetries || 3,
     concurrentPages: defaultConfig.concurrentPages || 1,
     userAgents: defaultConfig.userAgents,
+    wolt: defaultConfig.wolt,
   };
 
   return {
@@ -112,6 +127,41 @@ function getScraperSetup(scraperName: string, categoryIds?: string[]): ScraperSe
   };
 }
 
+function getRecordingSetup(scraperName: string, categoryIds?: string[]) {
+  const { scraper, fixtures, config } = createFixtureScraper(scraperName, 'record', {
+    categoryIds,
+    fixturesRoot,
+  });
+
+  return {
+    config,
+    scraper,
+    fixtures,
+    allCategories: getScraperCategories(scraperName),
+  };
+}
+
+async function replayFixture(categoryIds?: string[]): Promise<void> {
+  logger.info('='.repeat(60));
+  logger.info(`Replaying ${scraperArg} fixture (offline)`);
+  logger.info('='.repeat(60));
+
+  const result = await replayScraperFixture(scraperArg, { categoryIds, fixturesRoot });
+
+  logger.info(`Products scraped: ${result.products.length} (expected ${result.expected.length})`);
+  if (result.misses > 0) {
+    logger.warn(`Requests without a recorded response: ${result.misses}`);
+  }
+
+  if (result.differences.length > 0) {
+    logger.error(`${result.differences.length} differences from expected snapshot:`);
+    result.differences.slice(0, 50).forEach(diff => logger.error(`  - ${diff}`));
+    throw new Error(`Replay of ${scraperArg} does not match expected snapshot`);
+  }
+
+  logger.info('Replay matches expected snapshot');
+}
+
 async function testScraper() {
   // Handle --list-scrapers flag
   if (scraperArg === '--list-scrapers' || scraperArg === '-ls') {
@@ -128,7 +178,14 @@ async function testScraper() {
   // Parse category IDs from comma-separated string
   const categoryIds = categoryArg ? categoryArg.split(',').map(c => c.trim()) : undefined;
 
-  const { config, scraper, allCategories } = getScraperSetup(scraperArg, categoryIds);
+  if (replayMode) {
+    await replayFixture(categoryIds);
+    return;
+  }
+
+  const { config, scraper, allCategories, fixtures } = recordMode
+    ? getRecordingSetup(scraperArg, categoryIds)
+    : { ...getScraperSetup(scraperArg, categoryIds), fixtures: undefined };
 
   logger.info('='.repeat(60));
   logger.info(`Starting ${config.name} Scraper Test`);
@@ -170,6 +227,12 @@ async function testScraper() {
       });
     }
 
+    if (fixtures) {
+      fixtures.save(scraperArg, config.categories.map(c => c.id));
+      fixtures.saveExpected(products);
+      logger.info(`Fixture recorded to ${fixtures.dir}`);
+    }
+
     // Get statistics
     const stats = scraper.getStats();
     logger.info('\n' + '='.repeat(60));
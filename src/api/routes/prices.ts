@@ -5,12 +5,14 @@ const router = Router();
 
 router.get('/latest', async (req, res, next) => {
   try {
-    const { country_id, supermarket_id, limit = '100', offset = '0' } = req.query;
+    const { country_id, supermarket_id, city, location_id, limit = '100', offset = '0' } = req.query;
 
     const data = await priceRepository.getLatest(
       {
         countryId: country_id as string | undefined,
         supermarketId: supermarket_id as string | undefined,
+        city: city as string | undefined,
+        locationId: location_id as string | undefined,
       },
       {
         limit: parseInt(limit as string),
@@ -88,10 +90,10 @@ router.get('/basket', async (req, res, next) => {
 
 router.get('/compare', async (req, res, next) => {
   try {
-    const { search, limit = '100', offset = '0' } = req.query;
+    const { search, city, limit = '100', offset = '0' } = req.query;
 
     const rows = await priceRepository.compare(
-      { search: search as string | undefined },
+      { search: search as string | undefined, city: city as string | undefined },
       { limit: parseInt(limit as string), offset: parseInt(offset as string) }
     );
 
@@ -146,4 +148,83 @@ router.get('/compare', async (req, res, next) => {
   }
 });
 
+router.get('/compare/cities', async (req, res, next) => {
+  try {
+    const { cities, supermarket_id, search, limit = '50', offset = '0' } = req.query;
+
+    const cityList = typeof cities === 'string'
+      ? Array.from(new Set(cities.split(',').map(c => c.trim()).filter(Boolean)))
+      : [];
+
+    if (cityList.length < 2) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'cities query parameter must list at least two cities (comma-separated)',
+      });
+      return;
+    }
+
+    const rows = await priceRepository.compareCities(
+      {
+        cities: cityList,
+        supermarketId: supermarket_id as string | undefined,
+        search: search as string | undefined,
+      },
+      { limit: parseInt(limit as string), offset: parseInt(offset as string) }
+    );
+
+    const productMap = new Map<string, any>();
+
+    rows.forEach((row: any) => {
+      const key = `${row.product_id}:${row.supermarket_id}`;
+
+      if (!productMap.has(key)) {
+        productMap.set(key, {
+          product_id: row.product_id,
+          product_name: row.product_name,
+          brand: row.brand,
+          unit: row.unit,
+          unit_quantity: row.unit_quantity,
+          supermarket_id: row.supermarket_id,
+          supermarket: row.supermarket_name,
+          prices_by_city: {},
+        });
+      }
+
+      productMap.get(key).prices_by_city[row.city] = {
+        price: parseFloat(row.price),
+        price_per_unit: row.price_per_unit ? parseFloat(row.price_per_unit) : null,
+        currency: row.currency,
+        location_count: row.location_count,
+        scraped_at: row.scraped_at,
+      };
+    });
+
+    const comparison = Array.from(productMap.values()).map(p => {
+      const entries = Object.entries(p.prices_by_city) as [string, { price: number }][];
+      const cheapest = entries.reduce((a, b) => (b[1].price < a[1].price ? b : a));
+      const highest = Math.max(...entries.map(([, v]) => v.price));
+      return {
+        ...p,
+        cheapest_city: cheapest[0],
+        difference_percent: cheapest[1].price > 0
+          ? Math.round(((highest - cheapest[1].price) / cheapest[1].price) * 10000) / 100
+          : null,
+      };
+    });
+
+    res.json({
+      data: comparison,
+      count: comparison.length,
+      cities: cityList,
+      pagination: {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -100,10 +100,11 @@ router.get('/:id', async (req, res, next) => {
 router.get('/:id/price-history', async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { supermarket_id, days = '30' } = req.query;
+    const { supermarket_id, location_id, days = '30' } = req.query;
 
     const data = await productRepository.getPriceHistory(id, {
       supermarketId: supermarket_id as string | undefined,
+      locationId: location_id as string | undefined,
       days: parseInt(days as string),
     });
 
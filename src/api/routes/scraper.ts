@@ -1,12 +1,169 @@
-import { Router } from 'express';
-import { ScraperService } from '../../services/ScraperService';
-import { supermarketRepository, scrapeLogRepository } from '../../repositories';
+import { Router, Request, Response } from 'express';
+import { ScraperService, ResumeError, CategoryDiscoveryError } from '../../services/ScraperService';
+import {
+  supermarketRepository,
+  scrapeLogRepository,
+  scrapeErrorRepository,
+  quarantineRepository,
+  snapshotRepository,
+  scraperCategoryRepository,
+  scrapeScheduleRepository,
+  storeLocationRepository,
+  scrapeJobRepository,
+  scrapeEventRepository,
+} from '../../repositories';
+import { ScrapeScheduleRow, ScrapeJobStatus, ScrapeLogRow } from '../../types/db.types';
+import { ScrapeProgressEvent } from '../../types/scraper.types';
+import { parseCron, isValidTimezone, nextCronTime, upcomingCronTimes, CronExpressionError } from '../../utils/cron';
 import { scraperLogger } from '../../utils/logger';
 import { isAdmin } from '../../auth';
 
 const router = Router();
 const scraperService = new ScraperService();
 
+// Fire times listed with each schedule
+const UPCOMING_RUNS = 5;
+// Runs an admin asked for go ahead of scheduled ones (priority 0)
+const TRIGGER_PRIORITY = 10;
+const JOB_STATUSES: ScrapeJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+// Progress streams (GET /runs/:runId/events)
+const EVENT_POLL_MS = 1000;
+const EVENT_BATCH_SIZE = 500;
+const EVENT_STATUS_CHECK_MS = 10_000;
+const EVENT_KEEPALIVE_MS = 15_000;
+// Events are written shortly after the run's log is updated, so wait a little before ending a stream
+const EVENT_END_GRACE_MS = 5000;
+
+/**
+ * Check the settings of a schedule, returning the problem or null if they are valid
+ */
+async function validateSchedule(schedule: {
+  supermarketId: string;
+  cronExpression: string;
+  timezone: string;
+  categoryIds: string[] | null;
+  locationId: string | null;
+}): Promise<string | null> {
+  try {
+    const cron = parseCron(schedule.cronExpression);
+    if (!isValidTimezone(schedule.timezone)) {
+      return `Unknown timezone: ${schedule.timezone}`;
+    }
+    if (!nextCronTime(cron, schedule.timezone)) {
+      return `Cron expression never fires: ${schedule.cronExpression}`;
+    }
+  } catch (error) {
+    if (error instanceof CronExpressionError) return `Invalid cron expression: ${error.message}`;
+    throw error;
+  }
+
+  if (schedule.categoryIds?.length) {
+    const availableIds = (await scraperService.getAvailableCategories(schedule.supermarketId)).map(c => c.id);
+    const invalid = schedule.categoryIds.filter(id => !availableIds.includes(id));
+    if (invalid.length > 0) return `Invalid category IDs: ${invalid.join(', ')}`;
+  }
+
+  if (schedule.locationId) {
+    const location = await storeLocationRepository.findById(schedule.locationId);
+    if (!location || String(location.supermarket_id) !== String(schedule.supermarketId)) {
+      return 'Location not found for this supermarket';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stream a run's progress events as Server-Sent Events: stored events first (after Last-Event-ID
+ * when the browser reconnects), then new ones as the process running the scraper writes them.
+ * The stream ends after the finished event. Runs that ended without one (started before events
+ * existed, or their process died) get a finished event built from the scrape log.
+ */
+function streamRunEvents(req: Request, res: Response, log: ScrapeLogRow): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Keep reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+
+  const lastEventId = req.header('Last-Event-ID');
+  let lastId = lastEventId && /^\d+$/.test(lastEventId) ? lastEventId : '0';
+  let closed = false;
+  let timer: NodeJS.Timeout | undefined;
+  let lastWrite = Date.now();
+  let lastStatusCheck = Date.now();
+  let endedAt: number | null = log.status === 'running' ? null : 0;
+
+  const write = (chunk: string): void => {
+    res.write(chunk);
+    lastWrite = Date.now();
+  };
+  const end = (): void => {
+    closed = true;
+    clearTimeout(timer);
+    res.end();
+  };
+  req.on('close', () => {
+    closed = true;
+    clearTimeout(timer);
+  });
+
+  const poll = async (): Promise<void> => {
+    let batchFull = false;
+    try {
+      const events = await scrapeEventRepository.findAfter(log.id, lastId, EVENT_BATCH_SIZE);
+      if (closed) return;
+      for (const event of events) {
+        lastId = event.id;
+        write(`id: ${event.id}\ndata: ${JSON.stringify({ type: event.type, ...event.data, at: event.created_at })}\n\n`);
+        if (event.type === 'finished') return end();
+      }
+      batchFull = events.length === EVENT_BATCH_SIZE;
+
+      if (events.length === 0) {
+        if (endedAt === null && Date.now() - lastStatusCheck >= EVENT_STATUS_CHECK_MS) {
+          lastStatusCheck = Date.now();
+          log = (await scrapeLogRepository.findByRunId(log.run_id!)) ?? log;
+          if (log.status !== 'running') endedAt = Date.now();
+        }
+        if (endedAt !== null && Date.now() - endedAt >= EVENT_END_GRACE_MS) {
+          const finished: ScrapeProgressEvent = {
+            type: 'finished',
+            status: log.status as 'success' | 'partial' | 'failed' | 'cancelled',
+            productsScraped: log.products_scraped ?? 0,
+            productsFailed: log.products_failed ?? 0,
+            error: log.error_message ?? undefined,
+          };
+          write(`data: ${JSON.stringify(finished)}\n\n`);
+          return end();
+        }
+        if (Date.now() - lastWrite >= EVENT_KEEPALIVE_MS) {
+          write(': keepalive\n\n');
+        }
+      }
+    } catch (error) {
+      scraperLogger.warn(`Progress stream of run ${log.run_id} failed to poll`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (!closed) {
+      timer = setTimeout(() => void poll(), batchFull ? 0 : EVENT_POLL_MS);
+    }
+  };
+
+  void poll();
+}
+
+function withUpcomingRuns<T extends ScrapeScheduleRow>(schedule: T): T & { upcoming_runs: string[] } {
+  const upcoming = schedule.is_enabled
+    ? upcomingCronTimes(schedule.cron_expression, schedule.timezone, UPCOMING_RUNS)
+    : [];
+  return { ...schedule, upcoming_runs: upcoming.map(time => time.toISOString()) };
+}
+
 router.get('/categories/:supermarketId', async (req, res, next) => {
   try {
     const { supermarketId } = req.params;
@@ -24,12 +181,248 @@ router.get('/categories/:supermarketId', async (req, res, next) => {
   }
 });
 
+router.get('/categories/:supermarketId/stored', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarketId } = req.params;
+    const data = await scraperCategoryRepository.findBySupermarket(supermarketId);
+    res.json({ data, count: data.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/categories/:supermarketId/discover', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarketId } = req.params;
+    const { save } = req.body ?? {};
+
+    let result;
+    try {
+      result = await scraperService.discoverCategories(supermarketId, { save: save === true });
+    } catch (error) {
+      if (error instanceof CategoryDiscoveryError) {
+        const statusCode = error.reason === 'not_found' ? 404 : error.reason === 'not_supported' ? 400 : 502;
+        res.status(statusCode).json({
+          error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Bad Gateway',
+          message: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    res.json({
+      supermarket_id: result.supermarketId,
+      supermarket_name: result.supermarketName,
+      discovered: result.discovered,
+      diff: result.diff,
+      saved: result.saved ?? null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/categories/:supermarketId/:categoryId', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarketId, categoryId } = req.params;
+    const { is_enabled } = req.body;
+
+    if (typeof is_enabled !== 'boolean') {
+      res.status(400).json({ error: 'Bad Request', message: 'is_enabled (boolean) is required' });
+      return;
+    }
+
+    const data = await scraperCategoryRepository.setEnabled(supermarketId, categoryId, is_enabled);
+    if (!data) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Category not stored for this supermarket - run category discovery with save first',
+      });
+      return;
+    }
+
+    res.json({ data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/schedules', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarket_id } = req.query;
+    const schedules = await scrapeScheduleRepository.findAll({ supermarketId: supermarket_id as string | undefined });
+    const data = schedules.map(withUpcomingRuns);
+    res.json({ data, count: data.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/schedules', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarket_id, cron_expression, timezone = 'UTC', category_ids, location_id, is_enabled } = req.body;
+
+    if (!supermarket_id || typeof cron_expression !== 'string') {
+      res.status(400).json({ error: 'Bad Request', message: 'supermarket_id and cron_expression are required' });
+      return;
+    }
+    if (category_ids !== undefined && category_ids !== null && !Array.isArray(category_ids)) {
+      res.status(400).json({ error: 'Bad Request', message: 'category_ids must be an array' });
+      return;
+    }
+
+    const supermarket = await supermarketRepository.findById(supermarket_id);
+    if (!supermarket) {
+      res.status(404).json({ error: 'Not Found', message: 'Supermarket not found' });
+      return;
+    }
+
+    const problem = await validateSchedule({
+      supermarketId: supermarket_id,
+      cronExpression: cron_expression,
+      timezone,
+      categoryIds: category_ids ?? null,
+      locationId: location_id ?? null,
+    });
+    if (problem) {
+      res.status(400).json({ error: 'Bad Request', message: problem });
+      return;
+    }
+
+    const enabled = is_enabled ?? true;
+    const data = await scrapeScheduleRepository.create(supermarket_id, {
+      cronExpression: cron_expression,
+      timezone,
+      categoryIds: category_ids,
+      locationId: location_id,
+      isEnabled: enabled,
+      nextRunAt: enabled ? nextCronTime(cron_expression, timezone) : null,
+    });
+
+    res.status(201).json({ data: withUpcomingRuns(data) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/schedules/:id', isAdmin, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { cron_expression, timezone, category_ids, location_id, is_enabled } = req.body;
+
+    if ([cron_expression, timezone, category_ids, location_id, is_enabled].every(v => v === undefined)) {
+      res.status(400).json({ error: 'Bad Request', message: 'No fields to update' });
+      return;
+    }
+    if (category_ids !== undefined && category_ids !== null && !Array.isArray(category_ids)) {
+      res.status(400).json({ error: 'Bad Request', message: 'category_ids must be an array' });
+      return;
+    }
+
+    const existing = await scrapeScheduleRepository.findById(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Not Found', message: 'Schedule not found' });
+      return;
+    }
+
+    const merged = {
+      supermarketId: existing.supermarket_id,
+      cronExpression: cron_expression ?? existing.cron_expression,
+      timezone: timezone ?? existing.timezone,
+      categoryIds: category_ids === undefined ? existing.category_ids : category_ids,
+      locationId: location_id === undefined ? existing.location_id : location_id,
+    };
+    const problem = await validateSchedule(merged);
+    if (problem) {
+      res.status(400).json({ error: 'Bad Request', message: problem });
+      return;
+    }
+
+    // A changed timing restarts from now - re-enabling does not catch up on missed runs
+    const enabled = is_enabled ?? existing.is_enabled;
+    const timingChanged = cron_expression !== undefined || timezone !== undefined || is_enabled !== undefined;
+    const data = await scrapeScheduleRepository.update(id, {
+      cronExpression: cron_expression,
+      timezone,
+      categoryIds: category_ids,
+      locationId: location_id,
+      isEnabled: is_enabled,
+      nextRunAt: timingChanged
+        ? (enabled ? nextCronTime(merged.cronExpression, merged.timezone) : null)
+        : undefined,
+    });
+
+    res.json({ data: data ? withUpcomingRuns(data) : null });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/schedules/:id', isAdmin, async (req, res, next) => {
+  try {
+    const data = await scrapeScheduleRepository.delete(req.params.id);
+    if (!data) {
+      res.status(404).json({ error: 'Not Found', message: 'Schedule not found' });
+      return;
+    }
+    res.json({ data });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.post('/trigger', isAdmin, async (req, res, next) => {
   try {
-    const { supermarket_id, categories } = req.body;
-    scraperLogger.info('Manual scrape triggered via API', { supermarket_id, categories });
+    const { supermarket_id, categories, action, run_id, priority } = req.body;
+    scraperLogger.info('Manual scrape triggered via API', { supermarket_id, categories, action, run_id });
 
-    if (supermarket_id) {
+    if (priority !== undefined && !Number.isInteger(priority)) {
+      res.status(400).json({ error: 'Bad Request', message: 'priority must be an integer' });
+      return;
+    }
+    const jobOptions = {
+      priority: priority ?? TRIGGER_PRIORITY,
+      source: 'api' as const,
+      requestedBy: req.user?.email ?? null,
+    };
+
+    if (action === 'resume') {
+      if (!run_id || typeof run_id !== 'string') {
+        res.status(400).json({ error: 'Bad Request', message: 'run_id is required to resume a scrape' });
+        return;
+      }
+
+      let log;
+      try {
+        log = await scraperService.getResumableRun(run_id);
+      } catch (error) {
+        if (error instanceof ResumeError) {
+          const statusCode = error.reason === 'not_found' ? 404 : 409;
+          res.status(statusCode).json({
+            error: statusCode === 404 ? 'Not Found' : 'Conflict',
+            message: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+
+      const job = await scrapeJobRepository.enqueue({
+        ...jobOptions,
+        supermarketId: String(log.supermarket_id),
+        resumeRunId: run_id,
+      });
+
+      res.status(202).json({
+        message: 'Scraper resume queued',
+        job_id: job.id,
+        run_id,
+        supermarket_id: log.supermarket_id,
+        completed_categories: log.checkpoint?.completedCategories ?? [],
+        status: job.status,
+      });
+    } else if (supermarket_id) {
       const supermarket = await supermarketRepository.findActiveById(supermarket_id);
       if (!supermarket) {
         res.status(404).json({ error: 'Not Found', message: 'Supermarket not found or inactive' });
@@ -52,28 +445,93 @@ router.post('/trigger', isAdmin, async (req, res, next) => {
         categoryIds = categories;
       }
 
-      scraperService.runScraper(supermarket_id, { categoryIds }).catch(err => {
-        scraperLogger.error('Background scraper failed:', err);
-      });
+      const job = await scrapeJobRepository.enqueue({ ...jobOptions, supermarketId: supermarket_id, categoryIds });
 
-      res.json({
-        message: 'Scraper triggered',
+      res.status(202).json({
+        message: 'Scraper queued',
+        job_id: job.id,
         supermarket_id,
         supermarket_name: supermarket.name,
         categories: categoryIds || 'all',
-        status: 'running',
+        status: job.status,
       });
     } else {
-      scraperService.runAllScrapers().catch(err => {
-        scraperLogger.error('Background scraper failed:', err);
+      const [supermarkets, locations] = await Promise.all([
+        supermarketRepository.getActive(),
+        storeLocationRepository.findAllActive(),
+      ]);
+
+      // Supermarkets with store locations get one job per active location
+      const jobs = [];
+      for (const supermarket of supermarkets) {
+        const own = locations.filter(l => String(l.supermarket_id) === String(supermarket.id));
+        for (const location of own.length > 0 ? own : [undefined]) {
+          jobs.push(
+            await scrapeJobRepository.enqueue({ ...jobOptions, supermarketId: supermarket.id, locationId: location?.id })
+          );
+        }
+      }
+
+      res.status(202).json({
+        message: 'All scrapers queued',
+        job_ids: jobs.map(job => job.id),
+        status: 'queued',
       });
-      res.json({ message: 'All scrapers triggered', status: 'running' });
     }
   } catch (error) {
     next(error);
   }
 });
 
+router.get('/jobs', isAdmin, async (req, res, next) => {
+  try {
+    const { status, supermarket_id, limit = '50', offset = '0' } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as ScrapeJobStatus)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `status must be one of: ${JOB_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const data = await scrapeJobRepository.findAll(
+      {
+        status: status as ScrapeJobStatus | undefined,
+        supermarketId: supermarket_id as string | undefined,
+      },
+      {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      }
+    );
+
+    res.json({
+      data,
+      count: data.length,
+      pagination: {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/jobs/:id', isAdmin, async (req, res, next) => {
+  try {
+    const job = await scrapeJobRepository.findById(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Not Found', message: 'Job not found' });
+      return;
+    }
+    res.json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/status', isAdmin, async (_req, res, next) => {
   try {
     const [recentLogs, runningScrapers, stats] = await Promise.all([
@@ -121,4 +579,230 @@ router.get('/logs', isAdmin, async (req, res, next) => {
   }
 });
 
+router.get('/runs/:runId/events', isAdmin, async (req, res, next) => {
+  try {
+    const log = await scrapeLogRepository.findByRunId(req.params.runId);
+    if (!log) {
+      res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${req.params.runId}` });
+      return;
+    }
+    streamRunEvents(req, res, log);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/runs/:runId/cancel', isAdmin, async (req, res, next) => {
+  try {
+    const { runId } = req.params;
+    const log = await scrapeLogRepository.requestCancel(runId, req.user?.email ?? null);
+
+    if (!log) {
+      const existing = await scrapeLogRepository.findByRunId(runId);
+      if (!existing) {
+        res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${runId}` });
+        return;
+      }
+      res.status(409).json({
+        error: 'Conflict',
+        message: existing.status === 'running'
+          ? `Cancellation of scrape run ${runId} was already requested`
+          : `Scrape run ${runId} is not running (status: ${existing.status})`,
+      });
+      return;
+    }
+
+    scraperLogger.info('Scrape cancellation requested via API', { run_id: runId, cancelled_by: log.cancelled_by });
+    res.status(202).json({
+      message: 'Cancellation requested; the run stops at the next page or category',
+      run_id: runId,
+      supermarket_id: log.supermarket_id,
+      status: 'cancelling',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/runs/:runId/accept-baseline', isAdmin, async (req, res, next) => {
+  try {
+    const { runId } = req.params;
+    const log = await scrapeLogRepository.acceptBaseline(runId, req.user?.email ?? null);
+
+    if (!log) {
+      const existing = await scrapeLogRepository.findByRunId(runId);
+      if (!existing) {
+        res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${runId}` });
+        return;
+      }
+      res.status(409).json({
+        error: 'Conflict',
+        message: existing.baseline_accepted_at
+          ? `Scrape run ${runId} is already the accepted baseline`
+          : `Scrape run ${runId} was not flagged by anomaly detection on a full run`,
+      });
+      return;
+    }
+
+    scraperLogger.info('Scrape run accepted as new count baseline via API', {
+      run_id: runId,
+      accepted_by: log.baseline_accepted_by,
+    });
+    res.json({
+      message: 'Run accepted as the new count baseline',
+      run_id: runId,
+      supermarket_id: log.supermarket_id,
+      baseline_accepted_at: log.baseline_accepted_at,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:runId/errors', isAdmin, async (req, res, next) => {
+  try {
+    const { runId } = req.params;
+    const { signature, error_class, limit = '50', offset = '0' } = req.query;
+
+    const log = await scrapeLogRepository.findByRunId(runId);
+    if (!log) {
+      res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${runId}` });
+      return;
+    }
+
+    const { data, total } = await scrapeErrorRepository.findByLogId(
+      log.id,
+      {
+        signature: signature as string | undefined,
+        errorClass: error_class as string | undefined,
+      },
+      {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      }
+    );
+
+    res.json({
+      run_id: runId,
+      data,
+      total,
+      pagination: {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:runId/errors/groups', isAdmin, async (req, res, next) => {
+  try {
+    const { runId } = req.params;
+
+    const log = await scrapeLogRepository.findByRunId(runId);
+    if (!log) {
+      res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${runId}` });
+      return;
+    }
+
+    const groups = await scrapeErrorRepository.getGroupsByLogId(log.id);
+    res.json({ run_id: runId, groups });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:runId/snapshots', isAdmin, async (req, res, next) => {
+  try {
+    const { runId } = req.params;
+
+    const log = await scrapeLogRepository.findByRunId(runId);
+    if (!log) {
+      res.status(404).json({ error: 'Not Found', message: `Scrape run not found: ${runId}` });
+      return;
+    }
+
+    const snapshots = await snapshotRepository.findByLogId(log.id);
+    res.json({ run_id: runId, snapshots });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:runId/snapshots/:snapshotId/:artifact', isAdmin, async (req, res, next) => {
+  try {
+    const { runId, snapshotId, artifact } = req.params;
+
+    if (artifact !== 'html' && artifact !== 'screenshot' && artifact !== 'network') {
+      res.status(400).json({ error: 'Bad Request', message: 'artifact must be html, screenshot or network' });
+      return;
+    }
+
+    const [log, snapshot] = await Promise.all([
+      scrapeLogRepository.findByRunId(runId),
+      snapshotRepository.findById(snapshotId),
+    ]);
+    const key = snapshot?.artifacts[artifact];
+    if (!log || !snapshot || snapshot.scrape_log_id !== log.id || !key) {
+      res.status(404).json({ error: 'Not Found', message: 'Snapshot artifact not found' });
+      return;
+    }
+
+    const stored = await scraperService.getSnapshotArtifact(key);
+    if (!stored) {
+      res.status(404).json({ error: 'Not Found', message: 'Snapshot artifact no longer exists' });
+      return;
+    }
+
+    // Captured HTML comes from a third-party site - never let its scripts run on our origin
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.type(stored.contentType).send(stored.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/quarantine', isAdmin, async (req, res, next) => {
+  try {
+    const { supermarket_id, status = 'pending', limit = '50', offset = '0' } = req.query;
+
+    const data = await quarantineRepository.findAll(
+      {
+        supermarketId: supermarket_id as string | undefined,
+        status: status as string,
+      },
+      {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      }
+    );
+
+    res.json({
+      data,
+      count: data.length,
+      pagination: {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/quarantine/:id/dismiss', isAdmin, async (req, res, next) => {
+  try {
+    const dismissed = await quarantineRepository.dismiss(req.params.id);
+    if (!dismissed) {
+      res.status(404).json({ error: 'Not Found', message: 'Quarantined product not found' });
+      return;
+    }
+    res.json({ message: 'Quarantined product dismissed', id: req.params.id });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,8 +1,21 @@
 import { Router } from 'express';
-import { supermarketRepository, scrapeLogRepository, productRepository } from '../../repositories';
+import {
+  supermarketRepository,
+  scrapeLogRepository,
+  productRepository,
+  storeLocationRepository,
+} from '../../repositories';
+import { isAdmin } from '../../auth';
 
 const router = Router();
 
+/**
+ * Whether a latitude/longitude from the request body is absent, null or a number within range
+ */
+function isCoordinate(value: unknown, max: number): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Math.abs(value) <= max);
+}
+
 router.get('/', async (req, res, next) => {
   try {
     const { country_id, active_only } = req.query;
@@ -62,4 +75,90 @@ router.get('/:id/products', async (req, res, next) => {
   }
 });
 
+router.get('/:id/locations', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { active_only } = req.query;
+
+    const data = await storeLocationRepository.findBySupermarket(id, active_only === 'true');
+    res.json({ data, count: data.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/locations', isAdmin, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { name, city, postal_code, store_id, latitude, longitude, is_default, is_active } = req.body;
+
+    if (!name || !city) {
+      res.status(400).json({ error: 'Bad Request', message: 'name and city are required' });
+      return;
+    }
+    if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+      res.status(400).json({ error: 'Bad Request', message: 'latitude and longitude must be numbers in range' });
+      return;
+    }
+
+    const supermarket = await supermarketRepository.findById(id);
+    if (!supermarket) {
+      res.status(404).json({ error: 'Not Found', message: 'Supermarket not found' });
+      return;
+    }
+
+    const data = await storeLocationRepository.create(id, {
+      name,
+      city,
+      postalCode: postal_code,
+      storeId: store_id,
+      latitude,
+      longitude,
+      isDefault: is_default,
+      isActive: is_active,
+    });
+
+    res.status(201).json({ data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/:id/locations/:locationId', isAdmin, async (req, res, next) => {
+  try {
+    const { id, locationId } = req.params;
+    const { name, city, postal_code, store_id, latitude, longitude, is_default, is_active } = req.body;
+
+    if ([name, city, postal_code, store_id, latitude, longitude, is_default, is_active].every(v => v === undefined)) {
+      res.status(400).json({ error: 'Bad Request', message: 'No fields to update' });
+      return;
+    }
+    if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+      res.status(400).json({ error: 'Bad Request', message: 'latitude and longitude must be numbers in range' });
+      return;
+    }
+
+    const location = await storeLocationRepository.findById(locationId);
+    if (!location || String(location.supermarket_id) !== String(id)) {
+      res.status(404).json({ error: 'Not Found', message: 'Location not found' });
+      return;
+    }
+
+    const data = await storeLocationRepository.update(locationId, {
+      name,
+      city,
+      postalCode: postal_code,
+      storeId: store_id,
+      latitude,
+      longitude,
+      isDefault: is_default,
+      isActive: is_active,
+    });
+
+    res.json({ data });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
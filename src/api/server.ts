@@ -8,6 +8,8 @@ import { config } from '../config/env';
 import { scraperLogger } from '../utils/logger';
 import { checkConnection, closePool } from '../config/database';
 import pool from '../config/database';
+import { StaleRunReaper } from '../workers/StaleRunReaper';
+import { browserPool } from '../scrapers/base/BrowserPool';
 
 // Auth imports
 import { initializePassport, passport, authRouter } from '../auth';
@@ -140,6 +142,14 @@ async function startServer() {
       throw new Error('Database connection failed');
     }
 
+    // Scrape logs of runs whose process died would otherwise show as running forever
+    const reaper = new StaleRunReaper({
+      intervalMs: config.scraper.heartbeatSeconds * 1000,
+      heartbeatTimeoutSeconds: config.scraper.heartbeatTimeoutSeconds,
+      eventRetentionDays: config.scraper.eventRetentionDays,
+    });
+    reaper.start();
+
     app.listen(PORT, () => {
       console.log(`\n🚀 Server running on http://localhost:${PORT}`);
       console.log(`\n📊 Dashboard: http://localhost:${PORT}/`);
@@ -161,12 +171,16 @@ async function startServer() {
     // Handle graceful shutdown
     process.on('SIGINT', async () => {
       console.log('\nShutting down...');
+      reaper.stop();
+      await browserPool.close();
       await closePool();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       console.log('\nShutting down...');
+      reaper.stop();
+      await browserPool.close();
       await closePool();
       process.exit(0);
     });
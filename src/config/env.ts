@@ -11,7 +11,14 @@ const envSchema = Joi.object({
   PLAYWRIGHT_HEADLESS: Joi.boolean().default(true),
   SCRAPER_MAX_RETRIES: Joi.number().default(3),
   SCRAPER_TIMEOUT: Joi.number().default(30000),
-  SCRAPER_CONCURRENT_BROWSERS: Joi.number().default(3),
+  // Browser pool shared by the scrapers of a process (max memory 0 = no cap)
+  SCRAPER_CONCURRENT_BROWSERS: Joi.number().min(1).default(3),
+  SCRAPER_BROWSER_MAX_CONTEXTS: Joi.number().min(1).default(20),
+  SCRAPER_BROWSER_MAX_MEMORY_MB: Joi.number().min(0).default(3072),
+  SCRAPER_BROWSER_IDLE_SECONDS: Joi.number().min(1).default(300),
+  SCRAPER_CIRCUIT_BREAKER_THRESHOLD: Joi.number().min(0).default(5),
+  SCRAPER_ANOMALY_THRESHOLD: Joi.number().min(0).max(1).default(0.5),
+  SCRAPER_ANOMALY_BASELINE_RUNS: Joi.number().min(1).default(5),
   LOG_LEVEL: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
   LOG_DIR: Joi.string().default('./logs'),
   // Google OAuth
@@ -22,9 +29,35 @@ const envSchema = Joi.object({
   SESSION_SECRET: Joi.string().default('development-secret-change-in-production'),
   // Admin emails (comma-separated)
   ADMIN_EMAILS: Joi.string().default(''),
-  // Proxy configuration - JSON mapping supermarket names to proxy URLs
-  // Format: {"migros":"http://proxy1:8080","rewe":"http://proxy2:8080"}
+  // Proxy pool - JSON mapping supermarket names or countries to one or more proxy URLs
+  // Format: {"migros":"http://proxy1:8080","rewe":["http://proxy2:8080","http://proxy3:8080"],"country:AL":["http://proxy4:8080"]}
   SCRAPER_PROXY_CONFIG: Joi.string().optional(),
+  SCRAPER_PROXY_ROTATION: Joi.string().valid('per-run', 'per-category', 'on-block').default('per-run'),
+  SCRAPER_PROXY_MAX_FAILURES: Joi.number().min(1).default(3),
+  SCRAPER_PROXY_EVICTION_MINUTES: Joi.number().min(0).default(60),
+  // Running scrape logs send heartbeats; without one for the timeout they are reaped as abandoned
+  SCRAPER_HEARTBEAT_SECONDS: Joi.number().min(1).default(30),
+  SCRAPER_HEARTBEAT_TIMEOUT_SECONDS: Joi.number().min(10).default(300),
+  // Progress events of finished runs are deleted after this many days
+  SCRAPER_EVENT_RETENTION_DAYS: Joi.number().min(1).default(7),
+  // Failure snapshots (HTML, screenshot, network log) - local directory or S3-compatible bucket
+  ARTIFACT_STORE: Joi.string().valid('local', 's3').default('local'),
+  ARTIFACT_DIR: Joi.string().default('./artifacts'),
+  ARTIFACT_S3_BUCKET: Joi.string().when('ARTIFACT_STORE', { is: 's3', then: Joi.required() }),
+  ARTIFACT_S3_REGION: Joi.string().default('us-east-1'),
+  ARTIFACT_S3_ENDPOINT: Joi.string().uri().optional(),
+  ARTIFACT_S3_ACCESS_KEY_ID: Joi.string().when('ARTIFACT_STORE', { is: 's3', then: Joi.required() }),
+  ARTIFACT_S3_SECRET_ACCESS_KEY: Joi.string().when('ARTIFACT_STORE', { is: 's3', then: Joi.required() }),
+  ARTIFACT_S3_SESSION_TOKEN: Joi.string().optional(),
+  SNAPSHOT_NETWORK_LOG_SIZE: Joi.number().min(0).default(50),
+  // Scheduler process (npm run scheduler)
+  SCHEDULER_POLL_SECONDS: Joi.number().min(1).default(30),
+  // Scrape job workers (npm run worker)
+  WORKER_CONCURRENCY: Joi.number().min(1).default(2),
+  WORKER_POLL_SECONDS: Joi.number().min(1).default(5),
+  WORKER_HEARTBEAT_SECONDS: Joi.number().min(1).default(30),
+  WORKER_HEARTBEAT_TIMEOUT_SECONDS: Joi.number().min(10).default(300),
+  WORKER_RETRY_DELAY_SECONDS: Joi.number().integer().min(0).default(300),
 }).unknown();
 
 const { error, value: envVars } = envSchema.validate(process.env);
@@ -35,17 +68,21 @@ if (error) {
 
 /**
  * Parse proxy config JSON into a Map for quick lookup
- * Format: {"migros":"http://proxy1:8080","rewe":"http://proxy2:8080"}
+ * Keys are lowercased supermarket name substrings or "country:<code>", values one or more proxy URLs
+ * Format: {"migros":"http://proxy1:8080","rewe":["http://proxy2:8080","http://proxy3:8080"]}
  */
-function parseProxyConfig(configJson: string | undefined): Map<string, string> {
-  const proxyMap = new Map<string, string>();
+function parseProxyConfig(configJson: string | undefined): Map<string, string[]> {
+  const proxyMap = new Map<string, string[]>();
   if (!configJson) return proxyMap;
 
   try {
     const config = JSON.parse(configJson);
     for (const [key, value] of Object.entries(config)) {
-      if (typeof value === 'string') {
-        proxyMap.set(key.toLowerCase(), value);
+      const urls = (Array.isArray(value) ? value : [value]).filter(
+        (url): url is string => typeof url === 'string' && url.length > 0
+      );
+      if (urls.length > 0) {
+        proxyMap.set(key.toLowerCase(), urls);
       }
     }
   } catch (e) {
@@ -67,7 +104,42 @@ export const config = {
     maxRetries: envVars.SCRAPER_MAX_RETRIES as number,
     timeout: envVars.SCRAPER_TIMEOUT as number,
     concurrentBrowsers: envVars.SCRAPER_CONCURRENT_BROWSERS as number,
+    browserMaxContexts: envVars.SCRAPER_BROWSER_MAX_CONTEXTS as number,
+    browserMaxMemoryMb: envVars.SCRAPER_BROWSER_MAX_MEMORY_MB as number,
+    browserIdleSeconds: envVars.SCRAPER_BROWSER_IDLE_SECONDS as number,
+    circuitBreakerThreshold: envVars.SCRAPER_CIRCUIT_BREAKER_THRESHOLD as number,
+    anomalyThreshold: envVars.SCRAPER_ANOMALY_THRESHOLD as number,
+    anomalyBaselineRuns: envVars.SCRAPER_ANOMALY_BASELINE_RUNS as number,
     proxyConfig: parseProxyConfig(envVars.SCRAPER_PROXY_CONFIG as string | undefined),
+    proxyRotation: envVars.SCRAPER_PROXY_ROTATION as 'per-run' | 'per-category' | 'on-block',
+    proxyMaxFailures: envVars.SCRAPER_PROXY_MAX_FAILURES as number,
+    proxyEvictionMinutes: envVars.SCRAPER_PROXY_EVICTION_MINUTES as number,
+    heartbeatSeconds: envVars.SCRAPER_HEARTBEAT_SECONDS as number,
+    heartbeatTimeoutSeconds: envVars.SCRAPER_HEARTBEAT_TIMEOUT_SECONDS as number,
+    eventRetentionDays: envVars.SCRAPER_EVENT_RETENTION_DAYS as number,
+  },
+  artifacts: {
+    store: envVars.ARTIFACT_STORE as 'local' | 's3',
+    dir: envVars.ARTIFACT_DIR as string,
+    s3: {
+      bucket: envVars.ARTIFACT_S3_BUCKET as string | undefined,
+      region: envVars.ARTIFACT_S3_REGION as string,
+      endpoint: envVars.ARTIFACT_S3_ENDPOINT as string | undefined,
+      accessKeyId: envVars.ARTIFACT_S3_ACCESS_KEY_ID as string | undefined,
+      secretAccessKey: envVars.ARTIFACT_S3_SECRET_ACCESS_KEY as string | undefined,
+      sessionToken: envVars.ARTIFACT_S3_SESSION_TOKEN as string | undefined,
+    },
+    networkLogSize: envVars.SNAPSHOT_NETWORK_LOG_SIZE as number,
+  },
+  scheduler: {
+    pollSeconds: envVars.SCHEDULER_POLL_SECONDS as number,
+  },
+  worker: {
+    concurrency: envVars.WORKER_CONCURRENCY as number,
+    pollSeconds: envVars.WORKER_POLL_SECONDS as number,
+    heartbeatSeconds: envVars.WORKER_HEARTBEAT_SECONDS as number,
+    heartbeatTimeoutSeconds: envVars.WORKER_HEARTBEAT_TIMEOUT_SECONDS as number,
+    retryDelaySeconds: envVars.WORKER_RETRY_DELAY_SECONDS as number,
   },
   logging: {
     level: envVars.LOG_LEVEL as string,
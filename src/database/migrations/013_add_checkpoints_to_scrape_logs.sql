@@ -0,0 +1,18 @@
+-- Add run ID and checkpoint columns to scrape_logs
+-- Checkpoints record completed categories and the last saved page per category,
+-- so a failed run can be resumed where it stopped
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS run_id VARCHAR(20);
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS checkpoint JSONB;
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS resumed_from INTEGER REFERENCES scrape_logs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scrape_logs_run_id ON scrape_logs(run_id);
+
+COMMENT ON COLUMN scrape_logs.run_id IS 'Run ID used in log prefixes (run-xxxxxx)';
+COMMENT ON COLUMN scrape_logs.checkpoint IS 'Progress checkpoint: category filter, completed categories, last saved page per category';
+COMMENT ON COLUMN scrape_logs.resumed_from IS 'Scrape log this run was resumed from';
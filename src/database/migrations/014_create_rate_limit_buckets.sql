@@ -0,0 +1,13 @@
+-- Create rate_limit_buckets table for the shared per-domain rate limiter
+-- One token bucket per host, shared by all scrapers and worker processes
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    bucket_key VARCHAR(255) PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,          -- Negative when requests are queued waiting for a token
+    capacity DOUBLE PRECISION NOT NULL,        -- Burst size
+    refill_rate DOUBLE PRECISION NOT NULL,     -- Tokens added per second
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE rate_limit_buckets IS 'Token buckets for rate limiting scraper requests per host across processes';
+COMMENT ON COLUMN rate_limit_buckets.bucket_key IS 'Host name (without www.) or the rateLimit.key from scraper_config';
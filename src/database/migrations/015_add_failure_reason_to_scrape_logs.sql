@@ -0,0 +1,8 @@
+-- Add failure_reason to scrape_logs
+-- Distinguishes runs aborted by the circuit breaker (site kept blocking us)
+-- from ordinary failures
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS failure_reason VARCHAR(30);
+
+COMMENT ON COLUMN scrape_logs.failure_reason IS 'Why the run stopped early, e.g. circuit_open (too many consecutive blocked requests)';
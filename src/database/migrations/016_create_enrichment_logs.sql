@@ -0,0 +1,29 @@
+-- Create enrichment_logs table and track detail page checks per mapping
+-- The enrichment job visits product detail pages to fill in barcode, description,
+-- brand and unit data that category listings do not provide
+
+CREATE TABLE IF NOT EXISTS enrichment_logs (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    run_id VARCHAR(20),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'success', 'failed', 'partial')),
+    products_checked INTEGER DEFAULT 0,
+    products_enriched INTEGER DEFAULT 0,
+    products_failed INTEGER DEFAULT 0,
+    error_message TEXT,
+    duration_seconds INTEGER,
+    started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_logs_supermarket_started ON enrichment_logs(supermarket_id, started_at DESC);
+
+ALTER TABLE product_mappings
+ADD COLUMN IF NOT EXISTS details_checked_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_product_mappings_details_checked ON product_mappings(supermarket_id, details_checked_at NULLS FIRST);
+
+COMMENT ON TABLE enrichment_logs IS 'Runs of the product detail enrichment job';
+COMMENT ON COLUMN enrichment_logs.products_checked IS 'Detail pages requested - counts against the daily budget';
+COMMENT ON COLUMN enrichment_logs.products_enriched IS 'Products that gained at least one field';
+COMMENT ON COLUMN product_mappings.details_checked_at IS 'Last time the enrichment job visited this product detail page';
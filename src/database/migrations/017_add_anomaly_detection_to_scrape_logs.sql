@@ -0,0 +1,12 @@
+-- Add per-category product counts and anomaly details to scrape_logs
+-- Each run is compared against previous successful runs; a large drop in
+-- product counts marks the run as partial instead of success
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS category_counts JSONB;
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS anomaly JSONB;
+
+COMMENT ON COLUMN scrape_logs.category_counts IS 'Products stored per category ID, e.g. {"fruits": 120, "dairy": 85}';
+COMMENT ON COLUMN scrape_logs.anomaly IS 'Why a run was marked partial: expected vs actual counts for the total and each dropped category';
@@ -0,0 +1,24 @@
+-- Create scrape_errors table
+-- Individual errors collected during a scrape run, with category and page context.
+-- signature is the message with URLs, quoted values and numbers replaced,
+-- so repeated errors can be grouped
+
+CREATE TABLE IF NOT EXISTS scrape_errors (
+    id SERIAL PRIMARY KEY,
+    scrape_log_id INTEGER NOT NULL REFERENCES scrape_logs(id) ON DELETE CASCADE,
+    error_class VARCHAR(20),
+    message TEXT NOT NULL,
+    signature VARCHAR(255) NOT NULL,
+    product_url TEXT,
+    category_id VARCHAR(100),
+    category_name VARCHAR(255),
+    page_number INTEGER,
+    stack TEXT,
+    occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_errors_log_signature ON scrape_errors(scrape_log_id, signature);
+
+COMMENT ON TABLE scrape_errors IS 'Errors logged by scrapers, inserted at the end of each run';
+COMMENT ON COLUMN scrape_errors.error_class IS 'blocked, not-found, rate-limited, transient or parse-error';
+COMMENT ON COLUMN scrape_errors.signature IS 'Normalised message used to group repeated errors';
@@ -0,0 +1,22 @@
+-- Create quarantined_products table
+-- Scraped products that failed ingest validation (blank name, zero price,
+-- wrong currency, unknown unit, ...) are kept here for review instead of being stored
+
+CREATE TABLE IF NOT EXISTS quarantined_products (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    scrape_log_id INTEGER REFERENCES scrape_logs(id) ON DELETE SET NULL,
+    category_id VARCHAR(100),
+    reason TEXT NOT NULL,
+    product JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    reviewed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_products_status ON quarantined_products(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quarantined_products_supermarket ON quarantined_products(supermarket_id, created_at DESC);
+
+COMMENT ON TABLE quarantined_products IS 'Scraped products rejected by ingest validation, kept for review';
+COMMENT ON COLUMN quarantined_products.reason IS 'First validation rule the product failed';
+COMMENT ON COLUMN quarantined_products.product IS 'The ProductData as emitted by the scraper';
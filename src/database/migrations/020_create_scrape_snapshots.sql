@@ -0,0 +1,20 @@
+-- Create scrape_snapshots table
+-- When a category fails or yields no products, the scraper stores the page HTML,
+-- a screenshot and the last network requests in the artifact store
+-- (ARTIFACT_STORE: local directory or S3 bucket); this table indexes them per run
+
+CREATE TABLE IF NOT EXISTS scrape_snapshots (
+    id SERIAL PRIMARY KEY,
+    scrape_log_id INTEGER NOT NULL REFERENCES scrape_logs(id) ON DELETE CASCADE,
+    category_id VARCHAR(100) NOT NULL,
+    category_name VARCHAR(255),
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('error', 'empty')),
+    error_message TEXT,
+    artifacts JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_snapshots_log ON scrape_snapshots(scrape_log_id);
+
+COMMENT ON TABLE scrape_snapshots IS 'Debugging artifacts captured for failed or empty categories';
+COMMENT ON COLUMN scrape_snapshots.artifacts IS 'Artifact store keys, e.g. {"html": "run-a1b2c3/dairy-1700000000000/page.html", "screenshot": "...", "network": "..."}';
@@ -0,0 +1,21 @@
+-- Create proxy_health table
+-- Proxies are configured in SCRAPER_PROXY_CONFIG; this table tracks how each of them
+-- has been doing across runs and processes. A proxy that fails SCRAPER_PROXY_MAX_FAILURES
+-- times in a row is evicted until evicted_until and then given another chance.
+
+CREATE TABLE IF NOT EXISTS proxy_health (
+    proxy_id VARCHAR(255) PRIMARY KEY,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_used_at TIMESTAMP,
+    last_success_at TIMESTAMP,
+    last_failure_at TIMESTAMP,
+    evicted_until TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE proxy_health IS 'Success and failure history of configured scraper proxies';
+COMMENT ON COLUMN proxy_health.proxy_id IS 'Proxy URL without password, e.g. http://user@proxy1:8080';
+COMMENT ON COLUMN proxy_health.evicted_until IS 'Proxy is skipped until this time after too many consecutive failures';
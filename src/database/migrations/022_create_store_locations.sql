@@ -0,0 +1,82 @@
+-- Create store_locations table and record prices per location
+-- Chains price differently by region, so a supermarket can have several delivery
+-- locations (postal code, city, store ID). Scrapers receive the location as a parameter
+-- and every price is stored against the location it was scraped for.
+
+CREATE TABLE IF NOT EXISTS store_locations (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    city VARCHAR(100) NOT NULL,
+    postal_code VARCHAR(20),
+    store_id VARCHAR(100),
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(supermarket_id, name)
+);
+
+DROP TRIGGER IF EXISTS update_store_locations_updated_at ON store_locations;
+CREATE TRIGGER update_store_locations_updated_at
+    BEFORE UPDATE ON store_locations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- One default location per supermarket
+CREATE UNIQUE INDEX IF NOT EXISTS idx_store_locations_default
+    ON store_locations(supermarket_id) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_store_locations_city ON store_locations(LOWER(city));
+
+COMMENT ON TABLE store_locations IS 'Delivery locations of a supermarket chain that are scraped separately';
+COMMENT ON COLUMN store_locations.store_id IS 'Site-specific store or warehouse ID, if the site uses one';
+COMMENT ON COLUMN store_locations.is_default IS 'Location used by scheduled runs without a location and by price queries that do not ask for one';
+
+ALTER TABLE prices
+ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES store_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prices_mapping_location_scraped
+    ON prices(product_mapping_id, location_id, scraped_at DESC);
+
+COMMENT ON COLUMN prices.location_id IS 'Location the price was scraped for; NULL for supermarkets without locations';
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES store_locations(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN scrape_logs.location_id IS 'Location the run scraped';
+
+-- Prices of the default location (or of supermarkets without locations).
+-- Queries that show one price per supermarket read from here so regional prices do not mix.
+CREATE OR REPLACE VIEW default_location_prices AS
+SELECT pr.*
+FROM prices pr
+LEFT JOIN store_locations sl ON sl.id = pr.location_id
+WHERE pr.location_id IS NULL OR sl.is_default;
+
+COMMENT ON VIEW default_location_prices IS 'Prices of each supermarket''s default location';
+
+-- The locations REWE and Mercadona have always been scraped for, plus a second city
+-- each (inactive until enabled). Seeded only into an empty table, since migrations re-run
+-- on every migrate, and the prices scraped before locations existed are moved to the
+-- seeded default locations in the same statement so later NULL prices are left alone.
+WITH seeded AS (
+    INSERT INTO store_locations (supermarket_id, name, city, postal_code, is_default, is_active)
+    SELECT s.id, l.name, l.city, l.postal_code, l.is_default, l.is_active
+    FROM supermarkets s
+    INNER JOIN (VALUES
+        ('ReweScraper', 'Berlin Mitte', 'Berlin', '10115', true, true),
+        ('ReweScraper', 'München Altstadt', 'München', '80331', false, false),
+        ('MercadonaScraper', 'Madrid Centro', 'Madrid', '28001', true, true),
+        ('MercadonaScraper', 'Valencia Centro', 'Valencia', '46001', false, false)
+    ) AS l(scraper_class, name, city, postal_code, is_default, is_active)
+        ON s.scraper_class = l.scraper_class
+    WHERE NOT EXISTS (SELECT 1 FROM store_locations)
+    ON CONFLICT (supermarket_id, name) DO NOTHING
+    RETURNING id, supermarket_id, is_default
+)
+UPDATE prices pr
+SET location_id = seeded.id
+FROM product_mappings pm
+INNER JOIN seeded ON seeded.supermarket_id = pm.supermarket_id AND seeded.is_default
+WHERE pr.product_mapping_id = pm.id
+  AND pr.location_id IS NULL;
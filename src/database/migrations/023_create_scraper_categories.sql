@@ -0,0 +1,39 @@
+-- Create scraper_categories table
+-- The approved list of site categories each scraper crawls. When a supermarket has rows
+-- here they replace the category list in the scraper registry, so admins can enable or
+-- disable categories without a deploy. Rows are created by category discovery
+-- (npm run categories:discover -- <scraper> --save).
+
+CREATE TABLE IF NOT EXISTS scraper_categories (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    category_id VARCHAR(100) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    url VARCHAR(500) NOT NULL,
+    parent_name VARCHAR(255),
+    source VARCHAR(20) NOT NULL DEFAULT 'registry',
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    last_seen_at TIMESTAMP,
+    missing_since TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(supermarket_id, category_id),
+    CONSTRAINT scraper_categories_source_check CHECK (source IN ('registry', 'discovered'))
+);
+
+DROP TRIGGER IF EXISTS update_scraper_categories_updated_at ON scraper_categories;
+CREATE TRIGGER update_scraper_categories_updated_at
+    BEFORE UPDATE ON scraper_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_scraper_categories_enabled
+    ON scraper_categories(supermarket_id, sort_order) WHERE is_enabled;
+
+COMMENT ON TABLE scraper_categories IS 'Approved site categories per supermarket, replacing the registry list when present';
+COMMENT ON COLUMN scraper_categories.category_id IS 'Category ID on the retailer''s site (CategoryConfig.id)';
+COMMENT ON COLUMN scraper_categories.source IS 'registry: copied from the scraper''s built-in list, discovered: found by category discovery';
+COMMENT ON COLUMN scraper_categories.is_enabled IS 'Whether runs scrape the category; newly discovered categories start disabled';
+COMMENT ON COLUMN scraper_categories.last_seen_at IS 'Last discovery that found the category on the site';
+COMMENT ON COLUMN scraper_categories.missing_since IS 'First discovery that no longer found the category; NULL while it exists';
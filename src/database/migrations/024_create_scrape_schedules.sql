@@ -0,0 +1,43 @@
+-- Create scrape_schedules table
+-- Cron schedules for scraper runs, evaluated by the scheduler process (npm run scheduler).
+-- A supermarket can have several schedules, e.g. a nightly full run and a midday run of
+-- fast-moving categories. next_run_at is computed from the cron expression in the
+-- schedule's timezone; schedulers claim a due schedule by moving it forward, so running
+-- more than one scheduler does not start a run twice.
+
+CREATE TABLE IF NOT EXISTS scrape_schedules (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    cron_expression VARCHAR(100) NOT NULL,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    category_ids TEXT[],
+    location_id INTEGER REFERENCES store_locations(id) ON DELETE CASCADE,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_fired_at TIMESTAMP WITH TIME ZONE,
+    last_status VARCHAR(20),
+    last_run_id VARCHAR(20),
+    last_message TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT scrape_schedules_last_status_check CHECK (last_status IN ('started', 'skipped'))
+);
+
+DROP TRIGGER IF EXISTS update_scrape_schedules_updated_at ON scrape_schedules;
+CREATE TRIGGER update_scrape_schedules_updated_at
+    BEFORE UPDATE ON scrape_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_scrape_schedules_due
+    ON scrape_schedules(next_run_at) WHERE is_enabled;
+CREATE INDEX IF NOT EXISTS idx_scrape_schedules_supermarket ON scrape_schedules(supermarket_id);
+
+COMMENT ON TABLE scrape_schedules IS 'Cron schedules the scheduler process starts scraper runs from';
+COMMENT ON COLUMN scrape_schedules.cron_expression IS 'Five-field cron expression (minute hour day-of-month month day-of-week) or @daily/@hourly/...';
+COMMENT ON COLUMN scrape_schedules.timezone IS 'IANA timezone the cron expression is evaluated in';
+COMMENT ON COLUMN scrape_schedules.category_ids IS 'Categories to scrape; NULL scrapes all enabled categories';
+COMMENT ON COLUMN scrape_schedules.location_id IS 'Store location to scrape; NULL uses the supermarket''s default location';
+COMMENT ON COLUMN scrape_schedules.next_run_at IS 'Next time the schedule fires; recomputed when it fires or is edited';
+COMMENT ON COLUMN scrape_schedules.last_status IS 'Outcome of the last firing: started, or skipped because a run of the supermarket was still going';
+COMMENT ON COLUMN scrape_schedules.last_run_id IS 'Run ID (scrape_logs.run_id) of the last run the schedule started';
@@ -0,0 +1,69 @@
+-- Create scrape_jobs table
+-- Durable queue of scraper runs. The API and the scheduler only insert jobs; worker
+-- processes (npm run worker) claim them with SELECT ... FOR UPDATE SKIP LOCKED, so a run
+-- never executes inside the web server. Running jobs send heartbeats; a job whose worker
+-- stopped sending them is put back in the queue (or failed once out of attempts).
+
+CREATE TABLE IF NOT EXISTS scrape_jobs (
+    id SERIAL PRIMARY KEY,
+    supermarket_id INTEGER NOT NULL REFERENCES supermarkets(id) ON DELETE CASCADE,
+    category_ids TEXT[],
+    location_id INTEGER REFERENCES store_locations(id) ON DELETE SET NULL,
+    resume_run_id VARCHAR(20),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    priority INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    source VARCHAR(20) NOT NULL DEFAULT 'api',
+    schedule_id INTEGER REFERENCES scrape_schedules(id) ON DELETE SET NULL,
+    requested_by VARCHAR(255),
+    worker_id VARCHAR(100),
+    run_id VARCHAR(20),
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    products_scraped INTEGER,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT scrape_jobs_status_check CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    CONSTRAINT scrape_jobs_source_check CHECK (source IN ('api', 'scheduler', 'cli'))
+);
+
+DROP TRIGGER IF EXISTS update_scrape_jobs_updated_at ON scrape_jobs;
+CREATE TRIGGER update_scrape_jobs_updated_at
+    BEFORE UPDATE ON scrape_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim order of queued jobs
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_queue
+    ON scrape_jobs(priority DESC, run_at, id) WHERE status = 'queued';
+-- A supermarket is scraped by one job at a time; a second claim fails on this index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_jobs_one_running
+    ON scrape_jobs(supermarket_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_created ON scrape_jobs(created_at DESC);
+
+COMMENT ON TABLE scrape_jobs IS 'Queue of scraper runs executed by worker processes';
+COMMENT ON COLUMN scrape_jobs.category_ids IS 'Categories to scrape; NULL scrapes all enabled categories';
+COMMENT ON COLUMN scrape_jobs.resume_run_id IS 'Run to resume from its checkpoint instead of starting a fresh run';
+COMMENT ON COLUMN scrape_jobs.status IS 'queued, running, succeeded, failed';
+COMMENT ON COLUMN scrape_jobs.priority IS 'Higher runs first; API triggers default to 10, schedules to 0';
+COMMENT ON COLUMN scrape_jobs.run_at IS 'Not claimed before this time; pushed back by the retry delay after a failed attempt';
+COMMENT ON COLUMN scrape_jobs.run_id IS 'Run ID (scrape_logs.run_id) of the current or last attempt';
+COMMENT ON COLUMN scrape_jobs.heartbeat_at IS 'Last sign of life from the worker running the job';
+
+-- The scheduler now queues jobs instead of running scrapers itself
+ALTER TABLE scrape_schedules
+ADD COLUMN IF NOT EXISTS last_job_id INTEGER REFERENCES scrape_jobs(id) ON DELETE SET NULL;
+
+-- The old check only allows 'started', so it goes before the rename
+ALTER TABLE scrape_schedules DROP CONSTRAINT IF EXISTS scrape_schedules_last_status_check;
+UPDATE scrape_schedules SET last_status = 'queued' WHERE last_status = 'started';
+ALTER TABLE scrape_schedules
+ADD CONSTRAINT scrape_schedules_last_status_check CHECK (last_status IN ('queued', 'skipped'));
+
+COMMENT ON COLUMN scrape_schedules.last_status IS 'Outcome of the last firing: queued, or skipped because a run of the supermarket was still queued or going';
+COMMENT ON COLUMN scrape_schedules.last_job_id IS 'Job queued by the last firing';
+COMMENT ON COLUMN scrape_schedules.last_run_id IS 'Run ID (scrape_logs.run_id) of the last run a job of the schedule started';
@@ -0,0 +1,25 @@
+-- Add cancellation of running scrapes
+-- The API records the request on the scrape log; the process running the scraper polls
+-- for it and stops between pages and categories, marking the run cancelled. Progress up
+-- to that point is kept, so a cancelled run can be resumed like a failed one.
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS cancelled_by VARCHAR(255);
+
+ALTER TABLE scrape_logs DROP CONSTRAINT IF EXISTS scrape_logs_status_check;
+ALTER TABLE scrape_logs
+ADD CONSTRAINT scrape_logs_status_check CHECK (status IN ('running', 'success', 'failed', 'partial', 'cancelled'));
+
+COMMENT ON COLUMN scrape_logs.status IS 'Status: running, success, failed, partial, cancelled';
+COMMENT ON COLUMN scrape_logs.cancel_requested_at IS 'When cancellation was requested; the run stops at the next page or category';
+COMMENT ON COLUMN scrape_logs.cancelled_by IS 'Email of the admin who cancelled the run';
+
+-- A job whose run was cancelled is not retried
+ALTER TABLE scrape_jobs DROP CONSTRAINT IF EXISTS scrape_jobs_status_check;
+ALTER TABLE scrape_jobs
+ADD CONSTRAINT scrape_jobs_status_check CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN scrape_jobs.status IS 'queued, running, succeeded, failed, cancelled';
@@ -0,0 +1,20 @@
+-- Create scrape_events table
+-- Progress events of a run (category started, page saved, retries, errors, finished),
+-- written by the process running the scraper and streamed to the admin UI over
+-- Server-Sent Events (GET /api/scraper/runs/:runId/events) by the API server
+
+CREATE TABLE IF NOT EXISTS scrape_events (
+    id BIGSERIAL PRIMARY KEY,
+    scrape_log_id INTEGER NOT NULL REFERENCES scrape_logs(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Streams read the events of one run after the last ID they sent
+CREATE INDEX IF NOT EXISTS idx_scrape_events_log ON scrape_events(scrape_log_id, id);
+
+COMMENT ON TABLE scrape_events IS 'Live progress events of scrape runs, streamed over SSE';
+COMMENT ON COLUMN scrape_events.id IS 'Increasing per insert; used as the SSE event ID so reconnecting clients continue where they left off';
+COMMENT ON COLUMN scrape_events.type IS 'run_started, categories_planned, category_started, page_saved, category_finished, retry, error, finished';
+COMMENT ON COLUMN scrape_events.data IS 'The event without its type, e.g. {"categoryId": "dairy", "pageNumber": 3, "saved": 48, "productsOnPage": 50}';
@@ -0,0 +1,13 @@
+-- Add heartbeats to scrape_logs
+-- The process running a scraper refreshes heartbeat_at while the run is alive. A running
+-- log whose heartbeat expired belongs to a process that died mid-run; the reaper marks it
+-- failed with failure_reason 'abandoned' so it no longer shows as running.
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_scrape_logs_running
+    ON scrape_logs(supermarket_id) WHERE status = 'running';
+
+COMMENT ON COLUMN scrape_logs.heartbeat_at IS 'Last sign of life from the process running the scraper; NULL for runs older than heartbeats';
+COMMENT ON COLUMN scrape_logs.failure_reason IS 'Why the run stopped early: circuit_open (too many consecutive blocked requests) or abandoned (the process running it stopped sending heartbeats)';
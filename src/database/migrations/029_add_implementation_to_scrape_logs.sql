@@ -0,0 +1,20 @@
+-- Add scraper implementations to scrape_logs
+-- A supermarket can have fallback scraper implementations (e.g. LotussApiScraper, then
+-- LotussScraper). When one fails or returns anomalously few products, the run continues
+-- with the next. The log records which implementation produced its data and the ones it
+-- gave up on. Anomaly baselines are kept per implementation since category IDs differ.
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS implementation VARCHAR(100);
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS failovers JSONB;
+
+-- Runs so far were all made by the supermarket's scraper class
+UPDATE scrape_logs sl
+SET implementation = s.scraper_class
+FROM supermarkets s
+WHERE sl.supermarket_id = s.id AND sl.implementation IS NULL;
+
+COMMENT ON COLUMN scrape_logs.implementation IS 'Scraper class that produced the run''s data, e.g. LotussScraper after failing over from LotussApiScraper';
+COMMENT ON COLUMN scrape_logs.failovers IS 'Implementations the run gave up on, in order: [{implementation, reason (failed or anomaly), message, productsScraped}]';
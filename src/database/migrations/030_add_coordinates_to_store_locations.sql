@@ -0,0 +1,23 @@
+-- Add coordinates to store_locations
+-- Sites that ask the browser for its position (e.g. REWE) get the location's coordinates,
+-- so the delivery zone they suggest matches the postal code being scraped.
+
+ALTER TABLE store_locations
+ADD COLUMN IF NOT EXISTS latitude NUMERIC(9, 6);
+
+ALTER TABLE store_locations
+ADD COLUMN IF NOT EXISTS longitude NUMERIC(9, 6);
+
+-- Centres of the seeded locations
+UPDATE store_locations sl
+SET latitude = c.latitude, longitude = c.longitude
+FROM (VALUES
+    ('10115', 52.532600, 13.384900),
+    ('80331', 48.135100, 11.574500),
+    ('28001', 40.423000, -3.683000),
+    ('46001', 39.474700, -0.378800)
+) AS c(postal_code, latitude, longitude)
+WHERE sl.postal_code = c.postal_code AND sl.latitude IS NULL;
+
+COMMENT ON COLUMN store_locations.latitude IS 'Latitude reported to sites that use browser geolocation';
+COMMENT ON COLUMN store_locations.longitude IS 'Longitude reported to sites that use browser geolocation';
@@ -0,0 +1,4 @@
+-- Index scrape_events by age
+-- The stale run reaper deletes events of finished runs after SCRAPER_EVENT_RETENTION_DAYS
+
+CREATE INDEX IF NOT EXISTS idx_scrape_events_created_at ON scrape_events(created_at);
@@ -0,0 +1,13 @@
+-- Let admins accept an anomalous run as the new count baseline
+-- A catalogue that shrank for good would otherwise be flagged forever, since partial runs
+-- never join the baseline. Anomaly detection only compares with the accepted run and the
+-- runs after it.
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS baseline_accepted_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE scrape_logs
+ADD COLUMN IF NOT EXISTS baseline_accepted_by VARCHAR(255);
+
+COMMENT ON COLUMN scrape_logs.baseline_accepted_at IS 'When an admin accepted the counts of this partial run as the new anomaly baseline';
+COMMENT ON COLUMN scrape_logs.baseline_accepted_by IS 'Email of the admin who accepted the baseline';
@@ -221,7 +221,7 @@ export class CanonicalProductRepository {
        INNER JOIN supermarkets s ON pm.supermarket_id = s.id
        INNER JOIN countries c ON s.country_id = c.id
        LEFT JOIN LATERAL (
-         SELECT price, currency, scraped_at FROM prices
+         SELECT price, currency, scraped_at FROM default_location_prices
          WHERE product_mapping_id = pm.id
          ORDER BY scraped_at DESC
          LIMIT 1
@@ -288,7 +288,7 @@ export class CanonicalProductRepository {
       INNER JOIN countries c ON s.country_id = c.id
       INNER JOIN LATERAL (
         SELECT price, currency, original_price, is_on_sale, scraped_at, price_per_unit
-        FROM prices
+        FROM default_location_prices
         WHERE product_mapping_id = pm.id
         ORDER BY scraped_at DESC
         LIMIT 1
@@ -332,7 +332,7 @@ export class CanonicalProductRepository {
       INNER JOIN countries c ON s.country_id = c.id
       LEFT JOIN canonical_products cp ON p.canonical_product_id = cp.id
       LEFT JOIN LATERAL (
-        SELECT price, currency, scraped_at FROM prices
+        SELECT price, currency, scraped_at FROM default_location_prices
         WHERE product_mapping_id = pm.id
         ORDER BY scraped_at DESC
         LIMIT 1
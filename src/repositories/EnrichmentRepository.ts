@@ -0,0 +1,146 @@
+import { query } from '../config/database';
+import { EnrichmentCandidateRow } from '../types/db.types';
+
+export class EnrichmentRepository {
+  // ── Run log ──────────────────────────────────────────────────────────────
+
+  async createLog(supermarketId: string, runId: string): Promise<string> {
+    const result = await query<{ id: string }>(
+      `INSERT INTO enrichment_logs (supermarket_id, run_id, status, started_at)
+       VALUES ($1, $2, 'running', CURRENT_TIMESTAMP)
+       RETURNING id`,
+      [supermarketId, runId]
+    );
+    return result.rows[0].id;
+  }
+
+  async updateLog(
+    logId: string,
+    status: string,
+    data: {
+      productsChecked: number;
+      productsEnriched: number;
+      productsFailed: number;
+      error?: string;
+      duration?: number;
+    }
+  ): Promise<void> {
+    const durationSeconds = data.duration ? Math.round(data.duration / 1000) : null;
+    await query(
+      `UPDATE enrichment_logs SET
+        status = $2,
+        products_checked = $3,
+        products_enriched = $4,
+        products_failed = $5,
+        error_message = $6,
+        duration_seconds = $7,
+        completed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [
+        logId,
+        status,
+        data.productsChecked,
+        data.productsEnriched,
+        data.productsFailed,
+        data.error || null,
+        durationSeconds,
+      ]
+    );
+  }
+
+  /**
+   * Detail pages already requested today for a supermarket (counts against the daily budget).
+   * Counted from the mappings marked as checked, so runs still in progress or killed midway count too.
+   */
+  async getCheckedToday(supermarketId: string): Promise<number> {
+    const result = await query<{ checked: string }>(
+      `SELECT COUNT(*) as checked
+       FROM product_mappings
+       WHERE supermarket_id = $1 AND details_checked_at >= CURRENT_DATE`,
+      [supermarketId]
+    );
+    return parseInt(result.rows[0].checked, 10);
+  }
+
+  async getRecent(limit: number): Promise<Record<string, unknown>[]> {
+    const result = await query(
+      `SELECT el.*, s.name as supermarket_name
+       FROM enrichment_logs el
+       INNER JOIN supermarkets s ON el.supermarket_id = s.id
+       ORDER BY el.started_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  // ── Candidates ───────────────────────────────────────────────────────────
+
+  /**
+   * Mappings whose product is missing barcode, description, brand or unit.
+   * Never-checked products come first; recently checked ones are skipped.
+   */
+  async findCandidates(
+    supermarketId: string,
+    limit: number,
+    recheckAfterDays: number
+  ): Promise<EnrichmentCandidateRow[]> {
+    const result = await query<EnrichmentCandidateRow>(
+      `SELECT pm.id as mapping_id, p.id as product_id, pm.url, p.name,
+              p.brand, p.unit, p.barcode, p.description
+       FROM product_mappings pm
+       INNER JOIN products p ON pm.product_id = p.id
+       WHERE pm.supermarket_id = $1
+         AND pm.is_available = true
+         AND (p.barcode IS NULL OR p.description IS NULL OR p.brand IS NULL OR p.unit IS NULL)
+         AND (pm.details_checked_at IS NULL
+              OR pm.details_checked_at < CURRENT_TIMESTAMP - make_interval(days => $3))
+       ORDER BY pm.details_checked_at NULLS FIRST, pm.last_scraped_at DESC NULLS LAST
+       LIMIT $2`,
+      [supermarketId, limit, recheckAfterDays]
+    );
+    return result.rows;
+  }
+
+  // ── Writes ───────────────────────────────────────────────────────────────
+
+  /**
+   * Fill in missing product fields - values already present are never overwritten
+   */
+  async applyDetails(
+    productId: string,
+    data: {
+      barcode?: string;
+      description?: string;
+      brand?: string;
+      unit?: string;
+      unitQuantity?: number;
+    }
+  ): Promise<void> {
+    await query(
+      `UPDATE products SET
+        barcode = COALESCE(barcode, $2),
+        description = COALESCE(description, $3),
+        brand = COALESCE(brand, $4),
+        unit = COALESCE(unit, $5),
+        unit_quantity = CASE WHEN unit IS NULL THEN COALESCE($6, unit_quantity) ELSE unit_quantity END,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [
+        productId,
+        data.barcode || null,
+        data.description || null,
+        data.brand || null,
+        data.unit || null,
+        data.unitQuantity || null,
+      ]
+    );
+  }
+
+  async markChecked(mappingId: string): Promise<void> {
+    await query(
+      `UPDATE product_mappings SET details_checked_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [mappingId]
+    );
+  }
+}
@@ -11,12 +11,13 @@ export class PriceRepository {
       originalPrice?: number;
       isOnSale: boolean;
       pricePerUnit?: number;
+      locationId?: string;
     }
   ): Promise<void> {
     await query(
       `INSERT INTO prices (
-        product_mapping_id, price, currency, original_price, is_on_sale, price_per_unit, scraped_at
-       ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)`,
+        product_mapping_id, price, currency, original_price, is_on_sale, price_per_unit, location_id, scraped_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
       [
         productMappingId,
         priceData.price,
@@ -24,6 +25,7 @@ export class PriceRepository {
         priceData.originalPrice || null,
         priceData.isOnSale,
         priceData.pricePerUnit || null,
+        priceData.locationId || null,
       ]
     );
   }
@@ -31,7 +33,8 @@ export class PriceRepository {
   async batchInsertPrices(
     mappingIds: string[],
     products: ProductData[],
-    currency: string
+    currency: string,
+    locationId?: string
   ): Promise<void> {
     if (mappingIds.length === 0) return;
 
@@ -45,7 +48,9 @@ export class PriceRepository {
     );
 
     await query(
-      `INSERT INTO prices (product_mapping_id, price, currency, original_price, is_on_sale, price_per_unit, scraped_at)
+      `INSERT INTO prices (
+         product_mapping_id, price, currency, original_price, is_on_sale, price_per_unit, location_id, scraped_at
+       )
        SELECT
          unnest($1::int[]),
          unnest($2::numeric[]),
@@ -53,8 +58,9 @@ export class PriceRepository {
          unnest($4::numeric[]),
          unnest($5::boolean[]),
          unnest($6::numeric[]),
+         $7::int,
          CURRENT_TIMESTAMP`,
-      [mappingIdsInt, prices, currencies, originalPrices, isOnSales, pricePerUnits]
+      [mappingIdsInt, prices, currencies, originalPrices, isOnSales, pricePerUnits, locationId ?? null]
     );
   }
 
@@ -67,22 +73,29 @@ export class PriceRepository {
     return result.rowCount || 0;
   }
 
+  /**
+   * Latest price per product, supermarket and location.
+   * Without a city or location filter only default locations are included.
+   */
   async getLatest(
-    filters: { countryId?: string; supermarketId?: string },
+    filters: { countryId?: string; supermarketId?: string; city?: string; locationId?: string },
     pagination: { limit: number; offset: number }
   ): Promise<Record<string, unknown>[]> {
+    const byLocation = !!(filters.city || filters.locationId);
     let sql = `
-      SELECT DISTINCT ON (pm.product_id, s.id)
+      SELECT DISTINCT ON (pm.product_id, s.id, pr.location_id)
         p.id as product_id, p.name as product_name, p.brand, p.unit, p.unit_quantity,
         s.id as supermarket_id, s.name as supermarket_name,
         c.id as country_id, c.name as country_name, c.code as country_code,
+        pr.location_id, sl.name as location_name, sl.city as location_city,
         pr.price, pr.currency, pr.original_price, pr.is_on_sale,
         pm.is_available, pr.price_per_unit, pr.scraped_at
-      FROM prices pr
+      FROM ${byLocation ? 'prices' : 'default_location_prices'} pr
       INNER JOIN product_mappings pm ON pr.product_mapping_id = pm.id
       INNER JOIN products p ON pm.product_id = p.id
       INNER JOIN supermarkets s ON pm.supermarket_id = s.id
       INNER JOIN countries c ON s.country_id = c.id
+      LEFT JOIN store_locations sl ON pr.location_id = sl.id
       WHERE s.is_active = true
     `;
     const params: unknown[] = [];
@@ -96,8 +109,16 @@ export class PriceRepository {
       sql += ` AND s.id = $${i++}`;
       params.push(filters.supermarketId);
     }
+    if (filters.city) {
+      sql += ` AND LOWER(sl.city) = LOWER($${i++})`;
+      params.push(filters.city);
+    }
+    if (filters.locationId) {
+      sql += ` AND pr.location_id = $${i++}`;
+      params.push(filters.locationId);
+    }
 
-    sql += ` ORDER BY pm.product_id, s.id, pr.scraped_at DESC`;
+    sql += ` ORDER BY pm.product_id, s.id, pr.location_id, pr.scraped_at DESC`;
     sql += ` LIMIT $${i++} OFFSET $${i++}`;
     params.push(pagination.limit, pagination.offset);
 
@@ -142,7 +163,7 @@ export class PriceRepository {
        INNER JOIN product_mappings pm ON s.id = pm.supermarket_id
        INNER JOIN products p ON pm.product_id = p.id
        INNER JOIN LATERAL (
-         SELECT price FROM prices
+         SELECT price FROM default_location_prices
          WHERE product_mapping_id = pm.id
          ORDER BY scraped_at DESC
          LIMIT 1
@@ -156,8 +177,12 @@ export class PriceRepository {
     return result.rows;
   }
 
+  /**
+   * Latest price per product and supermarket for cross-country comparison.
+   * Uses each supermarket's default location, or its locations in the given city.
+   */
   async compare(
-    filters: { search?: string },
+    filters: { search?: string; city?: string },
     pagination: { limit: number; offset: number }
   ): Promise<Record<string, unknown>[]> {
     let sql = `
@@ -171,13 +196,17 @@ export class PriceRepository {
         INNER JOIN product_mappings pm ON p.id = pm.product_id
         INNER JOIN supermarkets s ON pm.supermarket_id = s.id
         INNER JOIN countries c ON s.country_id = c.id
-        LEFT JOIN prices pr ON pm.id = pr.product_mapping_id
+        LEFT JOIN ${filters.city ? 'prices' : 'default_location_prices'} pr ON pm.id = pr.product_mapping_id
         WHERE s.is_active = true
         AND pr.price IS NOT NULL
     `;
     const params: unknown[] = [];
     let i = 1;
 
+    if (filters.city) {
+      sql += ` AND pr.location_id IN (SELECT id FROM store_locations WHERE LOWER(city) = LOWER($${i++}))`;
+      params.push(filters.city);
+    }
     if (filters.search) {
       sql += ` AND (p.name ILIKE $${i} OR p.brand ILIKE $${i})`;
       params.push(`%${filters.search}%`);
@@ -196,4 +225,71 @@ export class PriceRepository {
     const result = await query(sql, params as any[]);
     return result.rows;
   }
+
+  /**
+   * Latest prices of the same products in different cities, averaged over each city's locations.
+   * Only products with prices in at least two of the cities are returned, one row per
+   * product, supermarket and city.
+   */
+  async compareCities(
+    filters: { cities: string[]; supermarketId?: string; search?: string },
+    pagination: { limit: number; offset: number }
+  ): Promise<Record<string, unknown>[]> {
+    const params: unknown[] = [filters.cities.map(c => c.toLowerCase())];
+    let i = 2;
+    let where = '';
+
+    if (filters.supermarketId) {
+      where += ` AND pm.supermarket_id = $${i++}`;
+      params.push(filters.supermarketId);
+    }
+    if (filters.search) {
+      where += ` AND (p.name ILIKE $${i} OR p.brand ILIKE $${i})`;
+      params.push(`%${filters.search}%`);
+      i++;
+    }
+
+    const result = await query(
+      `WITH latest_prices AS (
+         SELECT DISTINCT ON (pr.product_mapping_id, pr.location_id)
+           pr.product_mapping_id, pr.location_id, pr.price, pr.price_per_unit, pr.currency, pr.scraped_at
+         FROM prices pr
+         INNER JOIN store_locations sl ON pr.location_id = sl.id
+         WHERE LOWER(sl.city) = ANY($1)
+         ORDER BY pr.product_mapping_id, pr.location_id, pr.scraped_at DESC
+       ),
+       city_prices AS (
+         SELECT
+           p.id as product_id, p.name as product_name, p.brand, p.unit, p.unit_quantity,
+           s.id as supermarket_id, s.name as supermarket_name,
+           sl.city,
+           AVG(lp.price)::numeric(10,2) as price,
+           AVG(lp.price_per_unit)::numeric(10,2) as price_per_unit,
+           MIN(lp.currency) as currency,
+           COUNT(*)::int as location_count,
+           MAX(lp.scraped_at) as scraped_at
+         FROM latest_prices lp
+         INNER JOIN store_locations sl ON lp.location_id = sl.id
+         INNER JOIN product_mappings pm ON lp.product_mapping_id = pm.id
+         INNER JOIN products p ON pm.product_id = p.id
+         INNER JOIN supermarkets s ON pm.supermarket_id = s.id
+         WHERE s.is_active = true ${where}
+         GROUP BY p.id, s.id, sl.city
+       ),
+       compared AS (
+         SELECT product_id, supermarket_id, MIN(product_name) as product_name
+         FROM city_prices
+         GROUP BY product_id, supermarket_id
+         HAVING COUNT(DISTINCT LOWER(city)) >= 2
+         ORDER BY product_name, product_id, supermarket_id
+         LIMIT $${i++} OFFSET $${i++}
+       )
+       SELECT cp.*
+       FROM city_prices cp
+       INNER JOIN compared USING (product_id, supermarket_id)
+       ORDER BY compared.product_name, cp.product_id, cp.supermarket_id, cp.city`,
+      [...params, pagination.limit, pagination.offset] as any[]
+    );
+    return result.rows;
+  }
 }
@@ -1,5 +1,5 @@
 import { query, getClient } from '../config/database';
-import { MappingLookupResult, NameBrandMappingResult } from '../types/db.types';
+import { MappingLookupResult, NameBrandMappingResult, MappingWithLatestPrice } from '../types/db.types';
 import { ProductData } from '../types/scraper.types';
 
 /**
@@ -355,4 +355,29 @@ export class ProductMappingRepository {
       client.release();
     }
   }
+
+  // ── Diff support ─────────────────────────────────────────────────────────
+
+  /**
+   * Every mapping of a supermarket with its product's unit and the latest default-location price
+   */
+  async findAllWithLatestPrices(supermarketId: string): Promise<MappingWithLatestPrice[]> {
+    const result = await query<MappingWithLatestPrice>(
+      `SELECT
+        pm.id, pm.product_id, pm.external_id, pm.url,
+        p.name, p.brand, p.unit, p.unit_quantity,
+        lp.price, lp.currency, lp.scraped_at
+       FROM product_mappings pm
+       INNER JOIN products p ON pm.product_id = p.id
+       LEFT JOIN LATERAL (
+         SELECT price, currency, scraped_at FROM default_location_prices
+         WHERE product_mapping_id = pm.id
+         ORDER BY scraped_at DESC
+         LIMIT 1
+       ) lp ON true
+       WHERE pm.supermarket_id = $1`,
+      [supermarketId]
+    );
+    return result.rows;
+  }
 }
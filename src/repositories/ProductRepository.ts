@@ -67,7 +67,7 @@ export class ProductRepository {
        INNER JOIN countries c ON s.country_id = c.id
        INNER JOIN product_mappings pm ON s.id = pm.supermarket_id AND pm.product_id = $1
        LEFT JOIN LATERAL (
-         SELECT * FROM prices
+         SELECT * FROM default_location_prices
          WHERE product_mapping_id = pm.id
          ORDER BY scraped_at DESC
          LIMIT 1
@@ -82,19 +82,22 @@ export class ProductRepository {
 
   async getPriceHistory(
     productId: string,
-    options: { supermarketId?: string; days: number }
+    options: { supermarketId?: string; locationId?: string; days: number }
   ): Promise<Record<string, unknown>[]> {
+    // Without a location, history shows the default location so regional prices do not mix
     let sql = `
       SELECT
         pr.id, pr.product_mapping_id, pr.price, pr.currency, pr.original_price,
         pr.is_on_sale, pr.price_per_unit, pr.scraped_at,
         pm.product_id, pm.supermarket_id,
         s.name as supermarket_name,
-        c.name as country_name, c.code as country_code
-      FROM prices pr
+        c.name as country_name, c.code as country_code,
+        pr.location_id, sl.city as location_city
+      FROM ${options.locationId ? 'prices' : 'default_location_prices'} pr
       INNER JOIN product_mappings pm ON pr.product_mapping_id = pm.id
       INNER JOIN supermarkets s ON pm.supermarket_id = s.id
       INNER JOIN countries c ON s.country_id = c.id
+      LEFT JOIN store_locations sl ON pr.location_id = sl.id
       WHERE pm.product_id = $1
       AND pr.scraped_at >= CURRENT_TIMESTAMP - ($2 * INTERVAL '1 day')
     `;
@@ -105,6 +108,10 @@ export class ProductRepository {
       sql += ` AND pm.supermarket_id = $${i++}`;
       params.push(options.supermarketId);
     }
+    if (options.locationId) {
+      sql += ` AND pr.location_id = $${i++}`;
+      params.push(options.locationId);
+    }
     sql += ` ORDER BY pr.scraped_at DESC`;
 
     const result = await query(sql, params as any[]);
@@ -123,7 +130,7 @@ export class ProductRepository {
        INNER JOIN supermarkets s ON pm.supermarket_id = s.id
        INNER JOIN countries c ON s.country_id = c.id
        INNER JOIN LATERAL (
-         SELECT * FROM prices WHERE product_mapping_id = pm.id ORDER BY scraped_at DESC LIMIT 1
+         SELECT * FROM default_location_prices WHERE product_mapping_id = pm.id ORDER BY scraped_at DESC LIMIT 1
        ) pr ON true
        WHERE p.normalized_name ILIKE $1 AND s.is_active = true
        ORDER BY c.name, pr.price_per_unit`,
@@ -163,7 +170,7 @@ export class ProductRepository {
       INNER JOIN product_mappings pm ON p.id = pm.product_id
       LEFT JOIN categories cat ON p.category_id = cat.id
       LEFT JOIN LATERAL (
-        SELECT * FROM prices
+        SELECT * FROM default_location_prices
         WHERE product_mapping_id = pm.id
         ORDER BY scraped_at DESC
         LIMIT 1
@@ -191,7 +198,7 @@ export class ProductRepository {
         pr.price, pr.currency, pr.original_price, pr.is_on_sale, pr.is_available, pr.price_per_unit, pr.scraped_at
        FROM products p
        INNER JOIN product_mappings pm ON p.id = pm.product_id
-       INNER JOIN prices pr ON pr.product_mapping_id = pm.id
+       INNER JOIN default_location_prices pr ON pr.product_mapping_id = pm.id
        WHERE pm.supermarket_id = $1
        ORDER BY p.id, pr.scraped_at DESC`,
       [supermarketId]
@@ -0,0 +1,74 @@
+import { query } from '../config/database';
+import { ProxyHealthRow } from '../types/db.types';
+
+export class ProxyHealthRepository {
+  async findByIds(proxyIds: string[]): Promise<ProxyHealthRow[]> {
+    if (proxyIds.length === 0) return [];
+
+    const result = await query<ProxyHealthRow>(
+      `SELECT * FROM proxy_health WHERE proxy_id = ANY($1::text[])`,
+      [proxyIds]
+    );
+    return result.rows;
+  }
+
+  async recordUse(proxyId: string): Promise<void> {
+    await query(
+      `INSERT INTO proxy_health (proxy_id, last_used_at)
+       VALUES ($1, CURRENT_TIMESTAMP)
+       ON CONFLICT (proxy_id) DO UPDATE SET
+         last_used_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP`,
+      [proxyId]
+    );
+  }
+
+  async recordSuccess(proxyId: string): Promise<void> {
+    await query(
+      `INSERT INTO proxy_health (proxy_id, success_count, last_success_at)
+       VALUES ($1, 1, CURRENT_TIMESTAMP)
+       ON CONFLICT (proxy_id) DO UPDATE SET
+         success_count = proxy_health.success_count + 1,
+         consecutive_failures = 0,
+         last_success_at = CURRENT_TIMESTAMP,
+         evicted_until = NULL,
+         updated_at = CURRENT_TIMESTAMP`,
+      [proxyId]
+    );
+  }
+
+  /**
+   * Count a failure and evict the proxy for evictionMinutes once it has failed
+   * maxFailures times in a row. Returns the updated row.
+   */
+  async recordFailure(
+    proxyId: string,
+    error: string,
+    maxFailures: number,
+    evictionMinutes: number
+  ): Promise<ProxyHealthRow> {
+    const result = await query<ProxyHealthRow>(
+      `INSERT INTO proxy_health AS h (
+         proxy_id, failure_count, consecutive_failures, last_error, last_failure_at, evicted_until
+       )
+       VALUES (
+         $1, 1, 1, $2, CURRENT_TIMESTAMP,
+         CASE WHEN $3::int <= 1 THEN CURRENT_TIMESTAMP + make_interval(mins => $4::int) END
+       )
+       ON CONFLICT (proxy_id) DO UPDATE SET
+         failure_count = h.failure_count + 1,
+         consecutive_failures = h.consecutive_failures + 1,
+         last_error = EXCLUDED.last_error,
+         last_failure_at = CURRENT_TIMESTAMP,
+         evicted_until = CASE
+           WHEN h.consecutive_failures + 1 >= $3::int
+             THEN CURRENT_TIMESTAMP + make_interval(mins => $4::int)
+           ELSE h.evicted_until
+         END,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [proxyId, error.slice(0, 1000), maxFailures, evictionMinutes]
+    );
+    return result.rows[0];
+  }
+}
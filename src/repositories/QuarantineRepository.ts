@@ -0,0 +1,67 @@
+import { query } from '../config/database';
+import { RejectedProduct } from '../types/scraper.types';
+
+export class QuarantineRepository {
+  async insertMany(
+    supermarketId: string,
+    scrapeLogId: string | null,
+    rejects: RejectedProduct[]
+  ): Promise<void> {
+    if (rejects.length === 0) return;
+
+    await query(
+      `INSERT INTO quarantined_products (supermarket_id, scrape_log_id, category_id, reason, product)
+       SELECT $1, $2, unnest($3::text[]), unnest($4::text[]), unnest($5::jsonb[])`,
+      [
+        supermarketId,
+        scrapeLogId,
+        rejects.map(r => r.categoryId),
+        rejects.map(r => r.reason),
+        // NaN and Infinity are not valid JSON - keep them visible for review as strings
+        rejects.map(r => JSON.stringify(r.product, (_key, value) =>
+          typeof value === 'number' && !isFinite(value) ? String(value) : value
+        )),
+      ]
+    );
+  }
+
+  async findAll(
+    filters: { supermarketId?: string; status?: string },
+    pagination: { limit: number; offset: number }
+  ): Promise<Record<string, unknown>[]> {
+    let sql = `
+      SELECT qp.*, s.name as supermarket_name, sl.run_id
+      FROM quarantined_products qp
+      INNER JOIN supermarkets s ON qp.supermarket_id = s.id
+      LEFT JOIN scrape_logs sl ON qp.scrape_log_id = sl.id
+      WHERE 1=1
+    `;
+    const params: unknown[] = [];
+    let i = 1;
+
+    if (filters.supermarketId) {
+      sql += ` AND qp.supermarket_id = $${i++}`;
+      params.push(filters.supermarketId);
+    }
+    if (filters.status) {
+      sql += ` AND qp.status = $${i++}`;
+      params.push(filters.status);
+    }
+
+    sql += ` ORDER BY qp.created_at DESC LIMIT $${i++} OFFSET $${i++}`;
+    params.push(pagination.limit, pagination.offset);
+
+    const result = await query(sql, params as any[]);
+    return result.rows;
+  }
+
+  async dismiss(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE quarantined_products
+       SET status = 'dismissed', reviewed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
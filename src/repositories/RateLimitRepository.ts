@@ -0,0 +1,29 @@
+import { query } from '../config/database';
+
+export class RateLimitRepository {
+  /**
+   * Take one token from a bucket, refilling it for the time elapsed since the last request.
+   * Tokens may go negative: the caller then owns a slot in the queue and must wait
+   * for the returned number of milliseconds before sending its request.
+   * Runs as a single upsert so concurrent processes never hand out the same token.
+   */
+  async reserve(key: string, requestsPerSecond: number, burst: number): Promise<number> {
+    const result = await query<{ tokens: number }>(
+      `INSERT INTO rate_limit_buckets AS b (bucket_key, tokens, capacity, refill_rate, updated_at)
+       VALUES ($1, $3 - 1, $3, $2, clock_timestamp())
+       ON CONFLICT (bucket_key) DO UPDATE SET
+         tokens = LEAST(
+           EXCLUDED.capacity,
+           b.tokens + EXTRACT(EPOCH FROM (clock_timestamp() - b.updated_at)) * EXCLUDED.refill_rate
+         ) - 1,
+         capacity = EXCLUDED.capacity,
+         refill_rate = EXCLUDED.refill_rate,
+         updated_at = clock_timestamp()
+       RETURNING tokens`,
+      [key, requestsPerSecond, burst]
+    );
+
+    const tokens = Number(result.rows[0].tokens);
+    return tokens >= 0 ? 0 : Math.ceil((-tokens / requestsPerSecond) * 1000);
+  }
+}
@@ -0,0 +1,95 @@
+import { query } from '../config/database';
+import { ScrapeErrorRow, ScrapeErrorGroupRow } from '../types/db.types';
+import { ScrapeError } from '../types/scraper.types';
+import { errorSignature } from '../utils/errors';
+
+export class ScrapeErrorRepository {
+  async insertMany(scrapeLogId: string, errors: ScrapeError[]): Promise<void> {
+    if (errors.length === 0) return;
+
+    await query(
+      `INSERT INTO scrape_errors (
+         scrape_log_id, error_class, message, signature, product_url,
+         category_id, category_name, page_number, stack, occurred_at
+       )
+       SELECT
+         $1,
+         unnest($2::text[]),
+         unnest($3::text[]),
+         unnest($4::text[]),
+         unnest($5::text[]),
+         unnest($6::text[]),
+         unnest($7::text[]),
+         unnest($8::int[]),
+         unnest($9::text[]),
+         unnest($10::timestamp[])`,
+      [
+        scrapeLogId,
+        errors.map(e => e.errorClass || null),
+        errors.map(e => e.message),
+        errors.map(e => errorSignature(e.message)),
+        errors.map(e => e.productUrl || null),
+        errors.map(e => e.categoryId || null),
+        errors.map(e => e.categoryName || null),
+        errors.map(e => e.pageNumber ?? null),
+        errors.map(e => e.stack || null),
+        errors.map(e => e.timestamp),
+      ]
+    );
+  }
+
+  async findByLogId(
+    scrapeLogId: string,
+    filters: { signature?: string; errorClass?: string },
+    pagination: { limit: number; offset: number }
+  ): Promise<{ data: ScrapeErrorRow[]; total: number }> {
+    let where = 'WHERE scrape_log_id = $1';
+    const params: unknown[] = [scrapeLogId];
+    let i = 2;
+
+    if (filters.signature) {
+      where += ` AND signature = $${i++}`;
+      params.push(filters.signature);
+    }
+    if (filters.errorClass) {
+      where += ` AND error_class = $${i++}`;
+      params.push(filters.errorClass);
+    }
+
+    const countResult = await query<{ total: string }>(
+      `SELECT COUNT(*) as total FROM scrape_errors ${where}`,
+      params as any[]
+    );
+
+    const result = await query<ScrapeErrorRow>(
+      `SELECT * FROM scrape_errors ${where}
+       ORDER BY occurred_at, id
+       LIMIT $${i++} OFFSET $${i++}`,
+      [...params, pagination.limit, pagination.offset] as any[]
+    );
+
+    return { data: result.rows, total: parseInt(countResult.rows[0].total, 10) };
+  }
+
+  /**
+   * Errors of a run grouped by signature and category, most frequent first
+   */
+  async getGroupsByLogId(scrapeLogId: string): Promise<ScrapeErrorGroupRow[]> {
+    const result = await query<ScrapeErrorGroupRow>(
+      `SELECT
+         signature,
+         MAX(error_class) as error_class,
+         category_name,
+         COUNT(*)::int as count,
+         MIN(message) as sample_message,
+         MIN(occurred_at) as first_seen,
+         MAX(occurred_at) as last_seen
+       FROM scrape_errors
+       WHERE scrape_log_id = $1
+       GROUP BY signature, category_name
+       ORDER BY count DESC, signature`,
+      [scrapeLogId]
+    );
+    return result.rows;
+  }
+}
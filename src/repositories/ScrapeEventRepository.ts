@@ -0,0 +1,43 @@
+import { query } from '../config/database';
+import { ScrapeEventRow } from '../types/db.types';
+import { ScrapeProgressEvent } from '../types/scraper.types';
+
+export class ScrapeEventRepository {
+  async create(scrapeLogId: string, event: ScrapeProgressEvent): Promise<void> {
+    const { type, ...data } = event;
+    await query(
+      `INSERT INTO scrape_events (scrape_log_id, type, data) VALUES ($1, $2, $3)`,
+      [scrapeLogId, type, JSON.stringify(data)]
+    );
+  }
+
+  /**
+   * Events of a run after the given event ID (0 for all), oldest first
+   */
+  async findAfter(scrapeLogId: string, afterId: string, limit: number): Promise<ScrapeEventRow[]> {
+    const result = await query<ScrapeEventRow>(
+      `SELECT * FROM scrape_events
+       WHERE scrape_log_id = $1 AND id > $2
+       ORDER BY id
+       LIMIT $3`,
+      [scrapeLogId, afterId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Delete events of finished runs that are older than the given number of days.
+   * Returns how many were deleted.
+   */
+  async deleteFinishedOlderThan(days: number): Promise<number> {
+    const result = await query(
+      `DELETE FROM scrape_events e
+       USING scrape_logs sl
+       WHERE e.scrape_log_id = sl.id
+         AND sl.status <> 'running'
+         AND e.created_at < CURRENT_TIMESTAMP - make_interval(days => $1)`,
+      [days]
+    );
+    return result.rowCount ?? 0;
+  }
+}
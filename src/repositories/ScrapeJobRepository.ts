@@ -0,0 +1,207 @@
+import { query } from '../config/database';
+import { ScrapeJobRow, ScrapeJobStatus, ScrapeJobWithDetails } from '../types/db.types';
+
+export interface ScrapeJobInput {
+  supermarketId: string;
+  categoryIds?: string[] | null;
+  locationId?: string | null;
+  resumeRunId?: string | null;
+  priority?: number;
+  maxAttempts?: number;
+  source?: ScrapeJobRow['source'];
+  scheduleId?: string | null;
+  requestedBy?: string | null;
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export class ScrapeJobRepository {
+  async enqueue(data: ScrapeJobInput): Promise<ScrapeJobRow> {
+    const result = await query<ScrapeJobRow>(
+      `INSERT INTO scrape_jobs
+         (supermarket_id, category_ids, location_id, resume_run_id, priority, max_attempts, source, schedule_id, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        data.supermarketId,
+        data.categoryIds?.length ? data.categoryIds : null,
+        data.locationId || null,
+        data.resumeRunId || null,
+        data.priority ?? 0,
+        data.maxAttempts ?? 3,
+        data.source ?? 'api',
+        data.scheduleId || null,
+        data.requestedBy || null,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ScrapeJobWithDetails | null> {
+    const result = await query<ScrapeJobWithDetails>(
+      `${this.detailsSelect()} WHERE j.id = $1`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async findAll(
+    filters: { status?: ScrapeJobStatus; supermarketId?: string },
+    pagination: { limit: number; offset: number }
+  ): Promise<ScrapeJobWithDetails[]> {
+    const result = await query<ScrapeJobWithDetails>(
+      `${this.detailsSelect()}
+       WHERE ($1::varchar IS NULL OR j.status = $1)
+         AND ($2::int IS NULL OR j.supermarket_id = $2)
+       ORDER BY j.created_at DESC, j.id DESC
+       LIMIT $3 OFFSET $4`,
+      [filters.status ?? null, filters.supermarketId ?? null, pagination.limit, pagination.offset]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Whether the supermarket has a job that is queued or running
+   */
+  async hasPending(supermarketId: string): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM scrape_jobs WHERE supermarket_id = $1 AND status IN ('queued', 'running') LIMIT 1`,
+      [supermarketId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Claim the next due job for a worker: highest priority first, then oldest.
+   * Jobs of supermarkets that already have a running job are left in the queue.
+   * Returns null if there is nothing to do.
+   */
+  async claimNext(workerId: string): Promise<ScrapeJobRow | null> {
+    try {
+      const result = await query<ScrapeJobRow>(
+        `UPDATE scrape_jobs
+         SET status = 'running', attempts = attempts + 1, worker_id = $1,
+             started_at = CURRENT_TIMESTAMP, heartbeat_at = CURRENT_TIMESTAMP, finished_at = NULL
+         WHERE id = (
+           SELECT j.id FROM scrape_jobs j
+           WHERE j.status = 'queued'
+             AND j.run_at <= CURRENT_TIMESTAMP
+             AND NOT EXISTS (
+               SELECT 1 FROM scrape_jobs r WHERE r.supermarket_id = j.supermarket_id AND r.status = 'running'
+             )
+           ORDER BY j.priority DESC, j.run_at, j.id
+           LIMIT 1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [workerId]
+      );
+      return result.rows[0] ?? null;
+    } catch (error) {
+      // Another worker claimed a job of the same supermarket at the same moment
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) return null;
+      throw error;
+    }
+  }
+
+  async setRunId(id: string, runId: string): Promise<void> {
+    await query(`UPDATE scrape_jobs SET run_id = $2 WHERE id = $1`, [id, runId]);
+  }
+
+  /**
+   * Record that the worker is still alive. Returns false if the job is no longer this worker's
+   * (it was put back in the queue after missing heartbeats).
+   */
+  async heartbeat(id: string, workerId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE scrape_jobs SET heartbeat_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND worker_id = $2 AND status = 'running'`,
+      [id, workerId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark the worker's job succeeded. Returns false if the job is no longer this worker's.
+   */
+  async complete(id: string, workerId: string, productsScraped: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE scrape_jobs
+       SET status = 'succeeded', products_scraped = $3, last_error = NULL, finished_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND worker_id = $2 AND status = 'running'`,
+      [id, workerId, productsScraped]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark the worker's job cancelled after its run was cancelled; it is not retried.
+   * Returns false if the job is no longer this worker's.
+   */
+  async markCancelled(id: string, workerId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE scrape_jobs SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND worker_id = $2 AND status = 'running'`,
+      [id, workerId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a failed attempt of the worker's job. With a retry delay and attempts left the job
+   * goes back in the queue to run after the delay; otherwise it fails for good.
+   * Returns the new status, or null if the job is no longer this worker's.
+   */
+  async fail(
+    id: string,
+    workerId: string,
+    error: string,
+    retryDelaySeconds: number | null
+  ): Promise<ScrapeJobStatus | null> {
+    const result = await query<{ status: ScrapeJobStatus }>(
+      `UPDATE scrape_jobs
+       SET status = CASE WHEN $3::int IS NOT NULL AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+           run_at = CASE WHEN $3::int IS NOT NULL AND attempts < max_attempts
+                         THEN CURRENT_TIMESTAMP + ($3 * INTERVAL '1 second') ELSE run_at END,
+           finished_at = CASE WHEN $3::int IS NOT NULL AND attempts < max_attempts THEN NULL ELSE CURRENT_TIMESTAMP END,
+           last_error = $2
+       WHERE id = $1 AND worker_id = $4 AND status = 'running'
+       RETURNING status`,
+      [id, error, retryDelaySeconds, workerId]
+    );
+    return result.rows[0]?.status ?? null;
+  }
+
+  /**
+   * Put running jobs whose worker stopped sending heartbeats back in the queue, or fail them
+   * when they are out of attempts. Returns the affected jobs.
+   */
+  async requeueAbandoned(heartbeatTimeoutSeconds: number): Promise<ScrapeJobRow[]> {
+    const result = await query<ScrapeJobRow>(
+      `UPDATE scrape_jobs
+       SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+           finished_at = CASE WHEN attempts < max_attempts THEN NULL ELSE CURRENT_TIMESTAMP END,
+           run_at = CURRENT_TIMESTAMP,
+           last_error = 'Worker ' || COALESCE(worker_id, '?') || ' stopped sending heartbeats'
+       WHERE status = 'running'
+         AND heartbeat_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 second')
+       RETURNING *`,
+      [heartbeatTimeoutSeconds]
+    );
+    return result.rows;
+  }
+
+  private detailsSelect(): string {
+    return `SELECT j.*, s.name as supermarket_name, sl.city as location_city, run.status as run_status
+       FROM scrape_jobs j
+       INNER JOIN supermarkets s ON j.supermarket_id = s.id
+       LEFT JOIN store_locations sl ON j.location_id = sl.id
+       LEFT JOIN LATERAL (
+         SELECT status FROM scrape_logs
+         WHERE run_id = j.run_id
+         ORDER BY started_at DESC
+         LIMIT 1
+       ) run ON j.run_id IS NOT NULL`;
+  }
+}
@@ -1,17 +1,136 @@
 import { query } from '../config/database';
 import { ScrapeLogRow } from '../types/db.types';
+import { ScrapeCheckpoint, ScrapeAnomaly, ScrapeFailover } from '../types/scraper.types';
 
 export class ScrapeLogRepository {
-  async create(supermarketId: string, status: string): Promise<string> {
+  async create(
+    supermarketId: string,
+    status: string,
+    options: {
+      runId?: string;
+      checkpoint?: ScrapeCheckpoint;
+      resumedFrom?: string;
+      locationId?: string;
+      implementation?: string;
+    } = {}
+  ): Promise<string> {
     const result = await query<{ id: string }>(
-      `INSERT INTO scrape_logs (supermarket_id, status, started_at)
-       VALUES ($1, $2, CURRENT_TIMESTAMP)
+      `INSERT INTO scrape_logs
+         (supermarket_id, status, started_at, heartbeat_at, run_id, checkpoint, resumed_from, location_id, implementation)
+       VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, $3, $4, $5, $6, $7)
        RETURNING id`,
-      [supermarketId, status]
+      [
+        supermarketId,
+        status,
+        options.runId || null,
+        options.checkpoint ? JSON.stringify(options.checkpoint) : null,
+        options.resumedFrom || null,
+        options.locationId || null,
+        options.implementation || null,
+      ]
     );
     return result.rows[0].id;
   }
 
+  async saveCheckpoint(logId: string, checkpoint: ScrapeCheckpoint): Promise<void> {
+    await query(
+      `UPDATE scrape_logs SET checkpoint = $2 WHERE id = $1`,
+      [logId, JSON.stringify(checkpoint)]
+    );
+  }
+
+  /**
+   * Record that the run gave up on an implementation and continues with the next one
+   */
+  async recordFailover(logId: string, implementation: string, failovers: ScrapeFailover[]): Promise<void> {
+    await query(
+      `UPDATE scrape_logs SET implementation = $2, failovers = $3 WHERE id = $1`,
+      [logId, implementation, JSON.stringify(failovers)]
+    );
+  }
+
+  /**
+   * Record that the process running the scraper is alive. Returns false if the log is no
+   * longer running (it was reaped after missing heartbeats).
+   */
+  async heartbeat(logId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE scrape_logs SET heartbeat_at = CURRENT_TIMESTAMP WHERE id = $1 AND status = 'running'`,
+      [logId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark running logs whose process stopped sending heartbeats failed with failure_reason
+   * 'abandoned'. Logs from before heartbeats existed count from their start time.
+   * Returns the reaped logs.
+   */
+  async reapAbandoned(heartbeatTimeoutSeconds: number): Promise<ScrapeLogRow[]> {
+    const result = await query<ScrapeLogRow>(
+      `UPDATE scrape_logs
+       SET status = 'failed',
+           failure_reason = 'abandoned',
+           error_message = COALESCE(error_message, 'The process running the scraper stopped sending heartbeats'),
+           duration_seconds = EXTRACT(EPOCH FROM (COALESCE(heartbeat_at, started_at) - started_at))::int,
+           completed_at = CURRENT_TIMESTAMP
+       WHERE status = 'running'
+         AND COALESCE(heartbeat_at, started_at) < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 second')
+       RETURNING *`,
+      [heartbeatTimeoutSeconds]
+    );
+    return result.rows;
+  }
+
+  async findByRunId(runId: string): Promise<ScrapeLogRow | null> {
+    const result = await query<ScrapeLogRow>(
+      `SELECT * FROM scrape_logs WHERE run_id = $1 ORDER BY started_at DESC LIMIT 1`,
+      [runId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Request cancellation of a running run. Returns the updated log, or null if the run
+   * is not running (already finished, or cancellation was requested before).
+   */
+  async requestCancel(runId: string, cancelledBy: string | null): Promise<ScrapeLogRow | null> {
+    const result = await query<ScrapeLogRow>(
+      `UPDATE scrape_logs SET cancel_requested_at = CURRENT_TIMESTAMP, cancelled_by = $2
+       WHERE run_id = $1 AND status = 'running' AND cancel_requested_at IS NULL
+       RETURNING *`,
+      [runId, cancelledBy]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Accept the counts of a run flagged by anomaly detection as the new baseline.
+   * Returns null if the run is not a partial full run with an anomaly, or was already accepted.
+   */
+  async acceptBaseline(runId: string, acceptedBy: string | null): Promise<ScrapeLogRow | null> {
+    const result = await query<ScrapeLogRow>(
+      `UPDATE scrape_logs SET baseline_accepted_at = CURRENT_TIMESTAMP, baseline_accepted_by = $2
+       WHERE run_id = $1
+         AND status = 'partial'
+         AND anomaly IS NOT NULL
+         AND category_counts IS NOT NULL
+         AND checkpoint->'categoryIds' IS NULL
+         AND baseline_accepted_at IS NULL
+       RETURNING *`,
+      [runId, acceptedBy]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async isCancelRequested(logId: string): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM scrape_logs WHERE id = $1 AND cancel_requested_at IS NOT NULL`,
+      [logId]
+    );
+    return result.rows.length > 0;
+  }
+
   async update(
     logId: string,
     status: string,
@@ -20,6 +139,9 @@ export class ScrapeLogRepository {
       productsFailed?: number;
       error?: string;
       duration?: number;
+      failureReason?: string;
+      categoryCounts?: Record<string, number>;
+      anomaly?: ScrapeAnomaly;
     }
   ): Promise<void> {
     const durationSeconds = data.duration ? Math.round(data.duration / 1000) : null;
@@ -30,6 +152,9 @@ export class ScrapeLogRepository {
         products_failed = $4,
         error_message = $5,
         duration_seconds = $6,
+        failure_reason = $7,
+        category_counts = $8,
+        anomaly = $9,
         completed_at = CURRENT_TIMESTAMP
        WHERE id = $1`,
       [
@@ -39,10 +164,49 @@ export class ScrapeLogRepository {
         data.productsFailed || null,
         data.error || null,
         durationSeconds,
+        data.failureReason || null,
+        data.categoryCounts ? JSON.stringify(data.categoryCounts) : null,
+        data.anomaly ? JSON.stringify(data.anomaly) : null,
       ]
     );
   }
 
+  /**
+   * Per-category counts of the most recent successful full runs (baseline for anomaly detection).
+   * Category-filtered runs are left out since their totals are not comparable. Once a partial
+   * run is accepted as the new baseline, only it and the runs after it count.
+   * Each location has its own baseline since assortments differ between stores, and each
+   * scraper implementation its own since category IDs differ between them.
+   */
+  async getBaselineCounts(
+    supermarketId: string,
+    limit: number,
+    locationId?: string,
+    implementation?: string
+  ): Promise<Record<string, number>[]> {
+    const result = await query<{ category_counts: Record<string, number> }>(
+      `SELECT category_counts
+       FROM scrape_logs
+       WHERE supermarket_id = $1
+         AND (status = 'success' OR baseline_accepted_at IS NOT NULL)
+         AND category_counts IS NOT NULL
+         AND checkpoint->'categoryIds' IS NULL
+         AND location_id IS NOT DISTINCT FROM $3
+         AND ($4::varchar IS NULL OR implementation = $4)
+         AND started_at >= COALESCE((
+           SELECT MAX(started_at) FROM scrape_logs
+           WHERE supermarket_id = $1
+             AND baseline_accepted_at IS NOT NULL
+             AND location_id IS NOT DISTINCT FROM $3
+             AND ($4::varchar IS NULL OR implementation = $4)
+         ), '-infinity')
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [supermarketId, limit, locationId ?? null, implementation ?? null]
+    );
+    return result.rows.map(row => row.category_counts);
+  }
+
   async getHistoryForSupermarket(
     supermarketId: string,
     limit: number
@@ -64,7 +228,7 @@ export class ScrapeLogRepository {
     limit: number
   ): Promise<ScrapeLogRow[]> {
     const result = await query<ScrapeLogRow>(
-      `SELECT id, status, products_scraped, products_failed, duration_seconds, error_message, started_at, completed_at
+      `SELECT id, status, products_scraped, products_failed, duration_seconds, error_message, started_at, completed_at, anomaly
        FROM scrape_logs
        WHERE supermarket_id = $1
        ORDER BY started_at DESC
@@ -93,10 +257,13 @@ export class ScrapeLogRepository {
 
   async getRecentWithDetails(limit: number): Promise<Record<string, unknown>[]> {
     const result = await query(
-      `SELECT sl.*, s.name as supermarket_name, c.name as country_name
+      `SELECT sl.*, s.name as supermarket_name, c.name as country_name, loc.city as location_city,
+              (SELECT COUNT(*)::int FROM scrape_errors se WHERE se.scrape_log_id = sl.id) as error_count,
+              (SELECT COUNT(*)::int FROM scrape_snapshots ss WHERE ss.scrape_log_id = sl.id) as snapshot_count
        FROM scrape_logs sl
        INNER JOIN supermarkets s ON sl.supermarket_id = s.id
        INNER JOIN countries c ON s.country_id = c.id
+       LEFT JOIN store_locations loc ON sl.location_id = loc.id
        ORDER BY sl.started_at DESC
        LIMIT $1`,
       [limit]
@@ -114,11 +281,30 @@ export class ScrapeLogRepository {
     return result.rows;
   }
 
+  /**
+   * Whether a run of the supermarket is in progress. Running logs without a heartbeat for
+   * heartbeatTimeoutSeconds are ignored even before the reaper gets to them - their process died.
+   */
+  async isRunning(supermarketId: string, heartbeatTimeoutSeconds: number): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM scrape_logs
+       WHERE supermarket_id = $1
+         AND status = 'running'
+         AND COALESCE(heartbeat_at, started_at) > CURRENT_TIMESTAMP - ($2 * INTERVAL '1 second')
+       LIMIT 1`,
+      [supermarketId, heartbeatTimeoutSeconds]
+    );
+    return result.rows.length > 0;
+  }
+
   async get24hSummary(): Promise<Record<string, unknown>> {
     const result = await query(`
       SELECT
         COUNT(*) FILTER (WHERE status = 'success' AND started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as success_24h,
         COUNT(*) FILTER (WHERE status = 'failed' AND started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as failed_24h,
+        COUNT(*) FILTER (WHERE status = 'failed' AND failure_reason = 'abandoned' AND started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as abandoned_24h,
+        COUNT(*) FILTER (WHERE status = 'partial' AND started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as partial_24h,
+        COUNT(*) FILTER (WHERE status = 'cancelled' AND started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as cancelled_24h,
         SUM(products_scraped) FILTER (WHERE started_at > CURRENT_TIMESTAMP - INTERVAL '24 hours') as products_24h,
         COUNT(*) FILTER (WHERE status = 'running') as currently_running
       FROM scrape_logs
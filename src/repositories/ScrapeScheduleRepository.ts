@@ -0,0 +1,180 @@
+import { query } from '../config/database';
+import { ScrapeScheduleRow, ScrapeScheduleWithDetails } from '../types/db.types';
+
+export interface ScrapeScheduleInput {
+  cronExpression?: string;
+  timezone?: string;
+  categoryIds?: string[] | null;
+  locationId?: string | null;
+  isEnabled?: boolean;
+  nextRunAt?: Date | null;
+}
+
+export class ScrapeScheduleRepository {
+  async findAll(filters: { supermarketId?: string } = {}): Promise<ScrapeScheduleWithDetails[]> {
+    const result = await query<ScrapeScheduleWithDetails>(
+      `SELECT ss.*, s.name as supermarket_name, sl.city as location_city,
+              last_job.status as last_job_status, last_run.status as last_run_status
+       FROM scrape_schedules ss
+       INNER JOIN supermarkets s ON ss.supermarket_id = s.id
+       LEFT JOIN store_locations sl ON ss.location_id = sl.id
+       LEFT JOIN scrape_jobs last_job ON ss.last_job_id = last_job.id
+       LEFT JOIN LATERAL (
+         SELECT status FROM scrape_logs
+         WHERE run_id = ss.last_run_id
+         ORDER BY started_at DESC
+         LIMIT 1
+       ) last_run ON ss.last_run_id IS NOT NULL
+       WHERE ($1::int IS NULL OR ss.supermarket_id = $1)
+       ORDER BY s.name, ss.id`,
+      [filters.supermarketId ?? null]
+    );
+    return result.rows;
+  }
+
+  async findById(id: string): Promise<ScrapeScheduleRow | null> {
+    const result = await query<ScrapeScheduleRow>(
+      `SELECT * FROM scrape_schedules WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Enabled schedules of active supermarkets that are due, oldest first
+   */
+  async findDue(now: Date): Promise<ScrapeScheduleRow[]> {
+    const result = await query<ScrapeScheduleRow>(
+      `SELECT ss.*
+       FROM scrape_schedules ss
+       INNER JOIN supermarkets s ON ss.supermarket_id = s.id
+       WHERE ss.is_enabled AND s.is_active AND ss.next_run_at <= $1
+       ORDER BY ss.next_run_at, ss.id`,
+      [now]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Enabled schedules without a next run time, e.g. inserted by hand or re-enabled in SQL
+   */
+  async findUnscheduled(): Promise<ScrapeScheduleRow[]> {
+    const result = await query<ScrapeScheduleRow>(
+      `SELECT * FROM scrape_schedules WHERE is_enabled AND next_run_at IS NULL`
+    );
+    return result.rows;
+  }
+
+  async create(
+    supermarketId: string,
+    data: ScrapeScheduleInput & { cronExpression: string; timezone: string }
+  ): Promise<ScrapeScheduleRow> {
+    const result = await query<ScrapeScheduleRow>(
+      `INSERT INTO scrape_schedules (supermarket_id, cron_expression, timezone, category_ids, location_id, is_enabled, next_run_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        supermarketId,
+        data.cronExpression,
+        data.timezone,
+        data.categoryIds?.length ? data.categoryIds : null,
+        data.locationId || null,
+        data.isEnabled ?? true,
+        data.nextRunAt ?? null,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  async update(id: string, data: ScrapeScheduleInput): Promise<ScrapeScheduleRow | null> {
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let i = 1;
+
+    if (data.cronExpression !== undefined) {
+      updates.push(`cron_expression = $${i++}`);
+      params.push(data.cronExpression);
+    }
+    if (data.timezone !== undefined) {
+      updates.push(`timezone = $${i++}`);
+      params.push(data.timezone);
+    }
+    if (data.categoryIds !== undefined) {
+      updates.push(`category_ids = $${i++}`);
+      params.push(data.categoryIds?.length ? data.categoryIds : null);
+    }
+    if (data.locationId !== undefined) {
+      updates.push(`location_id = $${i++}`);
+      params.push(data.locationId || null);
+    }
+    if (data.isEnabled !== undefined) {
+      updates.push(`is_enabled = $${i++}`);
+      params.push(data.isEnabled);
+    }
+    if (data.nextRunAt !== undefined) {
+      updates.push(`next_run_at = $${i++}`);
+      params.push(data.nextRunAt);
+    }
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    params.push(id);
+    const result = await query<ScrapeScheduleRow>(
+      `UPDATE scrape_schedules SET ${updates.join(', ')} WHERE id = $${i} RETURNING *`,
+      params as any[]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async delete(id: string): Promise<ScrapeScheduleRow | null> {
+    const result = await query<ScrapeScheduleRow>(
+      `DELETE FROM scrape_schedules WHERE id = $1 RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Claim a due schedule by moving next_run_at forward. Only succeeds if next_run_at is still
+   * the value the caller read, so of several schedulers only one fires the schedule.
+   */
+  async claim(id: string, dueAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await query(
+      `UPDATE scrape_schedules SET next_run_at = $3, last_fired_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND is_enabled AND next_run_at = $2`,
+      [id, dueAt, nextRunAt]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Set the first run time of an unscheduled schedule (no-op if another scheduler already did)
+   */
+  async initNextRun(id: string, nextRunAt: Date | null): Promise<void> {
+    await query(
+      `UPDATE scrape_schedules SET next_run_at = $2 WHERE id = $1 AND next_run_at IS NULL`,
+      [id, nextRunAt]
+    );
+  }
+
+  async recordFiring(
+    id: string,
+    status: 'queued' | 'skipped',
+    data: { jobId?: string; message?: string } = {}
+  ): Promise<void> {
+    await query(
+      `UPDATE scrape_schedules
+       SET last_status = $2, last_job_id = COALESCE($3, last_job_id), last_message = $4
+       WHERE id = $1`,
+      [id, status, data.jobId || null, data.message || null]
+    );
+  }
+
+  /**
+   * Link the run a worker started for one of the schedule's jobs
+   */
+  async recordRun(id: string, runId: string): Promise<void> {
+    await query(`UPDATE scrape_schedules SET last_run_id = $2 WHERE id = $1`, [id, runId]);
+  }
+}
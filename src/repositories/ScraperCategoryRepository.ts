@@ -0,0 +1,116 @@
+import { query, getClient } from '../config/database';
+import { ScraperCategoryRow } from '../types/db.types';
+import { CategoryConfig, DiscoveredCategory } from '../types/scraper.types';
+
+export class ScraperCategoryRepository {
+  async findBySupermarket(supermarketId: string): Promise<ScraperCategoryRow[]> {
+    const result = await query<ScraperCategoryRow>(
+      `SELECT * FROM scraper_categories WHERE supermarket_id = $1 ORDER BY sort_order, id`,
+      [supermarketId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Enabled categories in scraping order, or null if the supermarket has no stored list
+   */
+  async findEnabled(supermarketId: string): Promise<CategoryConfig[] | null> {
+    const rows = await this.findBySupermarket(supermarketId);
+    if (rows.length === 0) return null;
+
+    return rows
+      .filter(row => row.is_enabled)
+      .map(row => ({ id: row.category_id, name: row.name, url: row.url }));
+  }
+
+  async setEnabled(supermarketId: string, categoryId: string, enabled: boolean): Promise<ScraperCategoryRow | null> {
+    const result = await query<ScraperCategoryRow>(
+      `UPDATE scraper_categories SET is_enabled = $3
+       WHERE supermarket_id = $1 AND category_id = $2
+       RETURNING *`,
+      [supermarketId, categoryId, enabled]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Store the result of a category discovery.
+   * The first time, the current list is copied in as enabled 'registry' rows. Newly discovered
+   * categories are added disabled until an admin enables them; categories the site no longer
+   * has are flagged with missing_since but keep their enabled state.
+   */
+  async saveDiscovery(
+    supermarketId: string,
+    current: CategoryConfig[],
+    discovered: DiscoveredCategory[]
+  ): Promise<ScraperCategoryRow[]> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query<{ count: string; max_order: number | null }>(
+        `SELECT COUNT(*) as count, MAX(sort_order) as max_order
+         FROM scraper_categories WHERE supermarket_id = $1`,
+        [supermarketId]
+      );
+      let nextOrder = (existing.rows[0].max_order ?? -1) + 1;
+
+      if (parseInt(existing.rows[0].count, 10) === 0 && current.length > 0) {
+        await client.query(
+          `INSERT INTO scraper_categories (supermarket_id, category_id, name, url, source, is_enabled, sort_order)
+           SELECT $1, t.category_id, t.name, t.url, 'registry', true, t.sort_order
+           FROM unnest($2::text[], $3::text[], $4::text[], $5::int[]) AS t(category_id, name, url, sort_order)
+           ON CONFLICT (supermarket_id, category_id) DO NOTHING`,
+          [
+            supermarketId,
+            current.map(c => c.id),
+            current.map(c => c.name),
+            current.map(c => c.url),
+            current.map((_, i) => i),
+          ]
+        );
+        nextOrder = current.length;
+      }
+
+      if (discovered.length > 0) {
+        await client.query(
+          `INSERT INTO scraper_categories
+             (supermarket_id, category_id, name, url, parent_name, source, is_enabled, sort_order, last_seen_at)
+           SELECT $1, t.category_id, t.name, t.url, t.parent_name, 'discovered', false, t.sort_order, CURRENT_TIMESTAMP
+           FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::int[])
+             AS t(category_id, name, url, parent_name, sort_order)
+           ON CONFLICT (supermarket_id, category_id) DO UPDATE SET
+             name = EXCLUDED.name,
+             url = EXCLUDED.url,
+             parent_name = EXCLUDED.parent_name,
+             last_seen_at = CURRENT_TIMESTAMP,
+             missing_since = NULL`,
+          [
+            supermarketId,
+            discovered.map(c => c.id),
+            discovered.map(c => c.name),
+            discovered.map(c => c.url),
+            discovered.map(c => c.parentName ?? null),
+            discovered.map((_, i) => nextOrder + i),
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE scraper_categories
+         SET missing_since = COALESCE(missing_since, CURRENT_TIMESTAMP)
+         WHERE supermarket_id = $1 AND category_id <> ALL($2::text[])`,
+        [supermarketId, discovered.map(c => c.id)]
+      );
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    return this.findBySupermarket(supermarketId);
+  }
+}
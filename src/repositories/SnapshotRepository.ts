@@ -0,0 +1,38 @@
+import { query } from '../config/database';
+import { ScrapeSnapshotRow } from '../types/db.types';
+import { FailureSnapshot } from '../types/scraper.types';
+
+export class SnapshotRepository {
+  async create(scrapeLogId: string, snapshot: FailureSnapshot): Promise<string> {
+    const result = await query<{ id: string }>(
+      `INSERT INTO scrape_snapshots (scrape_log_id, category_id, category_name, reason, error_message, artifacts)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [
+        scrapeLogId,
+        snapshot.categoryId,
+        snapshot.categoryName,
+        snapshot.reason,
+        snapshot.errorMessage || null,
+        JSON.stringify(snapshot.artifacts),
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  async findByLogId(scrapeLogId: string): Promise<ScrapeSnapshotRow[]> {
+    const result = await query<ScrapeSnapshotRow>(
+      `SELECT * FROM scrape_snapshots WHERE scrape_log_id = $1 ORDER BY created_at`,
+      [scrapeLogId]
+    );
+    return result.rows;
+  }
+
+  async findById(id: string): Promise<ScrapeSnapshotRow | null> {
+    const result = await query<ScrapeSnapshotRow>(
+      `SELECT * FROM scrape_snapshots WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+}
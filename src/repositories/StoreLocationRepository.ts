@@ -0,0 +1,167 @@
+import { query, getClient } from '../config/database';
+import { StoreLocationRow } from '../types/db.types';
+
+export interface StoreLocationInput {
+  name?: string;
+  city?: string;
+  postalCode?: string | null;
+  storeId?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export class StoreLocationRepository {
+  async findBySupermarket(supermarketId: string, activeOnly: boolean = false): Promise<StoreLocationRow[]> {
+    const result = await query<StoreLocationRow>(
+      `SELECT * FROM store_locations
+       WHERE supermarket_id = $1 ${activeOnly ? 'AND is_active = true' : ''}
+       ORDER BY is_default DESC, city, name`,
+      [supermarketId]
+    );
+    return result.rows;
+  }
+
+  async findAllActive(): Promise<StoreLocationRow[]> {
+    const result = await query<StoreLocationRow>(
+      `SELECT * FROM store_locations WHERE is_active = true ORDER BY supermarket_id, is_default DESC, city, name`
+    );
+    return result.rows;
+  }
+
+  async findById(id: string): Promise<StoreLocationRow | null> {
+    const result = await query<StoreLocationRow>(
+      `SELECT * FROM store_locations WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async findDefault(supermarketId: string): Promise<StoreLocationRow | null> {
+    const result = await query<StoreLocationRow>(
+      `SELECT * FROM store_locations WHERE supermarket_id = $1 AND is_default`,
+      [supermarketId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Create a location. The first location of a supermarket always becomes its default.
+   */
+  async create(
+    supermarketId: string,
+    data: StoreLocationInput & { name: string; city: string }
+  ): Promise<StoreLocationRow> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      const existing = await client.query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM store_locations WHERE supermarket_id = $1`,
+        [supermarketId]
+      );
+      const isDefault = data.isDefault || parseInt(existing.rows[0].count, 10) === 0;
+
+      if (isDefault) {
+        await client.query(
+          `UPDATE store_locations SET is_default = false WHERE supermarket_id = $1 AND is_default`,
+          [supermarketId]
+        );
+      }
+      const result = await client.query<StoreLocationRow>(
+        `INSERT INTO store_locations
+           (supermarket_id, name, city, postal_code, store_id, latitude, longitude, is_default, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          supermarketId,
+          data.name,
+          data.city,
+          data.postalCode || null,
+          data.storeId || null,
+          data.latitude ?? null,
+          data.longitude ?? null,
+          isDefault,
+          data.isActive ?? true,
+        ]
+      );
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a location. Making it the default takes the flag away from the previous default;
+   * the default cannot be unset directly, only moved to another location.
+   */
+  async update(id: string, data: StoreLocationInput): Promise<StoreLocationRow | null> {
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let i = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${i++}`);
+      params.push(data.name);
+    }
+    if (data.city !== undefined) {
+      updates.push(`city = $${i++}`);
+      params.push(data.city);
+    }
+    if (data.postalCode !== undefined) {
+      updates.push(`postal_code = $${i++}`);
+      params.push(data.postalCode || null);
+    }
+    if (data.storeId !== undefined) {
+      updates.push(`store_id = $${i++}`);
+      params.push(data.storeId || null);
+    }
+    if (data.latitude !== undefined) {
+      updates.push(`latitude = $${i++}`);
+      params.push(data.latitude);
+    }
+    if (data.longitude !== undefined) {
+      updates.push(`longitude = $${i++}`);
+      params.push(data.longitude);
+    }
+    if (data.isActive !== undefined) {
+      updates.push(`is_active = $${i++}`);
+      params.push(data.isActive);
+    }
+    if (data.isDefault) {
+      updates.push('is_default = true');
+    }
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      if (data.isDefault) {
+        await client.query(
+          `UPDATE store_locations SET is_default = false
+           WHERE is_default AND id <> $1
+             AND supermarket_id = (SELECT supermarket_id FROM store_locations WHERE id = $1)`,
+          [id]
+        );
+      }
+      params.push(id);
+      const result = await client.query<StoreLocationRow>(
+        `UPDATE store_locations SET ${updates.join(', ')} WHERE id = $${i} RETURNING *`,
+        params as any[]
+      );
+      await client.query('COMMIT');
+      return result.rows[0] ?? null;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -5,6 +5,17 @@ export { SupermarketRepository } from './SupermarketRepository';
 export { ScrapeLogRepository } from './ScrapeLogRepository';
 export { CanonicalProductRepository } from './CanonicalProductRepository';
 export { ExchangeRateRepository } from './ExchangeRateRepository';
+export { RateLimitRepository } from './RateLimitRepository';
+export { EnrichmentRepository } from './EnrichmentRepository';
+export { ScrapeErrorRepository } from './ScrapeErrorRepository';
+export { QuarantineRepository } from './QuarantineRepository';
+export { SnapshotRepository } from './SnapshotRepository';
+export { ProxyHealthRepository } from './ProxyHealthRepository';
+export { StoreLocationRepository } from './StoreLocationRepository';
+export { ScraperCategoryRepository } from './ScraperCategoryRepository';
+export { ScrapeScheduleRepository } from './ScrapeScheduleRepository';
+export { ScrapeJobRepository } from './ScrapeJobRepository';
+export { ScrapeEventRepository } from './ScrapeEventRepository';
 
 // Singleton instances — import these in services and routes
 import { ProductRepository } from './ProductRepository';
@@ -14,6 +25,17 @@ import { SupermarketRepository } from './SupermarketRepository';
 import { ScrapeLogRepository } from './ScrapeLogRepository';
 import { CanonicalProductRepository } from './CanonicalProductRepository';
 import { ExchangeRateRepository } from './ExchangeRateRepository';
+import { RateLimitRepository } from './RateLimitRepository';
+import { EnrichmentRepository } from './EnrichmentRepository';
+import { ScrapeErrorRepository } from './ScrapeErrorRepository';
+import { QuarantineRepository } from './QuarantineRepository';
+import { SnapshotRepository } from './SnapshotRepository';
+import { ProxyHealthRepository } from './ProxyHealthRepository';
+import { StoreLocationRepository } from './StoreLocationRepository';
+import { ScraperCategoryRepository } from './ScraperCategoryRepository';
+import { ScrapeScheduleRepository } from './ScrapeScheduleRepository';
+import { ScrapeJobRepository } from './ScrapeJobRepository';
+import { ScrapeEventRepository } from './ScrapeEventRepository';
 
 export const productRepository = new ProductRepository();
 export const productMappingRepository = new ProductMappingRepository();
@@ -22,3 +44,14 @@ export const supermarketRepository = new SupermarketRepository();
 export const scrapeLogRepository = new ScrapeLogRepository();
 export const canonicalProductRepository = new CanonicalProductRepository();
 export const exchangeRateRepository = new ExchangeRateRepository();
+export const rateLimitRepository = new RateLimitRepository();
+export const enrichmentRepository = new EnrichmentRepository();
+export const scrapeErrorRepository = new ScrapeErrorRepository();
+export const quarantineRepository = new QuarantineRepository();
+export const snapshotRepository = new SnapshotRepository();
+export const proxyHealthRepository = new ProxyHealthRepository();
+export const storeLocationRepository = new StoreLocationRepository();
+export const scraperCategoryRepository = new ScraperCategoryRepository();
+export const scrapeScheduleRepository = new ScrapeScheduleRepository();
+export const scrapeJobRepository = new ScrapeJobRepository();
+export const scrapeEventRepository = new ScrapeEventRepository();
@@ -0,0 +1,129 @@
+import { scrapeScheduleRepository, scrapeLogRepository, scrapeJobRepository } from '../repositories';
+import { ScrapeScheduleRow } from '../types/db.types';
+import { nextCronTime, parseCron, isValidTimezone } from '../utils/cron';
+import { cronLogger } from '../utils/logger';
+
+export interface SchedulerOptions {
+  /** How often due schedules are checked */
+  pollIntervalMs: number;
+  /** Running scrape logs without a heartbeat for this long don't block new runs (the process that owned them died) */
+  heartbeatTimeoutSeconds: number;
+}
+
+// Scheduled jobs yield to runs an admin asked for
+const SCHEDULE_PRIORITY = 0;
+
+/**
+ * Queues scraper runs from the cron schedules in scrape_schedules; worker processes run them.
+ *
+ * Every poll, due schedules are claimed (next_run_at moves to the following fire time) and a
+ * scrape job is queued for each. A schedule that fires while its supermarket still has a queued
+ * or running job, or a running scrape log, is skipped rather than stacked, and the skip is
+ * recorded on the schedule. Fire times missed while no scheduler was running are caught up
+ * with a single job.
+ */
+export class Scheduler {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(private readonly options: SchedulerOptions) {}
+
+  start(): void {
+    cronLogger.info(`Scheduler started (poll every ${this.options.pollIntervalMs / 1000}s)`);
+    this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    void this.poll();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearInterval(this.timer);
+    cronLogger.info('Scheduler stopped');
+  }
+
+  /**
+   * Check for due schedules once. Called by the poll timer; a poll still in progress is not overlapped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      const now = new Date();
+      for (const schedule of await scrapeScheduleRepository.findUnscheduled()) {
+        if (await this.isValid(schedule)) {
+          const nextRunAt = nextCronTime(schedule.cron_expression, schedule.timezone, now);
+          await scrapeScheduleRepository.initNextRun(schedule.id, nextRunAt);
+        }
+      }
+      for (const schedule of await scrapeScheduleRepository.findDue(now)) {
+        if (await this.isValid(schedule)) {
+          await this.fire(schedule, now);
+        }
+      }
+    } catch (error) {
+      cronLogger.error('Scheduler poll failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async fire(schedule: ScrapeScheduleRow, now: Date): Promise<void> {
+    const dueAt = new Date(schedule.next_run_at!);
+    // Continue from the fire time that was due; if further fire times were missed, run once and move on
+    let nextRunAt = nextCronTime(schedule.cron_expression, schedule.timezone, dueAt);
+    if (nextRunAt && nextRunAt <= now) {
+      nextRunAt = nextCronTime(schedule.cron_expression, schedule.timezone, now);
+    }
+
+    if (!(await scrapeScheduleRepository.claim(schedule.id, dueAt, nextRunAt))) {
+      return; // Another scheduler fired it
+    }
+
+    const supermarketId = String(schedule.supermarket_id);
+    const label = `schedule ${schedule.id} (supermarket ${supermarketId})`;
+    if (now.getTime() - dueAt.getTime() > 2 * this.options.pollIntervalMs) {
+      cronLogger.warn(`Catching up ${label}, which was due at ${dueAt.toISOString()}`);
+    }
+
+    if (
+      (await scrapeJobRepository.hasPending(supermarketId)) ||
+      (await scrapeLogRepository.isRunning(supermarketId, this.options.heartbeatTimeoutSeconds))
+    ) {
+      const message = 'Skipped: a run of this supermarket was still queued or in progress';
+      cronLogger.warn(`${label}: ${message}`);
+      await scrapeScheduleRepository.recordFiring(schedule.id, 'skipped', { message });
+      return;
+    }
+
+    const job = await scrapeJobRepository.enqueue({
+      supermarketId,
+      categoryIds: schedule.category_ids,
+      locationId: schedule.location_id,
+      priority: SCHEDULE_PRIORITY,
+      source: 'scheduler',
+      scheduleId: schedule.id,
+    });
+    await scrapeScheduleRepository.recordFiring(schedule.id, 'queued', { jobId: job.id });
+    cronLogger.info(`Queued job ${job.id} for ${label}, next run at ${nextRunAt?.toISOString() ?? 'never'}`);
+  }
+
+  /**
+   * Schedules with an invalid cron expression or timezone (possible only through direct SQL edits)
+   * are disabled instead of failing every poll
+   */
+  private async isValid(schedule: ScrapeScheduleRow): Promise<boolean> {
+    let problem: string | null = null;
+    try {
+      parseCron(schedule.cron_expression);
+      if (!isValidTimezone(schedule.timezone)) problem = `unknown timezone ${schedule.timezone}`;
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+    if (!problem) return true;
+
+    cronLogger.error(`Disabling schedule ${schedule.id}: ${problem}`);
+    await scrapeScheduleRepository.update(schedule.id, { isEnabled: false });
+    return false;
+  }
+}
@@ -64,6 +64,7 @@ export const sparAlbaniaConfig: Partial<ScraperConfig> = {
  * Prices are in Albanian Lek (ALL), shown as "LEKE" on the site.
  */
 export class SparAlbaniaScraper extends BaseScraper {
+  readonly supportsProductDetails = true;
   private readonly PRODUCTS_PER_PAGE = 16;
 
   constructor(config: ScraperConfig) {
@@ -142,7 +143,8 @@ export class SparAlbaniaScraper extends BaseScraper {
         this.logError(
           `Failed to scrape ${category.name} page ${pageNumber}`,
           pageUrl,
-          error as Error
+          error as Error,
+          pageNumber
         );
         // Continue to next page on error
         hasMorePages = false;
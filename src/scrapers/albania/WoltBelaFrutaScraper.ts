@@ -1,5 +1,5 @@
 import { ScraperConfig, CategoryConfig } from '../../types/scraper.types';
-import { WoltVenueScraper, woltAlbaniaBaseConfig } from './WoltVenueScraper';
+import { WoltScraper, woltConfig } from '../generic/WoltScraper';
 
 /**
  * Wolt Bela Fruta categories configuration
@@ -20,16 +20,14 @@ export const woltBelaFrutaCategories: CategoryConfig[] = [
 ];
 
 export const woltBelaFrutaConfig: Partial<ScraperConfig> = {
+  ...woltConfig,
   name: 'Wolt Bela Fruta',
   baseUrl: 'https://wolt.com/en/alb/tirana/venue/bela-fruta',
   categories: woltBelaFrutaCategories,
-  ...woltAlbaniaBaseConfig,
+  wolt: { venueSlug: 'bela-fruta', city: 'tirana', country: 'alb', currency: 'ALL' },
 };
 
-export class WoltBelaFrutaScraper extends WoltVenueScraper {
-  protected readonly venueSlug = 'bela-fruta';
-
-  constructor(config: ScraperConfig) {
-    super(config);
-  }
-}
+/**
+ * WoltScraper with the venue above built in, kept for existing supermarkets rows
+ */
+export class WoltBelaFrutaScraper extends WoltScraper {}
@@ -1,5 +1,5 @@
 import { ScraperConfig, CategoryConfig } from '../../types/scraper.types';
-import { WoltVenueScraper, woltAlbaniaBaseConfig } from './WoltVenueScraper';
+import { WoltScraper, woltConfig } from '../generic/WoltScraper';
 
 /**
  * Wolt Eco Market Kika categories configuration
@@ -28,16 +28,14 @@ export const woltEcoMarketKikaCategories: CategoryConfig[] = [
 ];
 
 export const woltEcoMarketKikaConfig: Partial<ScraperConfig> = {
+  ...woltConfig,
   name: 'Wolt Eco Market Kika',
   baseUrl: 'https://wolt.com/en/alb/tirana/venue/eco-market-kika',
   categories: woltEcoMarketKikaCategories,
-  ...woltAlbaniaBaseConfig,
+  wolt: { venueSlug: 'eco-market-kika', city: 'tirana', country: 'alb', currency: 'ALL' },
 };
 
-export class WoltEcoMarketKikaScraper extends WoltVenueScraper {
-  protected readonly venueSlug = 'eco-market-kika';
-
-  constructor(config: ScraperConfig) {
-    super(config);
-  }
-}
+/**
+ * WoltScraper with the venue above built in, kept for existing supermarkets rows
+ */
+export class WoltEcoMarketKikaScraper extends WoltScraper {}
@@ -0,0 +1,273 @@
+import { fetch, ProxyAgent, Dispatcher, Headers } from 'undici';
+import { BaseScraper } from './BaseScraper';
+import { retry } from '../../utils/retry';
+import { ScraperError, ParseError, classifyStatus } from '../../utils/errors';
+import { config } from '../../config/env';
+import { ScraperConfig } from '../../types/scraper.types';
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Request body - objects are sent as JSON, strings are sent as-is */
+  body?: unknown;
+  timeout?: number;
+}
+
+export interface GraphQLRequest {
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+}
+
+export interface ApiResponse {
+  status: number;
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Error thrown when an API request returns a non-2xx status.
+ * Classified by status code (403 blocked, 404 not-found, 429 rate-limited, 5xx transient).
+ */
+export class HttpError extends ScraperError {
+  constructor(
+    public readonly status: number,
+    public readonly url: string,
+    public readonly body: string,
+    retryAfterMs?: number
+  ) {
+    super(`HTTP ${status} for ${url}: ${body.substring(0, 200)}`, classifyStatus(status) ?? 'transient', url, retryAfterMs);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Abstract base class for scrapers that talk to JSON APIs directly.
+ * Shares retry, proxy, headers, cookies, jitter and error logging with BaseScraper
+ * but uses a plain HTTP client instead of launching Chromium.
+ */
+export abstract class ApiScraper extends BaseScraper {
+  protected cookieJar: Map<string, string> = new Map();
+  private dispatcher?: Dispatcher;
+
+  constructor(config: ScraperConfig) {
+    super(config);
+
+    for (const cookie of config.cookies ?? []) {
+      this.cookieJar.set(cookie.name, cookie.value);
+    }
+  }
+
+  /**
+   * Initialize the HTTP client - no browser is launched
+   */
+  async initialize(): Promise<void> {
+    this.logger.info(`Initializing ${this.config.name} API scraper...`);
+    this.startTime = Date.now();
+
+    const proxyUrl = await this.acquireProxy();
+    if (proxyUrl) {
+      this.dispatcher = new ProxyAgent(proxyUrl);
+      this.logger.info(`Using proxy: ${this.parseProxyUrl(proxyUrl).server}`);
+    }
+
+    await this.setupSession();
+
+    this.logger.info(`${this.config.name} API scraper initialized (no browser required)`);
+  }
+
+  /**
+   * Hook for establishing a session (auth tokens, delivery zone, etc.)
+   * Override in subclasses that need it
+   */
+  protected async setupSession(): Promise<void> {
+    // No session setup by default
+  }
+
+  /**
+   * Perform a single HTTP request without retries.
+   * Throws HttpError for non-2xx responses.
+   */
+  protected async request(url: string, options: ApiRequestOptions = {}): Promise<ApiResponse> {
+    const requestUrl = this.buildUrl(url, options.query);
+
+    const headers: Record<string, string> = {
+      'User-Agent': this.getUserAgent(),
+      'Accept': 'application/json',
+      ...this.config.headers,
+      ...options.headers,
+    };
+
+    let body: string | undefined;
+    if (options.body !== undefined) {
+      if (typeof options.body === 'string') {
+        body = options.body;
+      } else {
+        body = JSON.stringify(options.body);
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+      }
+    }
+
+    if (this.cookieJar.size > 0) {
+      headers['Cookie'] = Array.from(this.cookieJar.entries())
+        .map(([name, value]) => `${name}=${value}`)
+        .join('; ');
+    }
+
+    const method = options.method || 'GET';
+    this.circuitBreaker.check();
+    this.logger.debug(`${method} ${requestUrl}`);
+
+    const replayed = this.networkFixtures?.mode === 'replay'
+      ? this.networkFixtures.lookup(method, requestUrl, body)
+      : undefined;
+    if (this.networkFixtures?.mode === 'replay' && !replayed) {
+      throw new Error(`No fixture for ${method} ${requestUrl}`);
+    }
+
+    let status: number;
+    let responseHeaders: Headers;
+    let text: string;
+
+    if (replayed) {
+      status = replayed.status;
+      responseHeaders = new Headers(replayed.headers);
+      text = Buffer.from(replayed.body, 'base64').toString('utf-8');
+    } else {
+      await this.throttle(requestUrl);
+      const response = await fetch(requestUrl, {
+        method,
+        headers,
+        body,
+        dispatcher: this.dispatcher,
+        signal: AbortSignal.timeout(options.timeout ?? config.scraper.timeout),
+      });
+
+      status = response.status;
+      responseHeaders = response.headers;
+      text = await response.text();
+      this.networkLog.add({ method, url: requestUrl, status });
+
+      this.networkFixtures?.record({
+        method,
+        url: requestUrl,
+        requestBody: body,
+        status,
+        headers: Object.fromEntries(responseHeaders.entries()),
+        body: Buffer.from(text, 'utf-8').toString('base64'),
+      });
+    }
+
+    this.storeCookies(responseHeaders.getSetCookie());
+
+    const error = this.recordResponse(status, requestUrl, responseHeaders.get('retry-after'));
+    if (status < 200 || status >= 300) {
+      throw new HttpError(status, requestUrl, text, error?.retryAfterMs);
+    }
+
+    return {
+      status,
+      url: requestUrl,
+      headers: responseHeaders,
+      body: text,
+    };
+  }
+
+  /**
+   * Request a URL with retry logic and parse the JSON response.
+   * `check` may throw for a 2xx response whose body reports an error, which is retried too.
+   */
+  protected async fetchJson<T>(
+    url: string,
+    options: ApiRequestOptions = {},
+    check?: (data: T) => void
+  ): Promise<T> {
+    return retry(
+      async () => {
+        const response = await this.request(url, options);
+        let data: T;
+        try {
+          data = JSON.parse(response.body) as T;
+        } catch {
+          throw new ParseError(
+            `Failed to parse response from ${response.url}: ${response.body.substring(0, 200)}`,
+            response.url
+          );
+        }
+        check?.(data);
+        return data;
+      },
+      {
+        maxRetries: this.config.maxRetries,
+        initialDelay: 1000,
+        onRetry: (attempt, error) => {
+          this.logger.warn(`Request retry ${attempt} for ${url}:`, error.message);
+          this.emitRetry(attempt, error);
+        },
+      }
+    );
+  }
+
+  /**
+   * POST a GraphQL query with retry logic. GraphQL servers report errors with status 200,
+   * so a response listing errors is retried like a failed request.
+   */
+  protected async fetchGraphQL<T extends { errors?: Array<{ message: string }> }>(
+    url: string,
+    body: GraphQLRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<T> {
+    return this.fetchJson<T>(url, { ...options, method: 'POST', body }, data => {
+      if (data.errors && data.errors.length > 0) {
+        throw new Error(data.errors[0].message);
+      }
+    });
+  }
+
+  /**
+   * Resolve a relative URL against baseUrl and append query parameters
+   */
+  private buildUrl(url: string, queryParams?: ApiRequestOptions['query']): string {
+    const resolved = new URL(url, this.config.baseUrl);
+
+    for (const [key, value] of Object.entries(queryParams ?? {})) {
+      if (value !== undefined) {
+        resolved.searchParams.set(key, String(value));
+      }
+    }
+
+    return resolved.toString();
+  }
+
+  /**
+   * Keep cookies set by the server for subsequent requests
+   */
+  private storeCookies(setCookieHeaders: string[]): void {
+    for (const header of setCookieHeaders) {
+      const [pair] = header.split(';');
+      const separatorIndex = pair.indexOf('=');
+      if (separatorIndex <= 0) continue;
+
+      const name = pair.substring(0, separatorIndex).trim();
+      const value = pair.substring(separatorIndex + 1).trim();
+      this.cookieJar.set(name, value);
+    }
+  }
+
+  /**
+   * Close the HTTP client and cleanup
+   */
+  async cleanup(): Promise<void> {
+    this.logger.info(`Cleaning up ${this.config.name} API scraper...`);
+
+    if (this.dispatcher) {
+      await this.dispatcher.close();
+      this.dispatcher = undefined;
+    }
+
+    const stats = this.getStats();
+    this.logger.info(`${this.config.name} scraping completed:`, stats);
+  }
+}
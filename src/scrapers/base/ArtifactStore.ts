@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fetch } from 'undici';
+import { config } from '../../config/env';
+
+export interface StoredArtifact {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Storage for debugging artifacts (failure snapshots).
+ * Keys are slash-separated paths starting with the run ID, e.g. "run-a1b2c3/dairy-1700000000000/page.html".
+ */
+export interface ArtifactStore {
+  put(key: string, body: Buffer | string, contentType: string): Promise<void>;
+  /** Returns null if the artifact does not exist */
+  get(key: string): Promise<StoredArtifact | null>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+};
+
+/**
+ * Artifacts on the local filesystem - the default, fine for local runs
+ */
+export class LocalArtifactStore implements ArtifactStore {
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, body: Buffer | string, _contentType?: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredArtifact | null> {
+    try {
+      const filePath = this.resolve(key);
+      const body = await fs.promises.readFile(filePath);
+      return { body, contentType: CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid artifact key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export interface S3ArtifactStoreOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials (STS, ECS task role) */
+  sessionToken?: string;
+  /** Custom endpoint for S3-compatible services (MinIO, R2, ...). Defaults to AWS. */
+  endpoint?: string;
+}
+
+/**
+ * Artifacts in an S3-compatible bucket, using path-style requests signed with AWS Signature V4.
+ * Use this on ECS, where the local filesystem disappears with the task.
+ * Credentials are never looked up from the environment or the task role - pass them in.
+ */
+export class S3ArtifactStore implements ArtifactStore {
+  private readonly endpoint: string;
+
+  constructor(private readonly options: S3ArtifactStoreOptions) {
+    this.endpoint = (options.endpoint || `https://s3.${options.region}.amazonaws.com`).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer | string, contentType: string): Promise<void> {
+    const payload = typeof body === 'string' ? Buffer.from(body, 'utf-8') : body;
+    const response = await this.send('PUT', key, payload, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<StoredArtifact | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with HTTP ${response.status}`);
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
+  private send(method: 'GET' | 'PUT', key: string, payload?: Buffer, contentType?: string) {
+    const url = new URL(`${this.endpoint}/${this.options.bucket}/${key.split('/').map(encodeRfc3986).join('/')}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(payload ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+    if (this.options.sessionToken) headers['x-amz-security-token'] = this.options.sessionToken;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = hmac(`AWS4${this.options.secretAccessKey}`, date);
+    for (const part of [this.options.region, 's3', 'aws4_request']) {
+      signingKey = hmac(signingKey, part);
+    }
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      body: payload,
+      headers: {
+        ...requestHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+    });
+  }
+}
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Build the artifact store selected by ARTIFACT_STORE
+ */
+export function createArtifactStore(): ArtifactStore {
+  const { store, dir, s3 } = config.artifacts;
+
+  if (store === 's3') {
+    return new S3ArtifactStore({
+      bucket: s3.bucket!,
+      region: s3.region,
+      endpoint: s3.endpoint,
+      accessKeyId: s3.accessKeyId!,
+      secretAccessKey: s3.secretAccessKey!,
+      sessionToken: s3.sessionToken,
+    });
+  }
+
+  return new LocalArtifactStore(dir);
+}
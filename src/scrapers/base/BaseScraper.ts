@@ -1,6 +1,7 @@
-import { Browser, Page, chromium } from 'playwright';
+import { APIResponse, BrowserContext, Page } from 'playwright';
 import { createPrefixedLogger } from '../../utils/logger';
-import { retry, sleep } from '../../utils/retry';
+import { retry, sleep, CircuitBreaker } from '../../utils/retry';
+import { ScraperError, CircuitOpenError, ScrapeCancelledError, errorFromStatus, classifyError } from '../../utils/errors';
 import { config } from '../../config/env';
 import {
   ScraperConfig,
@@ -8,17 +9,36 @@ import {
   ScrapeResult,
   ScrapeError,
   OnPageScrapedCallback,
+  OnCategoryCompletedCallback,
   CategoryConfig,
+  DiscoveredCategory,
+  ScrapeCheckpoint,
+  FailureSnapshot,
+  OnSnapshotCapturedCallback,
+  OnProgressCallback,
+  ScrapeProgressEvent,
 } from '../../types/scraper.types';
+import { NetworkFixtures } from './NetworkFixtures';
+import { RateLimiter } from './RateLimiter';
+import { ArtifactStore } from './ArtifactStore';
+import { NetworkLog } from './NetworkLog';
+import { ProxySession, findProxies, proxyId } from './ProxyPool';
+import { PooledContextOptions, browserPool } from './BrowserPool';
+import { AsyncLocalStorage } from 'async_hooks';
 import path from 'path';
 import fs from 'fs';
 
+// The constructor's config parameter shadows the env config
+const { circuitBreakerThreshold } = config.scraper;
+const { networkLogSize } = config.artifacts;
+
 /**
  * Abstract base class for all scrapers
  * Provides common functionality for browser management, error handling, and logging
  */
 export abstract class BaseScraper {
-  protected browser: Browser | null = null;
+  /** Browser context from the shared pool, see launchBrowser() */
+  protected context: BrowserContext | null = null;
   protected page: Page | null = null;
   protected config: ScraperConfig;
   protected startTime: number = 0;
@@ -26,13 +46,30 @@ export abstract class BaseScraper {
   protected productsFailed: number = 0;
   protected errors: ScrapeError[] = [];
   protected onPageScraped?: OnPageScrapedCallback;
+  protected onCategoryCompleted?: OnCategoryCompletedCallback;
+  protected onSnapshotCaptured?: OnSnapshotCapturedCallback;
+  protected onProgress?: OnProgressCallback;
+  protected checkpoint?: ScrapeCheckpoint;
   protected logger: ReturnType<typeof createPrefixedLogger>;
 
   protected runId?: string;
+  protected networkFixtures?: NetworkFixtures;
+  protected rateLimiter?: RateLimiter;
+  protected circuitBreaker: CircuitBreaker;
+  protected artifactStore?: ArtifactStore;
+  protected networkLog = new NetworkLog(networkLogSize);
+  protected proxySession?: ProxySession;
+  protected cancelSignal?: AbortSignal;
+  /** Category being scraped in the current async context - categories may run concurrently */
+  private currentCategory = new AsyncLocalStorage<CategoryConfig>();
+  /** page.request belongs to the context, so fixtures and hooks are applied once per context */
+  private fixtureContexts = new WeakSet<BrowserContext>();
+  private hookedContexts = new WeakSet<BrowserContext>();
 
   constructor(config: ScraperConfig) {
     this.config = config;
     this.logger = createPrefixedLogger(config.name);
+    this.circuitBreaker = new CircuitBreaker(circuitBreakerThreshold);
   }
 
   /**
@@ -49,7 +86,123 @@ export abstract class BaseScraper {
    * This allows incremental saving of products
    */
   setOnPageScrapedCallback(callback: OnPageScrapedCallback): void {
-    this.onPageScraped = callback;
+    // Every paginated scraper calls this after each page, which makes it the place to stop between pages
+    this.onPageScraped = async (products, pageInfo) => {
+      const savedCount = await callback(products, pageInfo);
+      this.throwIfCancelled();
+      return savedCount;
+    };
+  }
+
+  /**
+   * Set callback to be called after each category is fully scraped
+   */
+  setOnCategoryCompletedCallback(callback: OnCategoryCompletedCallback): void {
+    this.onCategoryCompleted = callback;
+  }
+
+  /**
+   * Set callback to be called after a failure snapshot has been stored
+   */
+  setOnSnapshotCapturedCallback(callback: OnSnapshotCapturedCallback): void {
+    this.onSnapshotCaptured = callback;
+  }
+
+  /**
+   * Set callback to receive live progress events (categories, retries, errors)
+   */
+  setOnProgressCallback(callback: OnProgressCallback): void {
+    this.onProgress = callback;
+  }
+
+  /**
+   * Report progress. Never throws - progress reporting must not break a run.
+   */
+  protected emitProgress(event: ScrapeProgressEvent): void {
+    try {
+      this.onProgress?.(event);
+    } catch (error) {
+      this.logger.warn(`Progress callback failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Report a retry of the request in progress; pass to retry() as onRetry
+   */
+  protected emitRetry(attempt: number, error: Error): void {
+    this.emitProgress({
+      type: 'retry',
+      attempt,
+      message: error.message,
+      categoryId: this.currentCategory.getStore()?.id,
+    });
+  }
+
+  /**
+   * Resume from a checkpoint - completed categories are skipped and
+   * paginated scrapers can continue after the last saved page
+   */
+  setCheckpoint(checkpoint: ScrapeCheckpoint): void {
+    this.checkpoint = checkpoint;
+  }
+
+  /**
+   * Get the page number to start a category from when resuming (1 if not resuming)
+   */
+  protected getResumePage(categoryId: string): number {
+    const lastPage = this.checkpoint?.lastPages[categoryId];
+    return lastPage ? lastPage + 1 : 1;
+  }
+
+  /**
+   * Record network responses to, or replay them from, a fixture directory.
+   * Must be called before initialize().
+   */
+  setNetworkFixtures(fixtures: NetworkFixtures): void {
+    this.networkFixtures = fixtures;
+    this.logger.info(`Network fixtures enabled (${fixtures.mode}): ${fixtures.dir}`);
+  }
+
+  /**
+   * Share a per-host request budget with other scrapers.
+   * Must be called before initialize().
+   */
+  setRateLimiter(rateLimiter: RateLimiter): void {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Pick proxies from a pool instead of the single proxy matching SCRAPER_PROXY_CONFIG.
+   * Must be called before initialize().
+   */
+  setProxySession(session: ProxySession): void {
+    this.proxySession = session;
+    this.logger.info(`Proxy pool: ${session.proxies.length} proxies, rotation ${session.rotation}`);
+  }
+
+  /**
+   * Store failure snapshots (HTML, screenshot, network log) when a category fails or is empty.
+   * Without a store no snapshots are taken.
+   */
+  setArtifactStore(store: ArtifactStore): void {
+    this.artifactStore = store;
+  }
+
+  /**
+   * Stop the run once the signal is aborted. Checked between pages and categories;
+   * the category in progress is not marked completed, so a resumed run scrapes it again.
+   */
+  setCancelSignal(signal: AbortSignal): void {
+    this.cancelSignal = signal;
+  }
+
+  /**
+   * Throw ScrapeCancelledError if the run has been cancelled
+   */
+  protected throwIfCancelled(): void {
+    if (this.cancelSignal?.aborted) {
+      throw new ScrapeCancelledError();
+    }
   }
 
   /**
@@ -68,6 +221,11 @@ export abstract class BaseScraper {
    */
   abstract scrapeProductDetails(url: string): Promise<ProductData>;
 
+  /**
+   * Whether scrapeProductDetails is implemented - the enrichment job skips scrapers without it
+   */
+  readonly supportsProductDetails: boolean = false;
+
   /**
    * Cleanup resources - must be called after scraping
    */
@@ -77,6 +235,7 @@ export abstract class BaseScraper {
    * Scrape the product list from all category pages.
    * Default implementation using template method pattern.
    * Iterates over all categories and calls scrapeCategory for each.
+   * Scrapers that implement scrapeCategoryOnPage run up to concurrentPages categories at once.
    * Can be overridden if special handling is needed.
    */
   async scrapeProductList(): Promise<ProductData[]> {
@@ -86,36 +245,224 @@ export abstract class BaseScraper {
       `Starting to scrape ${this.config.name} (${this.config.categories.length} categories)...`
     );
 
-    for (const category of this.config.categories) {
+    const completedCategories = new Set(this.checkpoint?.completedCategories ?? []);
+    const pending = this.config.categories.filter(category => {
+      if (!completedCategories.has(category.id)) return true;
+      this.logger.info(`Skipping category already completed in checkpoint: ${category.name} (${category.id})`);
+      return false;
+    });
+
+    this.emitProgress({
+      type: 'categories_planned',
+      categories: this.config.categories.map(category => ({ id: category.id, name: category.name })),
+      completedCategories: [...completedCategories],
+    });
+
+    const concurrency = Math.min(this.config.concurrentPages, pending.length);
+
+    // Switching proxies relaunches the browser, which concurrent worker pages cannot survive
+    if (this.scrapeCategoryOnPage && this.page && concurrency > 1 && !this.proxySession?.rotates) {
+      await this.scrapeCategoriesConcurrently(pending, concurrency, allProducts);
+    } else {
+      for (const [index, category] of pending.entries()) {
+        if (index > 0 && this.proxySession?.rotation === 'per-category') {
+          await this.switchProxy();
+        }
+        await this.runSequentialCategory(category, allProducts);
+      }
+    }
+
+    this.logger.info(`Total products scraped: ${allProducts.length}`);
+    return allProducts;
+  }
+
+  /**
+   * Scrape a category on this.page. With on-block proxy rotation, an open circuit
+   * breaker switches to another proxy and the category is tried again there.
+   */
+  private async runSequentialCategory(category: CategoryConfig, allProducts: ProductData[]): Promise<void> {
+    for (;;) {
+      try {
+        this.throwIfCancelled();
+        // Stop the whole run once the site keeps blocking us
+        this.circuitBreaker.check();
+        await this.runCategory(category, this.page, () => this.scrapeCategory(category), allProducts);
+        return;
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError) || this.proxySession?.rotation !== 'on-block') throw error;
+        if (!(await this.switchProxy(error))) throw error;
+        this.logger.warn(`Blocked while scraping ${category.name}, retrying with another proxy`);
+      }
+    }
+  }
+
+  /**
+   * Scrape a single category on the given page.
+   * Implement this (and make scrapeCategory delegate to it with this.page) to opt in
+   * to concurrent category scraping - each worker gets its own page.
+   */
+  protected scrapeCategoryOnPage?(category: CategoryConfig, page: Page): Promise<ProductData[]>;
+
+  /**
+   * Crawl the retailer's category tree and return the categories a run would scrape.
+   * Optional - implement it for sites that expose their category tree, so renumbered or
+   * new sections show up in `npm run categories:discover` instead of being silently missed.
+   * Called after initialize().
+   */
+  discoverCategories?(): Promise<DiscoveredCategory[]>;
+
+  /**
+   * Run categories on a pool of pages that share this.page's browser context,
+   * so cookies and session state established during initialize() carry over.
+   */
+  private async scrapeCategoriesConcurrently(
+    categories: CategoryConfig[],
+    concurrency: number,
+    allProducts: ProductData[]
+  ): Promise<void> {
+    this.logger.info(`Scraping ${categories.length} categories with ${concurrency} concurrent pages`);
+
+    const queue = [...categories];
+    const workerPages: Page[] = [this.page!];
+    for (let i = 1; i < concurrency; i++) {
+      workerPages.push(await this.createWorkerPage());
+    }
+
+    const worker = async (page: Page): Promise<void> => {
+      let category: CategoryConfig | undefined;
+      while ((category = queue.shift())) {
+        this.throwIfCancelled();
+        this.circuitBreaker.check();
+        const current = category;
+        await this.runCategory(current, page, () => this.scrapeCategoryOnPage!(current, page), allProducts);
+      }
+    };
+
+    try {
+      const results = await Promise.allSettled(workerPages.map(page => worker(page)));
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failure) throw failure.reason;
+    } finally {
+      await Promise.all(workerPages.slice(1).map(page => page.close().catch(() => undefined)));
+    }
+  }
+
+  /**
+   * Scrape one category, record the result and notify the checkpoint callback.
+   * Errors are logged and swallowed except for an open circuit breaker.
+   * A failure snapshot is taken of the category's page if it fails or yields no products.
+   */
+  private async runCategory(
+    category: CategoryConfig,
+    page: Page | null,
+    scrape: () => Promise<ProductData[]>,
+    allProducts: ProductData[]
+  ): Promise<void> {
+    await this.currentCategory.run(category, async () => {
       try {
         this.logger.info(`Scraping category: ${category.name} (${category.id})`);
+        this.emitProgress({ type: 'category_started', categoryId: category.id, categoryName: category.name });
 
-        const categoryProducts = await this.scrapeCategory(category);
+        const categoryProducts = await scrape();
         allProducts.push(...categoryProducts);
+        // Scrapers that catch errors per page swallow the cancellation and return what they have
+        this.throwIfCancelled();
 
         this.logger.info(
           `Scraped ${categoryProducts.length} products from ${category.name}`
         );
+        this.emitProgress({
+          type: 'category_finished',
+          categoryId: category.id,
+          categoryName: category.name,
+          products: categoryProducts.length,
+        });
+
+        if (categoryProducts.length === 0) {
+          await this.captureFailureSnapshot(category, page, 'empty');
+        }
+
+        if (this.onCategoryCompleted) {
+          await this.onCategoryCompleted(category);
+        }
 
         // Wait between categories
         await this.waitBetweenRequests();
       } catch (error) {
+        if (error instanceof CircuitOpenError || error instanceof ScrapeCancelledError) throw error;
         this.logError(
           `Failed to scrape category: ${category.name}`,
           undefined,
           error as Error
         );
+        await this.captureFailureSnapshot(category, page, 'error', error as Error);
+      }
+    });
+  }
+
+  /**
+   * Store the page HTML, a screenshot and the recent network log for a failed or empty category.
+   * Never throws - a broken snapshot must not hide the original problem.
+   */
+  protected async captureFailureSnapshot(
+    category: CategoryConfig,
+    page: Page | null,
+    reason: FailureSnapshot['reason'],
+    error?: Error
+  ): Promise<void> {
+    const store = this.artifactStore;
+    if (!store) return;
+
+    const prefix = `${this.runId ?? 'no-run'}/${category.id.replace(/[^\w-]/g, '_')}-${Date.now()}`;
+    const snapshot: FailureSnapshot = {
+      categoryId: category.id,
+      categoryName: category.name,
+      reason,
+      errorMessage: error?.message,
+      artifacts: {},
+    };
+
+    const save = async (
+      artifact: keyof FailureSnapshot['artifacts'],
+      file: string,
+      contentType: string,
+      content: () => Promise<Buffer | string>
+    ): Promise<void> => {
+      try {
+        const key = `${prefix}/${file}`;
+        await store.put(key, await content(), contentType);
+        snapshot.artifacts[artifact] = key;
+      } catch (err) {
+        this.logger.warn(`Failed to store ${artifact} snapshot for ${category.name}`, {
+          error: (err as Error).message,
+        });
       }
+    };
+
+    if (page && !page.isClosed()) {
+      await save('html', 'page.html', 'text/html; charset=utf-8', () => page.content());
+      await save('screenshot', 'screenshot.png', 'image/png', () =>
+        page.screenshot({ fullPage: true, timeout: 15000 })
+      );
     }
+    await save('network', 'network.json', 'application/json', async () =>
+      JSON.stringify(this.networkLog, null, 2)
+    );
 
-    this.logger.info(`Total products scraped: ${allProducts.length}`);
-    return allProducts;
+    if (Object.keys(snapshot.artifacts).length === 0) return;
+    this.logger.info(`Failure snapshot stored for ${category.name} (${reason}): ${prefix}`);
+
+    if (this.onSnapshotCaptured) {
+      await this.onSnapshotCaptured(snapshot).catch((err: Error) => {
+        this.logger.warn('Failed to record failure snapshot', { error: err.message });
+      });
+    }
   }
 
   /**
    * Parse proxy URL into Playwright proxy config
    */
-  private parseProxyUrl(proxyUrl: string): { server: string; username?: string; password?: string } {
+  protected parseProxyUrl(proxyUrl: string): { server: string; username?: string; password?: string } {
     const url = new URL(proxyUrl);
     return {
       server: `${url.protocol}//${url.host}`,
@@ -126,76 +473,113 @@ export abstract class BaseScraper {
 
   /**
    * Get the proxy URL for this supermarket (if configured)
-   * Matches supermarket name against proxy config keys (partial, case-insensitive)
+   * Uses the proxy session if one is set, otherwise the first proxy whose config key
+   * is part of the supermarket name (partial, case-insensitive)
    */
-  private getProxyUrl(): string | undefined {
-    const proxyConfig = config.scraper.proxyConfig;
-    if (proxyConfig.size === 0) return undefined;
-
-    const supermarketName = this.config.name.toLowerCase();
+  protected getProxyUrl(): string | undefined {
+    if (this.proxySession) return this.proxySession.currentProxy;
+    return findProxies(config.scraper.proxyConfig, this.config.name)[0];
+  }
 
-    // Find matching proxy config entry
-    for (const [key, url] of proxyConfig.entries()) {
-      if (supermarketName.includes(key)) {
-        return url;
-      }
+  /**
+   * Pick the first proxy of the run from the proxy session, if not done yet.
+   * Call this when launching the browser or HTTP client.
+   */
+  protected async acquireProxy(): Promise<string | undefined> {
+    if (this.proxySession && !this.proxySession.currentProxy) {
+      await this.proxySession.start();
     }
-    return undefined;
+    return this.getProxyUrl();
   }
 
   /**
-   * Launch browser with configured options
+   * Move to another proxy of the session. Proxies are fixed at launch, so the scraper
+   * is cleaned up and initialized again, which also redoes session setup through the new proxy.
+   * Returns false if there is no session or no other usable proxy.
    */
-  protected async launchBrowser(): Promise<void> {
-    this.logger.info(`Launching browser for ${this.config.name}`);
+  protected async switchProxy(error?: unknown): Promise<boolean> {
+    if (!this.proxySession || !(await this.proxySession.rotate(error))) return false;
+
+    this.logger.info(`Switching to proxy ${proxyId(this.proxySession.currentProxy!)}`);
+    const startTime = this.startTime;
+    await this.cleanup();
+    this.circuitBreaker.reset();
+    await this.initialize();
+    this.startTime = startTime;
+    return true;
+  }
 
-    const launchOptions: Parameters<typeof chromium.launch>[0] = {
-      headless: config.scraper.headless,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-blink-features=AutomationControlled',
-      ],
-    };
+  /**
+   * Report how the current proxy did at the end of the run (an error that ended the run, or none)
+   */
+  async releaseProxy(error?: unknown): Promise<void> {
+    await this.proxySession?.release(error);
+  }
 
-    // Add proxy if configured for this supermarket
-    const proxyUrl = this.getProxyUrl();
-    if (proxyUrl) {
-      launchOptions.proxy = this.parseProxyUrl(proxyUrl);
-      this.logger.info(`Using proxy: ${launchOptions.proxy.server}`);
+  /**
+   * Get a browser context from the shared browser pool, with the configured user agent,
+   * headers, cookies and proxy. Options override these and pick how the browser is launched.
+   */
+  protected async launchBrowser(options: PooledContextOptions = {}): Promise<void> {
+    this.logger.info(`Acquiring browser context for ${this.config.name}`);
+
+    const proxyUrl = await this.acquireProxy();
+    const proxy = proxyUrl ? this.parseProxyUrl(proxyUrl) : undefined;
+    if (proxy) {
+      this.logger.info(`Using proxy: ${proxy.server}`);
     }
 
-    this.browser = await chromium.launch(launchOptions);
+    this.context = await browserPool.acquire({
+      userAgent: this.getUserAgent(),
+      viewport: { width: 1920, height: 1080 },
+      extraHTTPHeaders: this.config.headers,
+      cookies: this.config.cookies,
+      proxy,
+      ...options,
+    });
 
-    this.logger.info(`Browser launched for ${this.config.name}`);
+    this.logger.info(`Browser context ready for ${this.config.name}`);
   }
 
   /**
-   * Create a new page with configured settings
+   * Create a new page in the scraper's browser context
    */
   protected async createPage(): Promise<Page> {
-    if (!this.browser) {
+    if (!this.context) {
       throw new Error('Browser not initialized. Call launchBrowser() first.');
     }
 
-    const page = await this.browser.newPage({
-      userAgent: this.getUserAgent(),
-      viewport: { width: 1920, height: 1080 },
+    const page = await this.context.newPage();
+
+    await this.applyNetworkFixtures(page);
+    this.applyRequestHooks(page);
+    this.networkLog.attach(page);
+
+    // Handle console messages
+    page.on('console', (msg) => {
+      if (msg.type() === 'error') {
+        this.logger.debug(`Browser console error: ${msg.text()}`);
+      }
     });
 
-    // Set extra headers if configured
-    if (this.config.headers) {
-      await page.setExtraHTTPHeaders(this.config.headers);
-    }
+    return page;
+  }
 
-    // Set cookies if configured
-    if (this.config.cookies) {
-      const context = page.context();
-      await context.addCookies(this.config.cookies);
+  /**
+   * Open another page in this.page's browser context for concurrent scraping.
+   * Fixtures and request hooks are applied like in createPage(), in case a scraper
+   * created this.page in a context of its own.
+   */
+  protected async createWorkerPage(): Promise<Page> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
     }
 
-    // Handle console messages
+    const page = await this.page.context().newPage();
+    await this.applyNetworkFixtures(page);
+    this.applyRequestHooks(page);
+    this.networkLog.attach(page);
+
     page.on('console', (msg) => {
       if (msg.type() === 'error') {
         this.logger.debug(`Browser console error: ${msg.text()}`);
@@ -205,6 +589,75 @@ export abstract class BaseScraper {
     return page;
   }
 
+  /**
+   * Route page traffic through network fixtures if enabled.
+   * Scrapers that create their own browser context must call this themselves.
+   */
+  protected async applyNetworkFixtures(page: Page): Promise<void> {
+    if (!this.networkFixtures || this.fixtureContexts.has(page.context())) return;
+    this.fixtureContexts.add(page.context());
+
+    await this.networkFixtures.attachToContext(page.context());
+    this.networkFixtures.wrapRequestContext(page.request);
+  }
+
+  /**
+   * Hook direct API calls made through page.request into the rate limiter and circuit breaker.
+   * Scrapers that create their own browser context must call this themselves.
+   */
+  protected applyRequestHooks(page: Page): void {
+    if (this.hookedContexts.has(page.context())) return;
+    this.hookedContexts.add(page.context());
+
+    const request = page.request;
+    type RequestMethod = (url: string | { url(): string }, options?: unknown) => Promise<APIResponse>;
+
+    for (const method of ['get', 'post', 'put', 'delete', 'fetch'] as const) {
+      const original = (request[method] as RequestMethod).bind(request);
+      const hooked: RequestMethod = async (url, options) => {
+        const requestUrl = typeof url === 'string' ? url : url.url();
+        this.circuitBreaker.check();
+        await this.throttle(requestUrl);
+
+        const requestMethod = (options as { method?: string } | undefined)?.method?.toUpperCase()
+          ?? (method === 'fetch' ? 'GET' : method.toUpperCase());
+        let response: APIResponse;
+        try {
+          response = await original(url, options);
+        } catch (error) {
+          this.networkLog.add({ method: requestMethod, url: requestUrl, failure: (error as Error).message });
+          throw error;
+        }
+        this.networkLog.add({ method: requestMethod, url: requestUrl, status: response.status() });
+        this.recordResponse(response.status(), requestUrl, response.headers()['retry-after']);
+        return response;
+      };
+      (request as unknown as Record<string, RequestMethod>)[method] = hooked;
+    }
+  }
+
+  /**
+   * Feed a response status into the circuit breaker.
+   * Returns the typed error for failed responses so callers can throw it.
+   */
+  protected recordResponse(status: number, url: string, retryAfter?: string | null): ScraperError | undefined {
+    const error = errorFromStatus(status, url, retryAfter);
+    if (error) {
+      this.circuitBreaker.recordFailure(error);
+    } else {
+      this.circuitBreaker.recordSuccess();
+    }
+    return error;
+  }
+
+  /**
+   * Wait for the shared per-host rate limiter before sending a request
+   */
+  protected async throttle(url: string): Promise<void> {
+    if (!this.rateLimiter) return;
+    await this.rateLimiter.acquire(url, this.config.rateLimit);
+  }
+
   /**
    * Get a random user agent or the configured one
    */
@@ -228,11 +681,18 @@ export abstract class BaseScraper {
 
     await retry(
       async () => {
+        this.circuitBreaker.check();
+        await this.throttle(url);
         this.logger.debug(`Navigating to: ${url}`);
-        await this.page!.goto(url, {
+        const response = await this.page!.goto(url, {
           waitUntil: 'domcontentloaded',
           timeout: config.scraper.timeout,
         });
+
+        if (response) {
+          const error = this.recordResponse(response.status(), url, response.headers()['retry-after']);
+          if (error) throw error;
+        }
         await sleep(this.config.waitTimes.pageLoad);
       },
       {
@@ -240,6 +700,7 @@ export abstract class BaseScraper {
         initialDelay: 2000,
         onRetry: (attempt, error) => {
           this.logger.warn(`Navigation retry ${attempt} for ${url}:`, error.message);
+          this.emitRetry(attempt, error);
         },
       }
     );
@@ -256,6 +717,7 @@ export abstract class BaseScraper {
    * Wait between requests to avoid rate limiting
    */
   protected async waitBetweenRequests(): Promise<void> {
+    this.throwIfCancelled();
     const delay = this.config.waitTimes.betweenRequests;
     // Add random jitter to avoid pattern detection
     const jitter = Math.random() * 500;
@@ -375,23 +837,39 @@ export abstract class BaseScraper {
       initialDelay: 1000,
       onRetry: (attempt, error) => {
         this.logger.warn(`${context} - Retry ${attempt}:`, error.message);
+        this.emitRetry(attempt, error);
       },
     });
   }
 
   /**
-   * Log an error for later reporting
+   * Log an error for later reporting.
+   * The category is taken from the current runCategory context; pass the page number if known.
    */
-  protected logError(message: string, productUrl?: string, error?: Error): void {
+  protected logError(message: string, productUrl?: string, error?: Error, pageNumber?: number): void {
+    // Page loops that catch every error also catch the cancellation - it is not a scrape error
+    if (error instanceof ScrapeCancelledError) return;
+
+    const category = this.currentCategory.getStore();
     const scrapeError: ScrapeError = {
       productUrl,
       message,
       stack: error?.stack,
       timestamp: new Date(),
+      errorClass: error ? classifyError(error) : undefined,
+      categoryId: category?.id,
+      categoryName: category?.name,
+      pageNumber,
     };
 
     this.errors.push(scrapeError);
     this.productsFailed++;
+    this.emitProgress({
+      type: 'error',
+      message: error ? `${message}: ${error.message}` : message,
+      categoryId: category?.id,
+      pageNumber,
+    });
 
     this.logger.error(message, {
       productUrl,
@@ -424,7 +902,7 @@ export abstract class BaseScraper {
   }
 
   /**
-   * Close browser and cleanup
+   * Close the page and hand the browser context back to the pool
    */
   protected async closeBrowser(): Promise<void> {
     if (this.page) {
@@ -432,12 +910,19 @@ export abstract class BaseScraper {
       this.page = null;
     }
 
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    if (this.context) {
+      await browserPool.release(this.context);
+      this.context = null;
     }
 
-    this.logger.info(`Browser closed for ${this.config.name}`);
+    this.logger.info(`Browser context released for ${this.config.name}`);
+  }
+
+  /**
+   * Errors collected by logError during this run
+   */
+  public getErrors(): ScrapeError[] {
+    return this.errors;
   }
 
   /**
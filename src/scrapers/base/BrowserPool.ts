@@ -0,0 +1,356 @@
+import { Browser, BrowserContext, BrowserContextOptions, chromium } from 'playwright';
+import { chromium as extraChromium } from 'playwright-extra';
+import stealth from 'puppeteer-extra-plugin-stealth';
+import fs from 'fs';
+import { config } from '../../config/env';
+import { createPrefixedLogger } from '../../utils/logger';
+
+/**
+ * How a pooled browser is launched. Contexts are only handed out from browsers
+ * launched the same way.
+ */
+export interface BrowserLaunchProfile {
+  /** Launch through playwright-extra with the stealth plugin, for sites with bot detection */
+  stealth?: boolean;
+  /** Defaults to PLAYWRIGHT_HEADLESS */
+  headless?: boolean;
+  /** Chromium flags on top of the pool's defaults */
+  args?: string[];
+}
+
+export interface PooledContextOptions extends BrowserContextOptions {
+  launch?: BrowserLaunchProfile;
+  cookies?: Parameters<BrowserContext['addCookies']>[0];
+  /** File the context's cookies and local storage are loaded from, and saved back to on release */
+  sessionFile?: string;
+}
+
+export interface BrowserPoolOptions {
+  /** Browsers kept open at the same time */
+  maxBrowsers: number;
+  /** Contexts a browser hands out before it is replaced by a fresh one */
+  maxContextsPerBrowser: number;
+  /** Resident memory of all browser processes above which no contexts are handed out (0 = no cap) */
+  maxMemoryMb: number;
+  /** Browsers without contexts for this long are closed */
+  idleSeconds: number;
+}
+
+interface PooledBrowser {
+  browser: Browser;
+  profileKey: string;
+  contexts: Set<BrowserContext>;
+  /** Contexts handed out over the browser's lifetime */
+  served: number;
+  /** Contexts being opened right now */
+  reserved: number;
+  /** Closed once its last context is released */
+  retiring: boolean;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-blink-features=AutomationControlled',
+];
+
+const logger = createPrefixedLogger('BrowserPool');
+
+let stealthRegistered = false;
+
+/**
+ * Resident memory of this process's descendants - the browsers and their renderers - in MB.
+ * Shared pages are counted once per process, so this overestimates a little.
+ * Returns null where /proc is not available.
+ */
+function browserMemoryMb(): number | null {
+  if (process.platform !== 'linux') return null;
+
+  const children = new Map<number, number[]>();
+  for (const entry of fs.readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+      // Fields after the command name (which may contain spaces): state, ppid, ...
+      const ppid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      children.set(ppid, [...(children.get(ppid) ?? []), Number(entry)]);
+    } catch {
+      // The process exited while we were looking
+    }
+  }
+
+  let totalKb = 0;
+  const pending = [...(children.get(process.pid) ?? [])];
+  for (let pid = pending.pop(); pid !== undefined; pid = pending.pop()) {
+    pending.push(...(children.get(pid) ?? []));
+    try {
+      const status = fs.readFileSync(`/proc/${pid}/status`, 'utf8');
+      totalKb += Number(status.match(/^VmRSS:\s+(\d+)/m)?.[1] ?? 0);
+    } catch {
+      // The process exited while we were looking
+    }
+  }
+  return Math.round(totalKb / 1024);
+}
+
+/**
+ * Long-lived Chromium browsers shared by all scrapers of a process. Each scraper gets its own
+ * BrowserContext (cookies, storage, proxy and user agent are per context), which is much cheaper
+ * than launching a browser per run.
+ *
+ * A browser is replaced after maxContextsPerBrowser contexts to shed leaked memory, and dropped
+ * when it crashes. While the browsers use more than maxMemoryMb, or maxBrowsers are open and
+ * none can take the request, acquire() waits for a context to be released. Contexts with the
+ * same session file are handed out one at a time.
+ */
+export class BrowserPool {
+  private browsers: PooledBrowser[] = [];
+  private sessionFiles = new Map<BrowserContext, string>();
+  // Session files of open contexts (and of contexts being opened)
+  private sessionsInUse = new Set<string>();
+  private waiters: (() => void)[] = [];
+  // Requests are served one at a time, so concurrent requests do not launch a browser each
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  /**
+   * Open a context with the given options. Pass it to release() when done.
+   */
+  async acquire(options: PooledContextOptions = {}): Promise<BrowserContext> {
+    const { launch = {}, cookies, sessionFile, ...contextOptions } = options;
+
+    // Contexts sharing a session file take turns, so one run's session is not saved over another's
+    if (sessionFile) {
+      while (this.sessionsInUse.has(sessionFile)) {
+        if (this.closed) throw new Error('Browser pool is closed');
+        await this.waitForRelease();
+      }
+      this.sessionsInUse.add(sessionFile);
+    }
+
+    let entry: PooledBrowser;
+    try {
+      entry = await this.serialize(() => this.reserveBrowser(launch));
+    } catch (error) {
+      if (sessionFile) this.sessionsInUse.delete(sessionFile);
+      throw error;
+    }
+
+    try {
+      const context = await entry.browser.newContext({
+        ...contextOptions,
+        storageState: sessionFile && fs.existsSync(sessionFile) ? sessionFile : contextOptions.storageState,
+      });
+      if (cookies?.length) {
+        await context.addCookies(cookies);
+      }
+      if (sessionFile) {
+        this.sessionFiles.set(context, sessionFile);
+      }
+      entry.contexts.add(context);
+      return context;
+    } catch (error) {
+      if (sessionFile) this.sessionsInUse.delete(sessionFile);
+      throw error;
+    } finally {
+      entry.reserved--;
+      this.wake();
+    }
+  }
+
+  /**
+   * Close a context from acquire(), saving its session first if it has a session file
+   */
+  async release(context: BrowserContext): Promise<void> {
+    const entry = this.browsers.find(b => b.contexts.has(context));
+    const sessionFile = this.sessionFiles.get(context);
+    this.sessionFiles.delete(context);
+
+    try {
+      if (sessionFile && entry?.browser.isConnected()) {
+        await context.storageState({ path: sessionFile });
+      }
+    } catch (error) {
+      logger.warn(`Could not save browser session to ${sessionFile}: ${(error as Error).message}`);
+    } finally {
+      if (sessionFile) this.sessionsInUse.delete(sessionFile);
+    }
+
+    try {
+      await context.close();
+    } catch {
+      // The browser already went away
+    }
+
+    if (entry) {
+      entry.contexts.delete(context);
+      if (entry.contexts.size === 0 && entry.reserved === 0) {
+        if (entry.retiring) {
+          await this.closeBrowser(entry, `recycled after ${entry.served} contexts`);
+        } else {
+          this.scheduleIdleClose(entry);
+        }
+      }
+    }
+    this.wake();
+  }
+
+  /**
+   * Close all browsers. Contexts still open are closed with them.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.all(this.browsers.map(entry => this.closeBrowser(entry, 'pool closed')));
+    this.wake();
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Pick the browser for a new context, launching or freeing one if needed, and reserve a slot on it
+   */
+  private async reserveBrowser(launch: BrowserLaunchProfile): Promise<PooledBrowser> {
+    const profileKey = JSON.stringify({
+      stealth: !!launch.stealth,
+      headless: launch.headless ?? config.scraper.headless,
+      args: launch.args ?? [],
+    });
+
+    for (;;) {
+      if (this.closed) throw new Error('Browser pool is closed');
+
+      if (this.isOverMemory()) {
+        if (await this.closeIdleBrowser()) continue;
+        if (this.openContexts() > 0) {
+          logger.warn(`Browsers are over the ${this.options.maxMemoryMb} MB memory cap, waiting for a context to be released`);
+          await this.waitForRelease();
+          continue;
+        }
+      }
+
+      const candidates = this.browsers
+        .filter(entry => entry.profileKey === profileKey && !entry.retiring)
+        .sort((a, b) => a.contexts.size + a.reserved - (b.contexts.size + b.reserved));
+      const least = candidates[0];
+      const full = this.browsers.length >= this.options.maxBrowsers;
+
+      let entry = least && (least.contexts.size + least.reserved === 0 || full) ? least : undefined;
+      if (!entry && !full) {
+        entry = await this.launchBrowser(profileKey, launch);
+      } else if (!entry) {
+        // Idle browsers of other profiles make room for this one
+        if (await this.closeIdleBrowser()) continue;
+        await this.waitForRelease();
+        continue;
+      }
+
+      clearTimeout(entry.idleTimer);
+      entry.reserved++;
+      entry.served++;
+      if (entry.served >= this.options.maxContextsPerBrowser) {
+        entry.retiring = true;
+      }
+      return entry;
+    }
+  }
+
+  private async launchBrowser(profileKey: string, launch: BrowserLaunchProfile): Promise<PooledBrowser> {
+    const launcher = launch.stealth ? extraChromium : chromium;
+    if (launch.stealth && !stealthRegistered) {
+      extraChromium.use(stealth());
+      stealthRegistered = true;
+    }
+
+    const browser = await launcher.launch({
+      headless: launch.headless ?? config.scraper.headless,
+      args: [...DEFAULT_ARGS, ...(launch.args ?? [])],
+    });
+    const entry: PooledBrowser = { browser, profileKey, contexts: new Set(), served: 0, reserved: 0, retiring: false };
+    this.browsers.push(entry);
+
+    browser.on('disconnected', () => {
+      if (!this.browsers.includes(entry)) return;
+      logger.warn(`Browser crashed with ${entry.contexts.size} open contexts, dropping it from the pool`);
+      this.remove(entry);
+      this.wake();
+    });
+
+    logger.info(`Launched ${launch.stealth ? 'stealth ' : ''}browser (${this.browsers.length}/${this.options.maxBrowsers} open)`);
+    return entry;
+  }
+
+  private async closeBrowser(entry: PooledBrowser, reason: string): Promise<void> {
+    this.remove(entry);
+    try {
+      await entry.browser.close();
+      logger.info(`Closed browser: ${reason}`);
+    } catch (error) {
+      logger.warn(`Could not close browser: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Close a browser without open contexts. Returns false if there is none.
+   */
+  private async closeIdleBrowser(): Promise<boolean> {
+    const idle = this.browsers.find(entry => entry.contexts.size === 0 && entry.reserved === 0);
+    if (!idle) return false;
+    await this.closeBrowser(idle, 'making room');
+    return true;
+  }
+
+  private scheduleIdleClose(entry: PooledBrowser): void {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      void this.serialize(async () => {
+        if (entry.contexts.size === 0 && entry.reserved === 0 && this.browsers.includes(entry)) {
+          await this.closeBrowser(entry, `idle for ${this.options.idleSeconds}s`);
+        }
+      });
+    }, this.options.idleSeconds * 1000);
+    entry.idleTimer.unref();
+  }
+
+  private remove(entry: PooledBrowser): void {
+    clearTimeout(entry.idleTimer);
+    this.browsers = this.browsers.filter(b => b !== entry);
+  }
+
+  private openContexts(): number {
+    return this.browsers.reduce((sum, entry) => sum + entry.contexts.size, 0);
+  }
+
+  private isOverMemory(): boolean {
+    if (this.options.maxMemoryMb <= 0 || this.browsers.length === 0) return false;
+    const memoryMb = browserMemoryMb();
+    return memoryMb !== null && memoryMb >= this.options.maxMemoryMb;
+  }
+
+  private waitForRelease(): Promise<void> {
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * The pool all scrapers of this process share
+ */
+export const browserPool = new BrowserPool({
+  maxBrowsers: config.scraper.concurrentBrowsers,
+  maxContextsPerBrowser: config.scraper.browserMaxContexts,
+  maxMemoryMb: config.scraper.browserMaxMemoryMb,
+  idleSeconds: config.scraper.browserIdleSeconds,
+});
@@ -0,0 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+import { APIRequestContext, APIResponse, BrowserContext, Route } from 'playwright';
+import { ProductData } from '../../types/scraper.types';
+import { createPrefixedLogger } from '../../utils/logger';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * A single recorded network response
+ */
+export interface FixtureEntry {
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Response body, base64 encoded */
+  body: string;
+}
+
+export interface FixtureFile {
+  scraper: string;
+  categories: string[];
+  /** Unset for synthetic fixtures */
+  recordedAt?: string;
+  /** Hand-written from the site's API shape rather than recorded from the live site */
+  synthetic?: boolean;
+  entries: FixtureEntry[];
+}
+
+/**
+ * Root directory for golden fixtures shipped with the scrapers.
+ * Each scraper gets its own sub-directory named after its class.
+ */
+export const FIXTURES_ROOT = path.join(__dirname, '..', '__fixtures__');
+
+const NETWORK_FILE = 'network.json';
+const EXPECTED_FILE = 'expected.json';
+
+// Binary assets are never needed to extract product data
+const SKIPPED_RESOURCE_TYPES = new Set(['image', 'media', 'font']);
+
+// Headers that no longer match once the body is stored decoded
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+const logger = createPrefixedLogger('Fixtures');
+
+/**
+ * Get the fixture directory for a scraper class
+ */
+export function getScraperFixtureDir(className: string, root: string = FIXTURES_ROOT): string {
+  return path.join(root, className);
+}
+
+/**
+ * Check if a scraper ships a golden fixture
+ */
+export function hasScraperFixture(className: string, root: string = FIXTURES_ROOT): boolean {
+  return fs.existsSync(path.join(getScraperFixtureDir(className, root), NETWORK_FILE));
+}
+
+/**
+ * Records network responses to a fixture directory, or serves them back offline.
+ *
+ * Covers both browser traffic (Playwright routes and page.request) and
+ * plain HTTP calls made by ApiScraper.
+ */
+export class NetworkFixtures {
+  private entries: Map<string, FixtureEntry> = new Map();
+  private entriesByPath: Map<string, FixtureEntry> = new Map();
+  private categories: string[] = [];
+  private misses: number = 0;
+
+  constructor(
+    public readonly mode: FixtureMode,
+    public readonly dir: string
+  ) {
+    if (mode === 'replay') {
+      this.load();
+    }
+  }
+
+  /**
+   * Category IDs the fixture was recorded with
+   */
+  getRecordedCategories(): string[] {
+    return this.categories;
+  }
+
+  /**
+   * Number of requests in replay mode that had no recorded response
+   */
+  getMissCount(): number {
+    return this.misses;
+  }
+
+  /**
+   * Store a response (record mode only)
+   */
+  record(entry: FixtureEntry): void {
+    if (this.mode !== 'record') return;
+    this.addEntry(entry);
+  }
+
+  /**
+   * Find a recorded response for a request.
+   * Falls back to matching on method and path when the query string differs (cache busters etc.)
+   */
+  lookup(method: string, url: string, requestBody?: string): FixtureEntry | undefined {
+    const entry = this.entries.get(this.buildKey(method, url, requestBody))
+      ?? this.entriesByPath.get(this.buildPathKey(method, url, requestBody));
+
+    if (!entry) {
+      this.misses++;
+      logger.warn(`No fixture for ${method} ${url}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Attach to a browser context so all page traffic is recorded or replayed
+   */
+  async attachToContext(context: BrowserContext): Promise<void> {
+    await context.route('**/*', (route) => this.handleRoute(route));
+  }
+
+  /**
+   * Patch an APIRequestContext (page.request) so direct API calls are recorded or replayed.
+   * These requests bypass Playwright routes, so they need separate handling.
+   */
+  wrapRequestContext(request: APIRequestContext): void {
+    const fixtures = this;
+    const original = {
+      get: request.get.bind(request),
+      post: request.post.bind(request),
+      put: request.put.bind(request),
+      delete: request.delete.bind(request),
+      fetch: request.fetch.bind(request),
+    };
+
+    type RequestOptions = Parameters<APIRequestContext['fetch']>[1];
+
+    const wrap = (
+      method: string | undefined,
+      call: (url: string, options?: RequestOptions) => Promise<APIResponse>
+    ) => async (url: string, options?: RequestOptions): Promise<APIResponse> => {
+      const requestMethod = (method || options?.method || 'GET').toUpperCase();
+      const requestUrl = fixtures.appendParams(url, options?.params);
+      const requestBody = fixtures.serializeBody(options?.data);
+
+      if (fixtures.mode === 'replay') {
+        const entry = fixtures.lookup(requestMethod, requestUrl, requestBody);
+        if (!entry) {
+          throw new Error(`No fixture for ${requestMethod} ${requestUrl}`);
+        }
+        return fixtures.toApiResponse(entry);
+      }
+
+      const response = await call(url, options);
+      const body = await response.body();
+      fixtures.record({
+        method: requestMethod,
+        url: requestUrl,
+        requestBody,
+        status: response.status(),
+        headers: fixtures.filterHeaders(response.headers()),
+        body: body.toString('base64'),
+      });
+      return response;
+    };
+
+    request.get = wrap('GET', original.get) as APIRequestContext['get'];
+    request.post = wrap('POST', original.post) as APIRequestContext['post'];
+    request.put = wrap('PUT', original.put) as APIRequestContext['put'];
+    request.delete = wrap('DELETE', original.delete) as APIRequestContext['delete'];
+    request.fetch = wrap(undefined, (url, options) => original.fetch(url, options)) as APIRequestContext['fetch'];
+  }
+
+  /**
+   * Write recorded responses to disk
+   */
+  save(scraper: string, categories: string[]): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const file: FixtureFile = {
+      scraper,
+      categories,
+      recordedAt: new Date().toISOString(),
+      entries: Array.from(this.entries.values()),
+    };
+
+    fs.writeFileSync(path.join(this.dir, NETWORK_FILE), JSON.stringify(file, null, 2));
+    logger.info(`Saved ${file.entries.length} responses to ${this.dir}`);
+  }
+
+  /**
+   * Write the expected ProductData snapshot next to the network fixture
+   */
+  saveExpected(products: ProductData[]): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, EXPECTED_FILE), JSON.stringify(products, null, 2));
+  }
+
+  /**
+   * Load the expected ProductData snapshot
+   */
+  loadExpected(): ProductData[] {
+    const filePath = path.join(this.dir, EXPECTED_FILE);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Expected snapshot not found: ${filePath}`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  private load(): void {
+    const filePath = path.join(this.dir, NETWORK_FILE);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Network fixture not found: ${filePath}`);
+    }
+
+    const file: FixtureFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    this.categories = file.categories;
+    for (const entry of file.entries) {
+      this.addEntry(entry);
+    }
+    logger.info(`Loaded ${file.entries.length} responses from ${this.dir}`);
+  }
+
+  private addEntry(entry: FixtureEntry): void {
+    this.entries.set(this.buildKey(entry.method, entry.url, entry.requestBody), entry);
+
+    const pathKey = this.buildPathKey(entry.method, entry.url, entry.requestBody);
+    if (!this.entriesByPath.has(pathKey)) {
+      this.entriesByPath.set(pathKey, entry);
+    }
+  }
+
+  private async handleRoute(route: Route): Promise<void> {
+    const request = route.request();
+
+    if (SKIPPED_RESOURCE_TYPES.has(request.resourceType())) {
+      if (this.mode === 'replay') {
+        await route.abort();
+      } else {
+        await route.continue();
+      }
+      return;
+    }
+
+    const method = request.method();
+    const url = request.url();
+    const requestBody = request.postData() ?? undefined;
+
+    if (this.mode === 'replay') {
+      const entry = this.lookup(method, url, requestBody);
+      if (!entry) {
+        await route.abort('internetdisconnected');
+        return;
+      }
+      await route.fulfill({
+        status: entry.status,
+        headers: entry.headers,
+        body: Buffer.from(entry.body, 'base64'),
+      });
+      return;
+    }
+
+    try {
+      const response = await route.fetch();
+      const body = await response.body();
+      this.record({
+        method,
+        url,
+        requestBody,
+        status: response.status(),
+        headers: this.filterHeaders(response.headers()),
+        body: body.toString('base64'),
+      });
+      await route.fulfill({ response, body });
+    } catch (error) {
+      logger.debug(`Failed to record ${method} ${url}:`, (error as Error).message);
+      await route.abort().catch(() => undefined);
+    }
+  }
+
+  private toApiResponse(entry: FixtureEntry): APIResponse {
+    const body = Buffer.from(entry.body, 'base64');
+    const response = {
+      ok: () => entry.status >= 200 && entry.status < 300,
+      status: () => entry.status,
+      statusText: () => '',
+      url: () => entry.url,
+      headers: () => entry.headers,
+      headersArray: () => Object.entries(entry.headers).map(([name, value]) => ({ name, value })),
+      body: async () => body,
+      text: async () => body.toString('utf-8'),
+      json: async () => JSON.parse(body.toString('utf-8')),
+      dispose: async () => undefined,
+    };
+    return response as unknown as APIResponse;
+  }
+
+  private filterHeaders(headers: Record<string, string>): Record<string, string> {
+    const filtered: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (!DROPPED_HEADERS.has(name.toLowerCase())) {
+        filtered[name] = value;
+      }
+    }
+    return filtered;
+  }
+
+  private appendParams(url: string, params?: unknown): string {
+    if (!params || typeof params !== 'object') return url;
+
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
+      parsed.searchParams.set(key, String(value));
+    }
+    return parsed.toString();
+  }
+
+  private serializeBody(data: unknown): string | undefined {
+    if (data === undefined || data === null) return undefined;
+    if (typeof data === 'string') return data;
+    if (Buffer.isBuffer(data)) return data.toString('utf-8');
+    return JSON.stringify(data);
+  }
+
+  private buildKey(method: string, url: string, requestBody?: string): string {
+    return `${method.toUpperCase()} ${url} ${requestBody ?? ''}`;
+  }
+
+  private buildPathKey(method: string, url: string, requestBody?: string): string {
+    let urlPath = url;
+    try {
+      const parsed = new URL(url);
+      urlPath = `${parsed.origin}${parsed.pathname}`;
+    } catch {
+      // Keep the raw URL if it cannot be parsed
+    }
+    return this.buildKey(method, urlPath, requestBody);
+  }
+}
+
+/**
+ * Compare scraped products against an expected snapshot.
+ * Returns human-readable differences (empty when they match).
+ */
+export function compareWithExpected(actual: ProductData[], expected: ProductData[]): string[] {
+  const differences: string[] = [];
+  const keyOf = (p: ProductData) => p.externalId || p.productUrl;
+
+  const actualByKey = new Map(actual.map(p => [keyOf(p), p]));
+  const expectedByKey = new Map(expected.map(p => [keyOf(p), p]));
+
+  for (const [key, expectedProduct] of expectedByKey) {
+    const actualProduct = actualByKey.get(key);
+    if (!actualProduct) {
+      differences.push(`Missing product: ${expectedProduct.name} (${key})`);
+      continue;
+    }
+
+    const fields = Object.keys(expectedProduct) as Array<keyof ProductData>;
+    for (const field of new Set([...fields, ...(Object.keys(actualProduct) as Array<keyof ProductData>)])) {
+      if (JSON.stringify(actualProduct[field]) !== JSON.stringify(expectedProduct[field])) {
+        differences.push(
+          `${expectedProduct.name} (${key}): ${field} expected ${JSON.stringify(expectedProduct[field])}, ` +
+          `got ${JSON.stringify(actualProduct[field])}`
+        );
+      }
+    }
+  }
+
+  for (const [key, actualProduct] of actualByKey) {
+    if (!expectedByKey.has(key)) {
+      differences.push(`Unexpected product: ${actualProduct.name} (${key})`);
+    }
+  }
+
+  return differences;
+}
@@ -0,0 +1,63 @@
+import { Page } from 'playwright';
+
+export interface NetworkLogEntry {
+  method: string;
+  url: string;
+  status?: number;
+  resourceType?: string;
+  /** Error text for requests that never got a response */
+  failure?: string;
+  timestamp: string;
+}
+
+// Binary assets say nothing about why a selector broke
+const SKIPPED_RESOURCE_TYPES = new Set(['image', 'media', 'font', 'stylesheet']);
+
+/**
+ * The last N requests a scraper made, attached to failure snapshots.
+ * Categories scraped concurrently share one log, so entries may interleave.
+ */
+export class NetworkLog {
+  private entries: NetworkLogEntry[] = [];
+
+  constructor(private readonly size: number) {}
+
+  add(entry: Omit<NetworkLogEntry, 'timestamp'>): void {
+    if (this.size <= 0) return;
+
+    this.entries.push({ ...entry, timestamp: new Date().toISOString() });
+    if (this.entries.length > this.size) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Record browser traffic of a page
+   */
+  attach(page: Page): void {
+    page.on('requestfinished', async (request) => {
+      if (SKIPPED_RESOURCE_TYPES.has(request.resourceType())) return;
+      const response = await request.response().catch(() => null);
+      this.add({
+        method: request.method(),
+        url: request.url(),
+        status: response?.status(),
+        resourceType: request.resourceType(),
+      });
+    });
+
+    page.on('requestfailed', (request) => {
+      if (SKIPPED_RESOURCE_TYPES.has(request.resourceType())) return;
+      this.add({
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+        failure: request.failure()?.errorText,
+      });
+    });
+  }
+
+  toJSON(): NetworkLogEntry[] {
+    return [...this.entries];
+  }
+}
@@ -0,0 +1,272 @@
+import { ProxyHealthRow } from '../../types/db.types';
+import { classifyError } from '../../utils/errors';
+import { createPrefixedLogger } from '../../utils/logger';
+
+/**
+ * When a scraper moves on to another proxy of its pool:
+ * - per-run: one proxy for the whole run (runs still spread across the pool)
+ * - per-category: a different proxy for every category
+ * - on-block: keep the proxy until the circuit breaker opens, then switch and retry the category
+ */
+export type ProxyRotation = 'per-run' | 'per-category' | 'on-block';
+
+/**
+ * Backing storage for proxy health, shared by all processes
+ */
+export interface ProxyHealthStore {
+  findByIds(proxyIds: string[]): Promise<ProxyHealthRow[]>;
+  recordUse(proxyId: string): Promise<void>;
+  recordSuccess(proxyId: string): Promise<void>;
+  recordFailure(proxyId: string, error: string, maxFailures: number, evictionMinutes: number): Promise<ProxyHealthRow>;
+}
+
+export interface ProxyPoolOptions {
+  /** Consecutive failures before a proxy is evicted */
+  maxFailures: number;
+  /** How long an evicted proxy is skipped */
+  evictionMinutes: number;
+}
+
+// Connection-level errors from Chromium and undici that point at the proxy rather than the site
+const PROXY_ERROR_PATTERN = /ERR_PROXY_|ERR_TUNNEL_|ERR_SOCKS_|Proxy response|proxy authentication/i;
+
+const logger = createPrefixedLogger('ProxyPool');
+
+/**
+ * Proxy URL without the password - used as the health key and in logs
+ */
+export function proxyId(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const user = parsed.username ? `${parsed.username}@` : '';
+    return `${parsed.protocol}//${user}${parsed.host}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Proxies assigned to a supermarket. Keys contained in the supermarket name
+ * (case-insensitive) take precedence over a "country:<code>" key.
+ */
+export function findProxies(
+  proxyConfig: Map<string, string[]>,
+  supermarketName: string,
+  countryCode?: string
+): string[] {
+  const name = supermarketName.toLowerCase();
+  const assigned = Array.from(proxyConfig.entries())
+    .filter(([key]) => !key.startsWith('country:') && name.includes(key))
+    .flatMap(([, urls]) => urls);
+
+  if (assigned.length > 0) return Array.from(new Set(assigned));
+  if (!countryCode) return [];
+  return proxyConfig.get(`country:${countryCode.toLowerCase()}`) ?? [];
+}
+
+/**
+ * Whether an error means the proxy is unusable or burned for the site
+ */
+export function isProxyFailure(error: unknown): boolean {
+  if (classifyError(error) === 'blocked') return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return PROXY_ERROR_PATTERN.test(message);
+}
+
+// How long the health store is left alone after a failed query
+const STORE_RETRY_MS = 60_000;
+
+function isEvicted(health: ProxyHealthRow | undefined, now: number): boolean {
+  return !!health?.evicted_until && new Date(health.evicted_until).getTime() > now;
+}
+
+/**
+ * All proxies from SCRAPER_PROXY_CONFIG with their health.
+ *
+ * Picks the least recently used healthy proxy, so runs spread across the pool.
+ * Proxies that fail maxFailures times in a row are evicted for evictionMinutes.
+ * Health lives in Postgres so every process sees the same evictions; if the store
+ * is unavailable, proxies are picked without health information and the store is
+ * tried again after a minute.
+ */
+export class ProxyPool {
+  private storeAvailable = true;
+  private storeRetryAt = 0;
+
+  constructor(
+    private readonly proxyConfig: Map<string, string[]>,
+    private readonly store: ProxyHealthStore,
+    private readonly options: ProxyPoolOptions
+  ) {}
+
+  /**
+   * Every configured proxy URL, deduplicated
+   */
+  getAllProxies(): string[] {
+    return Array.from(new Set(Array.from(this.proxyConfig.values()).flat()));
+  }
+
+  /**
+   * Start a proxy session for one scraper run.
+   * Returns undefined if no proxies are assigned to the supermarket.
+   */
+  createSession(supermarketName: string, countryCode: string | undefined, rotation: ProxyRotation): ProxySession | undefined {
+    const proxies = findProxies(this.proxyConfig, supermarketName, countryCode);
+    if (proxies.length === 0) return undefined;
+    return new ProxySession(this, proxies, rotation);
+  }
+
+  /**
+   * Choose a proxy among candidates, skipping excluded and evicted ones.
+   * With allowEvicted, falls back to the proxy whose eviction ends first when all are evicted.
+   */
+  async pick(candidates: string[], exclude: Set<string>, allowEvicted: boolean): Promise<string | undefined> {
+    const available = candidates.filter(url => !exclude.has(url));
+    if (available.length === 0) return undefined;
+
+    const health = await this.getHealth(available);
+    const now = Date.now();
+    const healthy = available.filter(url => !isEvicted(health.get(proxyId(url)), now));
+
+    let chosen: string | undefined;
+    if (healthy.length > 0) {
+      const lastUsed = (url: string) => new Date(health.get(proxyId(url))?.last_used_at ?? 0).getTime();
+      chosen = healthy.reduce((best, url) => (lastUsed(url) < lastUsed(best) ? url : best));
+    } else if (allowEvicted) {
+      const evictedUntil = (url: string) => new Date(health.get(proxyId(url))!.evicted_until!).getTime();
+      chosen = available.reduce((best, url) => (evictedUntil(url) < evictedUntil(best) ? url : best));
+      logger.warn(`All ${available.length} proxies are evicted, using ${proxyId(chosen)} anyway`);
+    }
+
+    if (chosen) {
+      const id = proxyId(chosen);
+      await this.withStore(() => this.store.recordUse(id), undefined);
+    }
+    return chosen;
+  }
+
+  async reportSuccess(url: string): Promise<void> {
+    const id = proxyId(url);
+    await this.withStore(() => this.store.recordSuccess(id), undefined);
+  }
+
+  async reportFailure(url: string, error: unknown): Promise<void> {
+    const id = proxyId(url);
+    const message = error instanceof Error ? error.message : String(error);
+    const health = await this.withStore(
+      () => this.store.recordFailure(id, message, this.options.maxFailures, this.options.evictionMinutes),
+      undefined
+    );
+
+    if (health && health.consecutive_failures >= this.options.maxFailures && isEvicted(health, Date.now())) {
+      logger.warn(
+        `Evicted proxy ${id} after ${health.consecutive_failures} consecutive failures ` +
+          `until ${new Date(health.evicted_until!).toISOString()}`,
+        { error: message }
+      );
+    }
+  }
+
+  /**
+   * Health rows keyed by proxy ID - proxies never used have no row
+   */
+  async getHealth(urls: string[]): Promise<Map<string, ProxyHealthRow>> {
+    const rows = await this.withStore(() => this.store.findByIds(urls.map(proxyId)), []);
+    return new Map(rows.map(row => [row.proxy_id, row]));
+  }
+
+  private async withStore<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+    if (!this.storeAvailable && Date.now() < this.storeRetryAt) return fallback;
+
+    try {
+      const result = await operation();
+      if (!this.storeAvailable) {
+        this.storeAvailable = true;
+        logger.info('Proxy health store is back');
+      }
+      return result;
+    } catch (error) {
+      if (this.storeAvailable) {
+        logger.warn('Proxy health store unavailable, picking proxies without health information', {
+          error: (error as Error).message,
+        });
+      }
+      this.storeAvailable = false;
+      this.storeRetryAt = Date.now() + STORE_RETRY_MS;
+      return fallback;
+    }
+  }
+}
+
+/**
+ * The proxies of one scraper run and the one currently in use.
+ * Proxies that failed during the run are not picked again by it.
+ */
+export class ProxySession {
+  private current?: string;
+  private reported = false;
+  private failed = new Set<string>();
+
+  constructor(
+    private readonly pool: ProxyPool,
+    readonly proxies: string[],
+    readonly rotation: ProxyRotation
+  ) {}
+
+  get currentProxy(): string | undefined {
+    return this.current;
+  }
+
+  /**
+   * Whether the scraper may switch proxies during the run
+   */
+  get rotates(): boolean {
+    return this.rotation !== 'per-run' && this.proxies.length > 1;
+  }
+
+  /**
+   * Pick the first proxy of the run
+   */
+  async start(): Promise<string | undefined> {
+    this.use(await this.pool.pick(this.proxies, this.failed, true));
+    return this.current;
+  }
+
+  /**
+   * Report the current proxy and move to another one.
+   * Returns false, keeping the current proxy, if no other usable proxy is left.
+   */
+  async rotate(error?: unknown): Promise<boolean> {
+    await this.release(error);
+
+    const exclude = new Set(this.failed);
+    if (this.current) exclude.add(this.current);
+
+    const next = await this.pool.pick(this.proxies, exclude, false);
+    if (!next) return false;
+
+    this.use(next);
+    return true;
+  }
+
+  /**
+   * Record how the current proxy did - once per proxy use.
+   * Only blocks and proxy connection errors count as failures.
+   */
+  async release(error?: unknown): Promise<void> {
+    if (!this.current || this.reported) return;
+    this.reported = true;
+
+    if (error && isProxyFailure(error)) {
+      this.failed.add(this.current);
+      await this.pool.reportFailure(this.current, error);
+    } else {
+      await this.pool.reportSuccess(this.current);
+    }
+  }
+
+  private use(url: string | undefined): void {
+    this.current = url;
+    this.reported = false;
+  }
+}
@@ -0,0 +1,108 @@
+import { RateLimitConfig } from '../../types/scraper.types';
+import { createPrefixedLogger } from '../../utils/logger';
+import { sleep } from '../../utils/retry';
+
+/**
+ * Used for supermarkets without rateLimit in their scraper_config
+ */
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  requestsPerSecond: 2,
+  burst: 5,
+};
+
+/**
+ * Backing storage for token buckets.
+ * reserve() takes one token and returns how long to wait (ms) before using it.
+ */
+export interface RateLimitStore {
+  reserve(key: string, requestsPerSecond: number, burst: number): Promise<number>;
+}
+
+/**
+ * In-process token buckets - used when no shared store is available
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+
+  async reserve(key: string, requestsPerSecond: number, burst: number): Promise<number> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: burst, updatedAt: now };
+
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(burst, bucket.tokens + elapsedSeconds * requestsPerSecond) - 1;
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    return bucket.tokens >= 0 ? 0 : Math.ceil((-bucket.tokens / requestsPerSecond) * 1000);
+  }
+}
+
+const logger = createPrefixedLogger('RateLimiter');
+
+// How long requests are limited per process after the shared store fails
+const STORE_RETRY_MS = 60_000;
+
+/**
+ * Token-bucket rate limiter keyed by host.
+ *
+ * With a Postgres-backed store every scraper and worker process draws from the
+ * same bucket, so concurrent runs against one site share a single request budget.
+ * Falls back to in-process buckets while the shared store is unavailable, and tries the
+ * shared store again after a minute.
+ */
+export class RateLimiter {
+  private fallback = new MemoryRateLimitStore();
+  private fallbackUntil = 0;
+
+  constructor(private readonly store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Wait until a request to the given URL is allowed
+   */
+  async acquire(url: string, limit: RateLimitConfig = DEFAULT_RATE_LIMIT): Promise<void> {
+    const key = limit.key || getBucketKey(url);
+    if (!key || limit.requestsPerSecond <= 0) return;
+
+    const burst = Math.max(1, limit.burst ?? 1);
+    const waitMs = await this.reserve(key, limit.requestsPerSecond, burst);
+
+    if (waitMs > 0) {
+      logger.debug(`Throttling ${key}: waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    }
+  }
+
+  private async reserve(key: string, requestsPerSecond: number, burst: number): Promise<number> {
+    if (Date.now() < this.fallbackUntil) {
+      return this.fallback.reserve(key, requestsPerSecond, burst);
+    }
+
+    try {
+      const waitMs = await this.store.reserve(key, requestsPerSecond, burst);
+      if (this.fallbackUntil > 0) {
+        this.fallbackUntil = 0;
+        logger.info('Shared rate limit store is back');
+      }
+      return waitMs;
+    } catch (error) {
+      if (this.fallbackUntil === 0) {
+        logger.warn('Shared rate limit store unavailable, limiting per process only', {
+          error: (error as Error).message,
+        });
+      }
+      this.fallbackUntil = Date.now() + STORE_RETRY_MS;
+      return this.fallback.reserve(key, requestsPerSecond, burst);
+    }
+  }
+}
+
+/**
+ * Bucket key for a URL: host name without a leading "www."
+ */
+export function getBucketKey(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseScraper } from './BaseScraper';
-import { ScraperConfig, CategoryConfig } from '../../types/scraper.types';
+import { ScraperConfig, CategoryConfig, StoreLocation } from '../../types/scraper.types';
 import { createPrefixedLogger } from '../../utils/logger';
 import {
   getScraperRegistration,
@@ -11,6 +11,8 @@ import {
 
 export interface CreateScraperOptions {
   categoryIds?: string[];  // Filter to specific category IDs
+  categories?: CategoryConfig[];  // Approved list from scraper_categories - replaces config and registry lists
+  location?: StoreLocation;  // Delivery location to scrape prices for
 }
 
 const logger = createPrefixedLogger('Factory');
@@ -64,11 +66,11 @@ export class ScraperFactory {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const dbConfig: any = supermarket.scraper_config || {};
 
-    // Get categories - prioritize database config, then default from registry
-    let categories: CategoryConfig[] = dbConfig.categories || registration.categories || [];
+    // Get categories - prioritize the approved list, then database config, then default from registry
+    let categories: CategoryConfig[] = options?.categories || dbConfig.categories || registration.categories || [];
 
     // Legacy support: convert categoryUrls to categories if needed
-    if (categories.length === 0 && (dbConfig.categoryUrls || defaultConfig.categoryUrls)) {
+    if (!options?.categories && categories.length === 0 && (dbConfig.categoryUrls || defaultConfig.categoryUrls)) {
       const urls = dbConfig.categoryUrls || defaultConfig.categoryUrls || [];
       categories = urls.map((url: string, index: number) => ({
         id: `category-${index}`,
@@ -102,6 +104,7 @@ export class ScraperFactory {
       name: supermarket.name,
       baseUrl: supermarket.website_url || defaultConfig.baseUrl || '',
       categories,
+      location: options?.location,
       selectors: {
         ...defaultConfig.selectors,
         ...dbConfig.selectors,
@@ -118,6 +121,10 @@ export class ScraperFactory {
       maxRetries: dbConfig.maxRetries || defaultConfig.maxRetries || 3,
       concurrentPages: dbConfig.concurrentPages || defaultConfig.concurrentPages || 2,
       userAgents: dbConfig.userAgents || defaultConfig.userAgents,
+      pagination: dbConfig.pagination || defaultConfig.pagination,
+      parsing: dbConfig.parsing || defaultConfig.parsing,
+      rateLimit: dbConfig.rateLimit || defaultConfig.rateLimit,
+      wolt: dbConfig.wolt || defaultConfig.wolt,
     };
 
     logger.info(`Creating scraper for supermarket: ${supermarket.name}`);
@@ -0,0 +1,416 @@
+import Joi from 'joi';
+import { BaseScraper } from '../base/BaseScraper';
+import {
+  ProductData,
+  ScraperConfig,
+  CategoryConfig,
+  PaginationConfig,
+  ParsingRules,
+} from '../../types/scraper.types';
+import { extractQuantity, parsePrice } from '../../utils/normalizer';
+import { sleep } from '../../utils/retry';
+
+/**
+ * SelectorScraper has no built-in categories - they come from supermarkets.scraper_config
+ */
+export const selectorCategories: CategoryConfig[] = [];
+
+/**
+ * SelectorScraper default configuration.
+ * Selectors, categories, pagination and parsing rules are read from supermarkets.scraper_config.
+ */
+export const selectorConfig: Partial<ScraperConfig> = {
+  name: 'SelectorScraper',
+  waitTimes: {
+    pageLoad: 3000,
+    dynamicContent: 2000,
+    betweenRequests: 1500,
+    betweenPages: 1000,
+  },
+  pagination: {
+    strategy: 'none',
+  },
+  maxRetries: 3,
+  concurrentPages: 1,
+};
+
+const DEFAULT_MAX_PAGES = 50;
+
+/**
+ * Error thrown when scraper_config is not usable by SelectorScraper
+ */
+export class SelectorConfigError extends Error {
+  constructor(
+    public readonly supermarket: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid SelectorScraper config for ${supermarket}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'SelectorConfigError';
+  }
+}
+
+const requiredSelector = (name: string) =>
+  Joi.string().trim().required().messages({
+    'any.required': `Missing required selector "${name}"`,
+    'string.empty': `Selector "${name}" must not be empty`,
+  });
+
+const configSchema = Joi.object({
+  selectors: Joi.object({
+    productCard: requiredSelector('productCard'),
+    productName: requiredSelector('productName'),
+    productPrice: requiredSelector('productPrice'),
+    productImage: Joi.string().trim(),
+    productUrl: Joi.string().trim(),
+    productBrand: Joi.string().trim(),
+    productUnit: Joi.string().trim(),
+    productOriginalPrice: Joi.string().trim(),
+    productAvailability: Joi.string().trim(),
+    pagination: Joi.string().trim(),
+    nextPage: Joi.string().trim(),
+  }).unknown(true).required(),
+  categories: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().required(),
+        name: Joi.string().required(),
+        url: Joi.string().required(),
+      }).unknown(true)
+    )
+    .min(1)
+    .required()
+    .messages({ 'array.min': 'At least one category must be configured' }),
+  pagination: Joi.object({
+    strategy: Joi.string().valid('none', 'nextButton', 'urlParam', 'infiniteScroll').required(),
+    param: Joi.string(),
+    startPage: Joi.number().integer().min(0),
+    maxPages: Joi.number().integer().min(1),
+  }).required(),
+  parsing: Joi.object({
+    currency: Joi.string().length(3).uppercase().required().messages({
+      'any.required': 'Missing required parsing rule "currency"',
+    }),
+    decimalSeparator: Joi.string().valid(',', '.'),
+    unitPattern: Joi.string().custom((value: string) => {
+      new RegExp(value, 'i');
+      return value;
+    }).messages({ 'any.custom': 'Parsing rule "unitPattern" is not a valid regular expression' }),
+    unitMap: Joi.object().pattern(Joi.string(), Joi.string()),
+  }).required().messages({
+    'any.required': 'Missing "parsing" rules (at least "currency" is required)',
+  }),
+}).unknown(true);
+
+/**
+ * Validate a scraper config for SelectorScraper.
+ * Returns a list of human-readable issues (empty when valid).
+ */
+export function validateSelectorConfig(config: Partial<ScraperConfig>): string[] {
+  const { error } = configSchema.validate(config, { abortEarly: false, convert: false });
+  const issues = error ? error.details.map(d => d.message) : [];
+
+  if (config.pagination?.strategy === 'nextButton' && !config.selectors?.nextPage) {
+    issues.push('Missing required selector "nextPage" for pagination strategy "nextButton"');
+  }
+
+  return issues;
+}
+
+/**
+ * Raw text extracted from a single product card
+ */
+interface RawProduct {
+  name: string;
+  price: string;
+  originalPrice?: string;
+  imageUrl?: string;
+  productUrl?: string;
+  brand?: string;
+  unit?: string;
+  availability?: string;
+}
+
+/**
+ * Generic scraper for simple HTML shops.
+ * Everything shop-specific (selectors, categories, pagination, parsing) lives in
+ * supermarkets.scraper_config, so onboarding a shop is a database insert.
+ */
+export class SelectorScraper extends BaseScraper {
+  private readonly pagination: PaginationConfig;
+  private readonly parsing: ParsingRules;
+  private readonly unitRegex?: RegExp;
+
+  constructor(config: ScraperConfig) {
+    super(config);
+
+    const issues = validateSelectorConfig(config);
+    if (issues.length > 0) {
+      throw new SelectorConfigError(config.name, issues);
+    }
+
+    this.pagination = config.pagination!;
+    this.parsing = config.parsing!;
+    this.unitRegex = this.parsing.unitPattern ? new RegExp(this.parsing.unitPattern, 'i') : undefined;
+  }
+
+  /**
+   * Initialize the scraper
+   */
+  async initialize(): Promise<void> {
+    this.logger.info(`Initializing selector scraper for ${this.config.name}...`);
+    this.startTime = Date.now();
+    await this.launchBrowser();
+    this.page = await this.createPage();
+    this.logger.info(`Selector scraper initialized (pagination: ${this.pagination.strategy})`);
+  }
+
+  /**
+   * Scrape a single category following the configured pagination strategy
+   */
+  protected async scrapeCategory(category: CategoryConfig): Promise<ProductData[]> {
+    const categoryUrl = new URL(category.url, this.config.baseUrl).toString();
+    const maxPages = this.pagination.maxPages ?? DEFAULT_MAX_PAGES;
+    const products: ProductData[] = [];
+    const seenUrls = new Set<string>();
+
+    // Only URL-based pagination can jump straight to a page when resuming
+    let pageNumber = this.pagination.strategy === 'urlParam' ? this.getResumePage(category.id) : 1;
+    await this.navigateToUrl(this.getPageUrl(categoryUrl, pageNumber));
+
+    while (pageNumber <= maxPages) {
+      await this.waitForDynamicContent();
+
+      if (this.pagination.strategy === 'infiniteScroll') {
+        await this.scrollToEnd(maxPages);
+      }
+
+      const pageProducts = (await this.extractProductsFromPage())
+        .filter(p => !seenUrls.has(p.productUrl));
+      pageProducts.forEach(p => seenUrls.add(p.productUrl));
+
+      if (pageProducts.length === 0) {
+        this.logger.debug(`No new products on page ${pageNumber} of ${category.name}`);
+        break;
+      }
+
+      if (this.onPageScraped) {
+        const savedCount = await this.onPageScraped(pageProducts, {
+          categoryId: category.id,
+          categoryName: category.name,
+          pageNumber,
+          totalProductsOnPage: pageProducts.length,
+        });
+        this.logger.info(
+          `Page ${pageNumber} of ${category.name}: Saved ${savedCount}/${pageProducts.length} products`
+        );
+      }
+      products.push(...pageProducts);
+
+      const hasNextPage = await this.goToNextPage(categoryUrl, pageNumber + 1);
+      if (!hasNextPage) break;
+
+      pageNumber++;
+    }
+
+    return products;
+  }
+
+  /**
+   * Build the URL for a page number (urlParam strategy only)
+   */
+  private getPageUrl(categoryUrl: string, pageNumber: number): string {
+    if (this.pagination.strategy !== 'urlParam') return categoryUrl;
+
+    const url = new URL(categoryUrl);
+    const startPage = this.pagination.startPage ?? 1;
+    url.searchParams.set(this.pagination.param || 'page', String(startPage + pageNumber - 1));
+    return url.toString();
+  }
+
+  /**
+   * Move to the next page. Returns false when there is no next page.
+   */
+  private async goToNextPage(categoryUrl: string, nextPageNumber: number): Promise<boolean> {
+    if (!this.page) return false;
+
+    switch (this.pagination.strategy) {
+      case 'urlParam':
+        await sleep(this.config.waitTimes.betweenPages ?? this.config.waitTimes.betweenRequests);
+        await this.navigateToUrl(this.getPageUrl(categoryUrl, nextPageNumber));
+        return true;
+
+      case 'nextButton': {
+        const nextButton = await this.page.$(this.config.selectors.nextPage!);
+        if (!nextButton || !(await nextButton.isVisible()) || !(await nextButton.isEnabled())) {
+          return false;
+        }
+        await sleep(this.config.waitTimes.betweenPages ?? this.config.waitTimes.betweenRequests);
+        await nextButton.click();
+        await this.page.waitForLoadState('domcontentloaded');
+        return true;
+      }
+
+      default:
+        // 'none' and 'infiniteScroll' load everything on a single page
+        return false;
+    }
+  }
+
+  /**
+   * Scroll until no more product cards are loaded
+   */
+  private async scrollToEnd(maxScrolls: number): Promise<void> {
+    if (!this.page) return;
+
+    let previousCount = -1;
+    for (let i = 0; i < maxScrolls; i++) {
+      const count = await this.page.$$eval(this.config.selectors.productCard, cards => cards.length);
+      if (count === previousCount) break;
+      previousCount = count;
+
+      await this.page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await this.waitForDynamicContent();
+    }
+  }
+
+  /**
+   * Extract and parse all product cards on the current page
+   */
+  private async extractProductsFromPage(): Promise<ProductData[]> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+
+    const selectors = this.config.selectors;
+    const rawProducts: RawProduct[] = await this.page.$$eval(
+      selectors.productCard,
+      (cards, sel) => {
+        const text = (card: Element, selector?: string) =>
+          selector ? card.querySelector(selector)?.textContent?.trim() || undefined : undefined;
+
+        return cards.map(card => {
+          const image = sel.productImage ? card.querySelector(sel.productImage) : null;
+          const link = sel.productUrl
+            ? card.querySelector(sel.productUrl)
+            : card.closest('a') || card.querySelector('a');
+
+          return {
+            name: text(card, sel.productName) || '',
+            price: text(card, sel.productPrice) || '',
+            originalPrice: text(card, sel.productOriginalPrice),
+            imageUrl: image?.getAttribute('src') || image?.getAttribute('data-src') || undefined,
+            productUrl: link?.getAttribute('href') || undefined,
+            brand: text(card, sel.productBrand),
+            unit: text(card, sel.productUnit),
+            availability: text(card, sel.productAvailability),
+          };
+        });
+      },
+      selectors
+    );
+
+    const products: ProductData[] = [];
+    for (const raw of rawProducts) {
+      const product = this.parseProduct(raw);
+      if (product) {
+        products.push(product);
+        this.productsScraped++;
+      }
+    }
+
+    return products;
+  }
+
+  /**
+   * Turn raw card text into ProductData using the configured parsing rules
+   */
+  private parseProduct(raw: RawProduct): ProductData | null {
+    const price = this.parsePriceText(raw.price);
+
+    if (!raw.name || price === null || !raw.productUrl) {
+      this.logError(
+        `Incomplete product card (name: "${raw.name}", price: "${raw.price}", url: "${raw.productUrl ?? ''}")`,
+        raw.productUrl
+      );
+      return null;
+    }
+
+    const originalPrice = raw.originalPrice ? this.parsePriceText(raw.originalPrice) : null;
+    const isOnSale = originalPrice !== null && originalPrice > price;
+    const { unit, unitQuantity } = this.parseUnit(raw.unit || raw.name);
+
+    return {
+      name: raw.name,
+      price,
+      currency: this.parsing.currency,
+      originalPrice: isOnSale ? originalPrice : undefined,
+      isOnSale,
+      imageUrl: raw.imageUrl ? new URL(raw.imageUrl, this.config.baseUrl).toString() : undefined,
+      productUrl: new URL(raw.productUrl, this.config.baseUrl).toString(),
+      brand: raw.brand,
+      unit,
+      unitQuantity,
+      // Availability selector marks out-of-stock products when present
+      isAvailable: !raw.availability,
+    };
+  }
+
+  /**
+   * Parse a price using the configured decimal separator (or auto-detect)
+   */
+  private parsePriceText(text: string): number | null {
+    if (!this.parsing.decimalSeparator) {
+      return parsePrice(text);
+    }
+
+    const thousandsSeparator = this.parsing.decimalSeparator === ',' ? '.' : ',';
+    const cleaned = text
+      .replace(/[^\d.,]/g, '')
+      .split(thousandsSeparator).join('')
+      .replace(this.parsing.decimalSeparator, '.');
+
+    const price = parseFloat(cleaned);
+    return isNaN(price) ? null : price;
+  }
+
+  /**
+   * Parse unit and quantity using the configured pattern, falling back to extractQuantity
+   */
+  private parseUnit(text: string): { unit?: string; unitQuantity?: number } {
+    if (this.unitRegex) {
+      const match = text.match(this.unitRegex);
+      if (match?.[1] && match[2]) {
+        const value = parseFloat(match[1].replace(',', '.'));
+        const siteUnit = match[2].toLowerCase();
+        if (!isNaN(value)) {
+          return { unit: this.parsing.unitMap?.[siteUnit] ?? siteUnit, unitQuantity: value };
+        }
+      }
+    }
+
+    const quantity = extractQuantity(text);
+    if (quantity) {
+      return { unit: this.parsing.unitMap?.[quantity.unit] ?? quantity.unit, unitQuantity: quantity.value };
+    }
+
+    return {};
+  }
+
+  /**
+   * Scrape detailed product information (not supported by the generic scraper)
+   */
+  async scrapeProductDetails(url: string): Promise<ProductData> {
+    throw new Error(`scrapeProductDetails not implemented for SelectorScraper. URL: ${url}`);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  async cleanup(): Promise<void> {
+    this.logger.info(`Cleaning up selector scraper for ${this.config.name}...`);
+    await this.closeBrowser();
+
+    const stats = this.getStats();
+    this.logger.info(`${this.config.name} scraping completed:`, stats);
+  }
+}
@@ -1,5 +1,12 @@
+import Joi from 'joi';
 import { BaseScraper } from '../base/BaseScraper';
-import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
+import {
+  ProductData,
+  ScraperConfig,
+  CategoryConfig,
+  DiscoveredCategory,
+  WoltVenueConfig,
+} from '../../types/scraper.types';
 import { scraperLogger } from '../../utils/logger';
 
 /**
@@ -46,10 +53,18 @@ interface DehydratedCategoryResult {
 }
 
 /**
- * Shared wait/retry configuration for all Wolt Albania venue scrapers.
- * Spread this into the venue-specific config objects.
+ * WoltScraper has no built-in categories - they come from supermarkets.scraper_config,
+ * the approved scraper_categories list, or are discovered on the venue page
  */
-export const woltAlbaniaBaseConfig = {
+export const woltCategories: CategoryConfig[] = [];
+
+/**
+ * WoltScraper default configuration.
+ * The venue (slug, city, country, currency) is read from supermarkets.scraper_config.wolt.
+ */
+export const woltConfig: Partial<ScraperConfig> = {
+  name: 'WoltScraper',
+  baseUrl: 'https://wolt.com',
   waitTimes: {
     pageLoad: 5000,
     dynamicContent: 3000,
@@ -63,7 +78,60 @@ export const woltAlbaniaBaseConfig = {
 };
 
 /**
- * Base scraper for any Wolt venue (Albania).
+ * Error thrown when scraper_config is not usable by WoltScraper
+ */
+export class WoltConfigError extends Error {
+  constructor(
+    public readonly supermarket: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid WoltScraper config for ${supermarket}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'WoltConfigError';
+  }
+}
+
+const slugSetting = (name: string) =>
+  Joi.string().trim().pattern(/^[a-z0-9-]+$/).required().messages({
+    'any.required': `Missing required venue setting "wolt.${name}"`,
+    'string.empty': `Venue setting "wolt.${name}" must not be empty`,
+    'string.pattern.base': `Venue setting "wolt.${name}" must be a URL slug (lowercase letters, digits and dashes)`,
+  });
+
+const configSchema = Joi.object({
+  wolt: Joi.object({
+    venueSlug: slugSetting('venueSlug'),
+    city: slugSetting('city'),
+    country: Joi.string().length(3).lowercase().required().messages({
+      'any.required': 'Missing required venue setting "wolt.country" (three-letter code from the venue URL, e.g. "alb")',
+      'string.length': 'Venue setting "wolt.country" must be the three-letter code from the venue URL, e.g. "alb"',
+      'string.lowercase': 'Venue setting "wolt.country" must be lowercase, as in the venue URL',
+    }),
+    currency: Joi.string().length(3).uppercase().required().messages({
+      'any.required': 'Missing required venue setting "wolt.currency"',
+      'string.length': 'Venue setting "wolt.currency" must be a three-letter currency code, e.g. "EUR"',
+      'string.uppercase': 'Venue setting "wolt.currency" must be uppercase, e.g. "EUR"',
+    }),
+    language: Joi.string().trim(),
+    discoverCategories: Joi.boolean(),
+    excludeCategories: Joi.array().items(Joi.string()),
+  }).required().messages({
+    'any.required': 'Missing "wolt" venue settings (venueSlug, city, country and currency are required)',
+  }),
+}).unknown(true);
+
+/**
+ * Validate a scraper config for WoltScraper.
+ * Returns a list of human-readable issues (empty when valid).
+ */
+export function validateWoltConfig(config: Partial<ScraperConfig>): string[] {
+  const { error } = configSchema.validate(config, { abortEarly: false, convert: false });
+  return error ? error.details.map(d => d.message) : [];
+}
+
+/**
+ * Scraper for any Wolt grocery venue, in any country Wolt operates in.
+ * The venue lives in supermarkets.scraper_config.wolt, so onboarding a venue is a database insert.
+ * Without a configured category list the categories are discovered on the venue page.
  *
  * Wolt serves product data via SSR with dehydrated React Query state
  * embedded in a URL-encoded <script> tag. Products are extracted by
@@ -76,17 +144,27 @@ export const woltAlbaniaBaseConfig = {
  *    so the scraper navigates to each sub-category individually.
  *
  * Data format:
- *   item.price: integer in smallest currency units (ALL cents, divide by 100)
+ *   item.price: integer in smallest currency units (divide by 100)
  *   item.unit_price.unit: "kilogram" | "gram" | "liter" | "piece" | etc.
  *   item.unit_price.base: unit quantity (e.g. 1, 0.5, 1.5)
  *   item.disabled_info: non-null when item is sold out
  *   item.images[0].url: product image URL
  */
-export abstract class WoltVenueScraper extends BaseScraper {
-  protected abstract readonly venueSlug: string;
+export class WoltScraper extends BaseScraper {
+  private readonly venue: WoltVenueConfig;
+  private readonly venueUrl: string;
 
   constructor(config: ScraperConfig) {
     super(config);
+
+    const issues = validateWoltConfig(config);
+    if (issues.length > 0) {
+      throw new WoltConfigError(config.name, issues);
+    }
+
+    this.venue = config.wolt!;
+    const { language = 'en', country, city, venueSlug } = this.venue;
+    this.venueUrl = `https://wolt.com/${language}/${country}/${city}/venue/${venueSlug}`;
   }
 
   async initialize(): Promise<void> {
@@ -96,10 +174,15 @@ export abstract class WoltVenueScraper extends BaseScraper {
     await this.launchBrowser();
     this.page = await this.createPage();
 
-    await this.page.goto(this.config.baseUrl, { waitUntil: 'domcontentloaded' });
+    await this.page.goto(this.venueUrl, { waitUntil: 'domcontentloaded' });
     await this.waitForDynamicContent();
     await this.handleCookieConsent();
 
+    if (this.config.categories.length === 0 && this.venue.discoverCategories !== false) {
+      this.config.categories = await this.discoverCategories();
+      scraperLogger.info(`No categories configured, discovered ${this.config.categories.length} on the venue page`);
+    }
+
     scraperLogger.info(`${this.config.name} scraper initialized`);
   }
 
@@ -117,9 +200,66 @@ export abstract class WoltVenueScraper extends BaseScraper {
     }
   }
 
+  /**
+   * Read the venue's top-level categories from the dehydrated state of the venue page.
+   * Parent categories are scraped through their sub-categories, so the top level is enough.
+   * Categories in wolt.excludeCategories are left out.
+   */
+  async discoverCategories(): Promise<DiscoveredCategory[]> {
+    if (!this.page) throw new Error('Page not initialized');
+
+    if (!this.page.url().startsWith(this.venueUrl)) {
+      await this.navigateToUrl(this.venueUrl);
+      await this.waitForDynamicContent();
+    }
+
+    const categories = await this.page.evaluate(
+      (venueSlug: string): Array<{ slug: string; name: string }> => {
+        const scripts = Array.from(document.querySelectorAll('script:not([src])'));
+        const dehydratedScript = scripts.find(
+          (s) => s.textContent && s.textContent.includes('dehydratedAt')
+        );
+        if (!dehydratedScript?.textContent) return [];
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(decodeURIComponent(dehydratedScript.textContent));
+        } catch {
+          return [];
+        }
+
+        // The venue assortment query: ["venue-assortment", "assortment", venueSlug, ...]
+        const queries: any[] = parsed.queries || [];
+        const assortment = queries.find(
+          (q: any) =>
+            Array.isArray(q.queryKey) &&
+            q.queryKey[2] === venueSlug &&
+            Array.isArray(q.state?.data?.categories)
+        );
+        if (!assortment) return [];
+
+        return assortment.state.data.categories
+          .filter((c: any) => typeof c.slug === 'string' && typeof c.name === 'string')
+          .map((c: any) => ({ slug: c.slug, name: c.name.trim() }));
+      },
+      this.venue.venueSlug
+    );
+
+    if (categories.length === 0) {
+      scraperLogger.warn(
+        `discoverCategories: no categories found in venue "${this.venue.venueSlug}". Query key format may have changed.`
+      );
+    }
+
+    const excluded = new Set(this.venue.excludeCategories ?? []);
+    return categories
+      .filter(({ slug }) => !excluded.has(slug))
+      .map(({ slug, name }) => ({ id: slug, name, url: `/items/${slug}` }));
+  }
+
   protected async scrapeCategory(category: CategoryConfig): Promise<ProductData[]> {
     const products: ProductData[] = [];
-    const categoryUrl = `${this.config.baseUrl}${category.url}`;
+    const categoryUrl = `${this.venueUrl}${category.url}`;
 
     scraperLogger.info(`Scraping category: ${category.name} — ${categoryUrl}`);
 
@@ -135,7 +275,7 @@ export abstract class WoltVenueScraper extends BaseScraper {
           `${category.name} is a parent category with ${result.subSlugs.length} sub-categories`
         );
         for (const subSlug of result.subSlugs) {
-          const subUrl = `${this.config.baseUrl}/items/${subSlug}`;
+          const subUrl = `${this.venueUrl}/items/${subSlug}`;
           await this.navigateToUrl(subUrl);
           await this.waitForDynamicContent();
 
@@ -211,7 +351,7 @@ export abstract class WoltVenueScraper extends BaseScraper {
   ): Promise<DehydratedCategoryResult> {
     if (!this.page) throw new Error('Page not initialized');
 
-    const venueSlug = this.venueSlug;
+    const venueSlug = this.venue.venueSlug;
 
     try {
       const result = await this.page.evaluate(
@@ -301,7 +441,7 @@ export abstract class WoltVenueScraper extends BaseScraper {
     return {
       name: item.name.trim(),
       price,
-      currency: 'ALL',
+      currency: this.venue.currency,
       originalPrice: isOnSale ? originalPrice : undefined,
       isOnSale,
       imageUrl: item.images?.[0]?.url ?? undefined,
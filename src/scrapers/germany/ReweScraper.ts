@@ -1,15 +1,9 @@
 import { BaseScraper } from '../base/BaseScraper';
 import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
-import { config } from '../../config/env';
-import { chromium } from 'playwright-extra';
-import stealth from 'puppeteer-extra-plugin-stealth';
 import topUserAgents from 'top-user-agents';
 import * as path from 'path';
 import * as os from 'os';
 
-// Apply stealth plugin to avoid bot detection
-chromium.use(stealth());
-
 /**
  * REWE categories configuration
  * Uses www.rewe.de/shop/ URLs (not shop.rewe.de which has Cloudflare protection)
@@ -81,25 +75,27 @@ interface ReweProduct {
  * 1. Launches browser with stealth mode and persistent session
  * 2. Navigates to www.rewe.de/shop/
  * 3. Selects "Lieferservice" (delivery service) option
- * 4. Enters postal code 10115 (Berlin) to set delivery zone
- * 5. Once market is selected, navigates to category pages to scrape products with actual prices
+ * 4. Enters the location's postal code to set delivery zone
+ * 5. Checks that the session's market delivers to that postal code, failing the run otherwise
+ * 6. Once market is selected, navigates to category pages to scrape products with actual prices
  *
  * STEALTH MODE FEATURES:
  * - Uses playwright-extra with puppeteer-extra-plugin-stealth
- * - Persistent browser context to maintain cookies/session
+ * - Session file per postal code to maintain cookies between runs
  * - Randomized viewport and realistic fingerprinting
  * - German locale and timezone settings
  *
- * The scraper uses Berlin (10115) as the default delivery zone.
+ * Without a store location the scraper uses Berlin (10115) as the delivery zone.
  */
 export class ReweScraper extends BaseScraper {
   private readonly BASE_URL = 'https://www.rewe.de';
-  private readonly POSTAL_CODE = '10115'; // Berlin
+  private readonly POSTAL_CODE: string;
   private marketSelected = false;
-  private browserContext: Awaited<ReturnType<typeof chromium.launchPersistentContext>> | null = null;
+  private readonly BERLIN_COORDINATES = { latitude: 52.52, longitude: 13.405 };
 
   constructor(config: ScraperConfig) {
     super(config);
+    this.POSTAL_CODE = config.location?.postalCode ?? '10115'; // Berlin
   }
 
   /**
@@ -114,18 +110,21 @@ export class ReweScraper extends BaseScraper {
 
     // Navigate to shop page and select delivery market
     await this.selectDeliveryMarket();
+    await this.verifyDeliveryMarket();
 
     this.logger.info(`REWE scraper initialized with delivery zone ${this.POSTAL_CODE}`);
   }
 
   /**
-   * Launch browser with stealth plugin and persistent context
+   * Get a context from a stealth browser of the pool. Cookies (including Cloudflare clearance
+   * and the selected market) are kept in a session file per postal code between runs.
    */
   private async launchStealthBrowser(): Promise<void> {
     this.logger.info('Launching stealth browser for REWE...');
 
-    // Create persistent session directory
-    const sessionDir = path.join(os.tmpdir(), 'rewe-scraper-session');
+    const sessionFile = path.join(os.tmpdir(), `rewe-scraper-session-${this.POSTAL_CODE}.json`);
+    // Locations without coordinates do not share their position rather than claim to be in Berlin
+    const coordinates = this.config.location ? this.config.location.coordinates : this.BERLIN_COORDINATES;
 
     // Randomize viewport slightly for fingerprint variation
     const viewportWidth = 1920 + Math.floor(Math.random() * 100);
@@ -135,72 +134,35 @@ export class ReweScraper extends BaseScraper {
     const userAgent = topUserAgents[Math.floor(Math.random() * Math.min(10, topUserAgents.length))];
     this.logger.debug(`Using user agent: ${userAgent}`);
 
-    // Launch with persistent context for session management
     // Use PLAYWRIGHT_HEADLESS env var to control headless mode
     // For Cloudflare bypass, headed mode with xvfb works best in CI
     const isHeadless = process.env.PLAYWRIGHT_HEADLESS === 'true';
     this.logger.info(`Browser mode: ${isHeadless ? 'headless' : 'headed'}`);
 
-    // Parse proxy URL if configured for this supermarket
-    let proxyConfig: { server: string; username?: string; password?: string } | undefined;
-    const proxyUrl = this.getProxyUrlForSupermarket();
-    if (proxyUrl) {
-      const url = new URL(proxyUrl);
-      proxyConfig = {
-        server: `${url.protocol}//${url.host}`,
-        username: url.username || undefined,
-        password: url.password || undefined,
-      };
-      this.logger.info(`Using proxy: ${proxyConfig.server}`);
-    }
-
-    this.browserContext = await chromium.launchPersistentContext(sessionDir, {
-      headless: isHeadless,
-      args: [
-        ...(isHeadless ? ['--headless=new'] : []), // New headless mode if headless
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-blink-features=AutomationControlled',
-        '--start-maximized',
-      ],
+    await this.launchBrowser({
+      launch: {
+        stealth: true,
+        headless: isHeadless,
+        args: [
+          ...(isHeadless ? ['--headless=new'] : []), // New headless mode if headless
+          '--start-maximized',
+        ],
+      },
+      sessionFile,
       viewport: { width: viewportWidth, height: viewportHeight },
       userAgent,
       locale: 'de-DE',
       timezoneId: 'Europe/Berlin',
-      permissions: ['geolocation'],
-      geolocation: { latitude: 52.52, longitude: 13.405 }, // Berlin coordinates
-      proxy: proxyConfig,
+      permissions: coordinates ? ['geolocation'] : [],
+      geolocation: coordinates,
+      // German locale cookie
+      cookies: [{ name: 'userCountry', value: 'DE', domain: '.rewe.de', path: '/' }],
     });
-
-    // Get the default page from persistent context
-    const pages = this.browserContext.pages();
-    this.page = pages.length > 0 ? pages[0] : await this.browserContext.newPage();
-
-    // Set German locale cookie
-    await this.browserContext.addCookies([
-      { name: 'userCountry', value: 'DE', domain: '.rewe.de', path: '/' },
-    ]);
+    this.page = await this.createPage();
 
     this.logger.info('Stealth browser launched successfully');
   }
 
-  /**
-   * Get proxy URL for this supermarket from config
-   */
-  private getProxyUrlForSupermarket(): string | undefined {
-    const proxyConfigMap = config.scraper.proxyConfig;
-    if (proxyConfigMap.size === 0) return undefined;
-
-    const supermarketName = this.config.name.toLowerCase();
-    for (const [key, url] of proxyConfigMap.entries()) {
-      if (supermarketName.includes(key)) {
-        return url;
-      }
-    }
-    return undefined;
-  }
-
   /**
    * Attempt to solve Cloudflare Turnstile challenge by clicking the checkbox
    * Returns true if challenge was solved, false otherwise
@@ -459,20 +421,52 @@ export class ReweScraper extends BaseScraper {
       // Wait for market selection to complete
       await this.page.waitForTimeout(3000);
 
-      // Verify market was selected by checking for delivery info or prices
-      const pageContent = await this.page.content();
-      if (pageContent.includes('Lieferung') || pageContent.includes('€')) {
-        this.marketSelected = true;
-        this.logger.info('Delivery market selected successfully');
-      } else {
-        this.logger.warn('Market selection may not have completed successfully');
-      }
-
     } catch (error) {
       this.logger.error('Failed to select delivery market:', error);
     }
   }
 
+  /**
+   * Make sure the session delivers to this run's postal code. Prices differ between markets,
+   * so a session still set to another market (e.g. restored from an older run) fails the run
+   * instead of storing that market's prices under this location.
+   */
+  private async verifyDeliveryMarket(): Promise<void> {
+    const activePostalCode = await this.getActiveMarketPostalCode();
+    if (activePostalCode !== this.POSTAL_CODE) {
+      throw new Error(
+        `REWE delivery market is set to ${activePostalCode ?? 'no postal code'}, expected ${this.POSTAL_CODE}`
+      );
+    }
+
+    this.marketSelected = true;
+    this.logger.info(`Delivery market for ${this.POSTAL_CODE} selected`);
+  }
+
+  /**
+   * Postal code of the selected delivery market: from REWE's market cookie, or else from
+   * the delivery address shown in the page header. Null if none can be found.
+   */
+  private async getActiveMarketPostalCode(): Promise<string | null> {
+    if (!this.page) return null;
+
+    const cookie = (await this.page.context().cookies(this.BASE_URL)).find(c => c.name === 'marketsCookie');
+    if (cookie) {
+      try {
+        const markets = JSON.parse(decodeURIComponent(cookie.value)) as {
+          online?: { zipCode?: string; marketZipCode?: string };
+        };
+        const zipCode = markets.online?.zipCode ?? markets.online?.marketZipCode;
+        if (zipCode) return String(zipCode);
+      } catch {
+        // Unexpected cookie format - fall back to the page
+      }
+    }
+
+    const header = await this.page.textContent('header').catch(() => null);
+    return header?.match(/(?:Liefer\w*|PLZ)\D{0,40}(\d{5})/)?.[1] ?? null;
+  }
+
   /**
    * Handle cookie consent dialog if present
    */
@@ -528,6 +522,7 @@ export class ReweScraper extends BaseScraper {
 
       // Navigate to first page
       this.logger.debug(`Navigating to ${baseCategoryUrl}`);
+      await this.throttle(baseCategoryUrl);
       await this.page.goto(baseCategoryUrl, { waitUntil: 'domcontentloaded' });
       await this.waitForDynamicContent();
 
@@ -555,13 +550,19 @@ export class ReweScraper extends BaseScraper {
       const totalPages = await this.getTotalPages();
       this.logger.info(`Category ${category.name}: Found ${totalPages} pages`);
 
-      // Scrape each page
-      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      // Scrape each page (continue after the last saved page when resuming)
+      const startPage = this.getResumePage(category.id);
+      if (startPage > 1) {
+        this.logger.info(`Resuming ${category.name} from page ${startPage}`);
+      }
+
+      for (let pageNum = startPage; pageNum <= totalPages; pageNum++) {
         try {
           // Navigate to page (skip for first page as we're already there)
           if (pageNum > 1) {
             const pageUrl = `${baseCategoryUrl}?page=${pageNum}`;
             this.logger.debug(`Navigating to page ${pageNum}: ${pageUrl}`);
+            await this.throttle(pageUrl);
             await this.page.goto(pageUrl, { waitUntil: 'domcontentloaded' });
             await this.waitForDynamicContent();
 
@@ -1001,12 +1002,7 @@ export class ReweScraper extends BaseScraper {
   async cleanup(): Promise<void> {
     this.logger.info(`Cleaning up REWE scraper...`);
 
-    // Close persistent browser context
-    if (this.browserContext) {
-      await this.browserContext.close();
-      this.browserContext = null;
-      this.logger.info('Stealth browser closed');
-    }
+    await this.closeBrowser();
 
     const stats = this.getStats();
     this.logger.info('REWE scraping completed:', stats);
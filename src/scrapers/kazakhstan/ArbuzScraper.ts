@@ -89,7 +89,9 @@ interface ArbuzProduct {
 /**
  * Scraper for Arbuz.kz Kazakhstan (arbuz.kz)
  * Uses the REST API for efficient data extraction
- * Browser context is needed to establish session and obtain auth token
+ * Browser context is needed to establish session and obtain auth token: the catalog API
+ * only answers requests carrying the cookies set by the storefront page, so it stays on
+ * BaseScraper rather than ApiScraper
  */
 export class ArbuzScraper extends BaseScraper {
   private readonly API_BASE = 'https://arbuz.kz/api/v1';
@@ -136,7 +138,7 @@ export class ArbuzScraper extends BaseScraper {
     categoryName: string
   ): Promise<ProductData[]> {
     const products: ProductData[] = [];
-    let page = 1;
+    let page = this.getResumePage(categoryId);
     const limit = 40;
     let hasMore = true;
 
@@ -186,7 +188,8 @@ export class ArbuzScraper extends BaseScraper {
         this.logError(
           `Failed to scrape page ${page} of ${categoryName}`,
           `${this.API_BASE}/shop/catalog/${categoryId}?page=${page}`,
-          error as Error
+          error as Error,
+          page
         );
         hasMore = false;
       }
@@ -1,9 +1,6 @@
 import { BaseScraper } from '../base/BaseScraper';
 import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
 import { extractQuantity } from '../../utils/normalizer';
-import { BrowserContext } from 'playwright';
-import { chromium } from 'playwright-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 
 /**
  * Lotus's API product type
@@ -158,10 +155,12 @@ export const lotussApiConfig: Partial<ScraperConfig> = {
 
 /**
  * API-based scraper for Lotus's Malaysia (lotuss.com.my)
- * Uses Playwright to establish session, then makes direct API calls
+ * Uses Playwright to establish session, then captures the product API responses the
+ * category pages request while scrolling. The API sits behind bot protection that only
+ * the stealth browser passes, so it stays on BaseScraper rather than ApiScraper
  */
 export class LotussApiScraper extends BaseScraper {
-  private context: BrowserContext | null = null;
+  readonly supportsProductDetails = true;
   private readonly WEBSITE_CODE = 'malaysia_hy';
   private apiHeaders: Record<string, string> = {};
   private capturedProducts: Map<string, LotussApiProduct[]> = new Map();
@@ -190,25 +189,11 @@ export class LotussApiScraper extends BaseScraper {
     const isHeadless = process.env.PLAYWRIGHT_HEADLESS !== 'false';
     this.logger.info(`Launching browser in ${isHeadless ? 'headless' : 'headed'} mode with stealth plugin`);
 
-    // Add stealth plugin to avoid bot detection
-    chromium.use(StealthPlugin());
-
-    this.browser = await chromium.launch({
-      headless: isHeadless,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-web-security',
-      ],
+    await this.launchBrowser({
+      launch: { stealth: true, headless: isHeadless, args: ['--disable-web-security'] },
     });
 
-    this.context = await this.browser.newContext({
-      userAgent: this.getUserAgent(),
-      viewport: { width: 1920, height: 1080 },
-    });
-
-    this.page = await this.context.newPage();
+    this.page = await this.createPage();
 
     // Set up route interception to capture API responses
     await this.page.route('**/lotuss-mobile-bff/product/v2/products**', async (route) => {
@@ -497,19 +482,9 @@ export class LotussApiScraper extends BaseScraper {
       } catch {
         // Ignore errors during unroute
       }
-      await this.page.close();
-      this.page = null;
     }
 
-    if (this.context) {
-      await this.context.close();
-      this.context = null;
-    }
-
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    await this.closeBrowser();
 
     const stats = this.getStats();
     this.logger.info("Lotus's API scraping completed:", stats);
@@ -61,6 +61,7 @@ export const lotussConfig: Partial<ScraperConfig> = {
  * Malaysia's largest hypermarket chain (formerly Tesco Malaysia)
  */
 export class LotussScraper extends BaseScraper {
+  readonly supportsProductDetails = true;
   constructor(config: ScraperConfig) {
     super(config);
   }
@@ -164,7 +165,8 @@ export class LotussScraper extends BaseScraper {
         this.logError(
           `Failed to scrape ${categoryName} page ${pageNumber}`,
           baseUrl,
-          error as Error
+          error as Error,
+          pageNumber
         );
         hasMorePages = false;
       }
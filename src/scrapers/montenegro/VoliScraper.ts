@@ -133,6 +133,7 @@ export const voliConfig: Partial<ScraperConfig> = {
  * Montenegro's leading supermarket chain
  */
 export class VoliScraper extends BaseScraper {
+  readonly supportsProductDetails = true;
   constructor(config: ScraperConfig) {
     super(config);
   }
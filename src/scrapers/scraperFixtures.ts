@@ -0,0 +1,104 @@
+import { ScraperConfig, ProductData } from '../types/scraper.types';
+import { BaseScraper } from './base/BaseScraper';
+import {
+  NetworkFixtures,
+  FixtureMode,
+  FIXTURES_ROOT,
+  getScraperFixtureDir,
+  compareWithExpected,
+} from './base/NetworkFixtures';
+import { getScraperRegistration, getRegisteredScraperNames } from './scraperRegistry';
+
+export interface FixtureScraperOptions {
+  /** Category IDs to scrape - defaults to the categories stored in the fixture (replay) or the first category (record) */
+  categoryIds?: string[];
+  /** Root directory holding one fixture directory per scraper class */
+  fixturesRoot?: string;
+}
+
+export interface FixtureReplayResult {
+  products: ProductData[];
+  expected: ProductData[];
+  differences: string[];
+  misses: number;
+}
+
+/**
+ * Create a scraper from its registry defaults with network fixtures attached
+ */
+export function createFixtureScraper(
+  className: string,
+  mode: FixtureMode,
+  options: FixtureScraperOptions = {}
+): { scraper: BaseScraper; fixtures: NetworkFixtures; config: ScraperConfig } {
+  const registration = getScraperRegistration(className);
+  if (!registration) {
+    throw new Error(`Scraper not found: ${className}. Available: ${getRegisteredScraperNames().join(', ')}`);
+  }
+
+  const fixtures = new NetworkFixtures(
+    mode,
+    getScraperFixtureDir(className, options.fixturesRoot ?? FIXTURES_ROOT)
+  );
+
+  const categoryIds = options.categoryIds?.length
+    ? options.categoryIds
+    : mode === 'replay'
+      ? fixtures.getRecordedCategories()
+      : registration.categories.slice(0, 1).map(c => c.id);
+
+  const categories = registration.categories.filter(c => categoryIds.includes(c.id));
+  if (categories.length === 0) {
+    throw new Error(`No matching categories for ${className}: ${categoryIds.join(', ')}`);
+  }
+
+  const defaultConfig = registration.defaultConfig;
+  const config: ScraperConfig = {
+    supermarketId: `fixture-${className.toLowerCase()}-id`,
+    name: defaultConfig.name || className,
+    baseUrl: defaultConfig.baseUrl!,
+    categories,
+    selectors: defaultConfig.selectors!,
+    // No need to be polite to recorded responses
+    waitTimes: mode === 'replay'
+      ? { pageLoad: 0, dynamicContent: 0, betweenRequests: 0, betweenPages: 0 }
+      : defaultConfig.waitTimes!,
+    headers: defaultConfig.headers,
+    cookies: defaultConfig.cookies,
+    maxRetries: mode === 'replay' ? 0 : defaultConfig.maxRetries || 3,
+    concurrentPages: defaultConfig.concurrentPages || 1,
+    userAgents: defaultConfig.userAgents,
+    wolt: defaultConfig.wolt,
+  };
+
+  const scraper = new registration.scraperClass(config);
+  scraper.setNetworkFixtures(fixtures);
+
+  return { scraper, fixtures, config };
+}
+
+/**
+ * Run a scraper fully offline against its golden fixture and compare
+ * the result with the expected ProductData snapshot.
+ */
+export async function replayScraperFixture(
+  className: string,
+  options: FixtureScraperOptions = {}
+): Promise<FixtureReplayResult> {
+  const { scraper, fixtures } = createFixtureScraper(className, 'replay', options);
+
+  try {
+    await scraper.initialize();
+    const products = await scraper.scrapeProductList();
+    const expected = fixtures.loadExpected();
+
+    return {
+      products,
+      expected,
+      differences: compareWithExpected(products, expected),
+      misses: fixtures.getMissCount(),
+    };
+  } finally {
+    await scraper.cleanup();
+  }
+}
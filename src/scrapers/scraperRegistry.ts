@@ -16,6 +16,8 @@ import { WoltBelaFrutaScraper, woltBelaFrutaConfig, woltBelaFrutaCategories } fr
 import { WoltEcoMarketKikaScraper, woltEcoMarketKikaConfig, woltEcoMarketKikaCategories } from './albania/WoltEcoMarketKikaScraper';
 import { GurkeralScraper, gurkeralConfig, gurkeralCategories } from './austria/GurkeralScraper';
 import { AuchanMoscowScraper, auchanMoscowConfig, auchanMoscowCategories } from './russia/AuchanMoscowScraper';
+import { SelectorScraper, selectorConfig, selectorCategories } from './generic/SelectorScraper';
+import { WoltScraper, woltConfig, woltCategories } from './generic/WoltScraper';
 
 /**
  * Scraper registration entry containing all metadata for a scraper
@@ -29,6 +31,11 @@ export interface ScraperRegistration {
   defaultConfig: Partial<ScraperConfig>;
   /** Available categories for this scraper */
   categories: CategoryConfig[];
+  /**
+   * Other implementations for the same supermarket, tried in order when this one fails or
+   * returns anomalously few products. scraper_config.fallbacks overrides it per supermarket.
+   */
+  fallbacks?: string[];
 }
 
 /**
@@ -75,6 +82,7 @@ export const SCRAPER_REGISTRY: Map<string, ScraperRegistration> = new Map([
       scraperClass: AuchanUaScraper,
       defaultConfig: auchanUaConfig,
       categories: auchanUaCategories,
+      fallbacks: ['AuchanUaGraphQLScraper'],
     },
   ],
   [
@@ -84,6 +92,7 @@ export const SCRAPER_REGISTRY: Map<string, ScraperRegistration> = new Map([
       scraperClass: AuchanUaGraphQLScraper,
       defaultConfig: auchanUaGraphQLConfig,
       categories: auchanUaGraphQLCategories,
+      fallbacks: ['AuchanUaScraper'],
     },
   ],
   [
@@ -129,6 +138,7 @@ export const SCRAPER_REGISTRY: Map<string, ScraperRegistration> = new Map([
       scraperClass: LotussScraper,
       defaultConfig: lotussConfig,
       categories: lotussCategories,
+      fallbacks: ['LotussApiScraper'],
     },
   ],
   [
@@ -138,6 +148,7 @@ export const SCRAPER_REGISTRY: Map<string, ScraperRegistration> = new Map([
       scraperClass: LotussApiScraper,
       defaultConfig: lotussApiConfig,
       categories: lotussApiCategories,
+      fallbacks: ['LotussScraper'],
     },
   ],
   [
@@ -185,6 +196,24 @@ export const SCRAPER_REGISTRY: Map<string, ScraperRegistration> = new Map([
       categories: auchanMoscowCategories,
     },
   ],
+  [
+    'SelectorScraper',
+    {
+      className: 'SelectorScraper',
+      scraperClass: SelectorScraper,
+      defaultConfig: selectorConfig,
+      categories: selectorCategories,
+    },
+  ],
+  [
+    'WoltScraper',
+    {
+      className: 'WoltScraper',
+      scraperClass: WoltScraper,
+      defaultConfig: woltConfig,
+      categories: woltCategories,
+    },
+  ],
 ]);
 
 /**
@@ -194,6 +223,29 @@ export function getScraperRegistration(className: string): ScraperRegistration |
   return SCRAPER_REGISTRY.get(className);
 }
 
+/**
+ * Find a scraper without the database: by class name ("MercadonaScraper"), class name
+ * without the "Scraper" suffix ("mercadona") or default config name, case-insensitive
+ */
+export function findScraperRegistration(identifier: string): ScraperRegistration | undefined {
+  const wanted = identifier.toLowerCase();
+  return getAllScraperRegistrations().find(
+    registration =>
+      registration.className.toLowerCase() === wanted ||
+      registration.className.replace(/Scraper$/, '').toLowerCase() === wanted ||
+      registration.defaultConfig.name?.toLowerCase() === wanted
+  );
+}
+
+/**
+ * Implementations to try for a supermarket, in order: its scraper class, then the fallbacks
+ * from scraper_config.fallbacks or the registry. Unregistered fallbacks are left out.
+ */
+export function getScraperImplementations(scraperClass: string, fallbacks?: string[]): string[] {
+  const chain = fallbacks ?? SCRAPER_REGISTRY.get(scraperClass)?.fallbacks ?? [];
+  return [...new Set([scraperClass, ...chain.filter(className => SCRAPER_REGISTRY.has(className))])];
+}
+
 /**
  * Get all registered scrapers
  */
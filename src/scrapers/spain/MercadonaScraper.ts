@@ -1,5 +1,5 @@
-import { BaseScraper } from '../base/BaseScraper';
-import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
+import { ApiScraper } from '../base/ApiScraper';
+import { ProductData, ScraperConfig, CategoryConfig, DiscoveredCategory } from '../../types/scraper.types';
 
 /**
  * Mercadona categories configuration
@@ -224,6 +224,11 @@ interface MercadonaCategoryResponse {
   products?: MercadonaProduct[];
 }
 
+interface MercadonaCategoryTreeResponse {
+  count: number;
+  results: MercadonaCategoryResponse[];
+}
+
 interface MercadonaProduct {
   id: string;
   slug: string;
@@ -252,69 +257,63 @@ interface MercadonaProduct {
 /**
  * Scraper for Mercadona Spain (tienda.mercadona.es)
  * Uses the REST API for efficient data extraction
- * Requires browser context to establish session with postal code
+ * The delivery zone is selected through the postal code API, so no browser is needed.
+ * Prices depend on the warehouse serving the store location's postal code (Madrid by default).
  */
-export class MercadonaScraper extends BaseScraper {
+export class MercadonaScraper extends ApiScraper {
   private readonly API_BASE = 'https://tienda.mercadona.es/api';
-  private readonly POSTAL_CODE = '28001'; // Madrid postal code
+  private readonly POSTAL_CODE: string;
+  private warehouse?: string;
 
   constructor(config: ScraperConfig) {
     super(config);
+    this.POSTAL_CODE = config.location?.postalCode ?? '28001'; // Madrid
+    this.warehouse = config.location?.storeId;
   }
 
   /**
-   * Initialize the scraper with browser (needed to set postal code)
+   * Set postal code to establish delivery zone (warehouse)
    */
-  async initialize(): Promise<void> {
-    this.logger.info(`Initializing Mercadona API scraper...`);
-    this.startTime = Date.now();
-
-    // Launch browser to handle postal code entry
-    await this.launchBrowser();
-    this.page = await this.createPage();
-
-    // Navigate to main page to trigger postal code dialog
-    this.logger.info('Navigating to Mercadona to establish session...');
-    await this.page.goto('https://tienda.mercadona.es', { waitUntil: 'domcontentloaded' });
-    await this.waitForDynamicContent();
+  protected async setupSession(): Promise<void> {
+    try {
+      this.logger.info(`Setting postal code: ${this.POSTAL_CODE}`);
+      const response = await this.request(`${this.API_BASE}/postal-codes/actions/change-pc/`, {
+        method: 'PUT',
+        body: { new_postal_code: this.POSTAL_CODE },
+      });
 
-    // Enter postal code to unlock the site
-    await this.enterPostalCode();
+      const warehouse = response.headers.get('x-customer-wh');
+      if (!warehouse) {
+        // The site answers without the header if the postal code API changes - prices would silently be the default zone's
+        this.logger.warn(`Postal code response has no x-customer-wh header, using warehouse ${this.warehouse ?? 'default'}`);
+        return;
+      }
 
-    this.logger.info(`Mercadona API scraper initialized`);
+      this.warehouse = warehouse;
+      this.logger.info(`Postal code set successfully (warehouse: ${this.warehouse})`);
+    } catch (error) {
+      // Category endpoints still work with the location's configured warehouse, or the default one
+      this.logger.warn('Failed to set postal code:', (error as Error).message);
+    }
   }
 
   /**
-   * Enter postal code to establish delivery zone
+   * Read the category tree from the API. The second level is what the registry lists:
+   * top-level sections only group them and have no products of their own.
    */
-  private async enterPostalCode(): Promise<void> {
-    if (!this.page) return;
-
-    try {
-      // Wait for postal code input field
-      const postalInput = await this.page.waitForSelector('input[name="postalCode"]', {
-        timeout: 10000,
-      }).catch(() => null);
-
-      if (postalInput) {
-        this.logger.info(`Entering postal code: ${this.POSTAL_CODE}`);
-        await postalInput.fill(this.POSTAL_CODE);
-
-        // Click the submit button
-        const submitButton = await this.page.$('button[type="submit"]');
-        if (submitButton) {
-          await submitButton.click();
-          await this.waitForDynamicContent();
-        }
-
-        this.logger.info('Postal code entered successfully');
-      } else {
-        // Postal code may already be set from previous session
-        this.logger.debug('Postal code input not found - session may already be established');
-      }
-    } catch (error) {
-      this.logger.warn('Failed to enter postal code:', error);
-    }
+  async discoverCategories(): Promise<DiscoveredCategory[]> {
+    const tree = await this.fetchJson<MercadonaCategoryTreeResponse>(`${this.API_BASE}/categories/`, {
+      query: { lang: 'es', wh: this.warehouse },
+    });
+
+    return tree.results.flatMap(section =>
+      (section.categories ?? []).map(category => ({
+        id: String(category.id),
+        name: category.name,
+        url: `/categories/${category.id}/`,
+        parentName: section.name,
+      }))
+    );
   }
 
   /**
@@ -378,30 +377,15 @@ export class MercadonaScraper extends BaseScraper {
   }
 
   /**
-   * Fetch a category from the API using browser context
+   * Fetch a category from the API
    */
   private async fetchCategory(categoryId: string): Promise<MercadonaCategoryResponse | null> {
-    if (!this.page) {
-      throw new Error('Page not initialized');
-    }
-
     const url = `${this.API_BASE}/categories/${categoryId}/`;
 
     try {
-      // Use Playwright's request context (includes cookies from browser)
-      const response = await this.page.request.get(url, {
-        headers: {
-          'Accept': 'application/json',
-        },
+      return await this.fetchJson<MercadonaCategoryResponse>(url, {
+        query: { lang: 'es', wh: this.warehouse },
       });
-
-      if (!response.ok()) {
-        this.logger.warn(`API request failed: ${response.status()} ${response.statusText()}`);
-        return null;
-      }
-
-      const data: MercadonaCategoryResponse = await response.json();
-      return data;
     } catch (error) {
       this.logger.error(`Failed to fetch ${url}:`, error);
       return null;
@@ -601,15 +585,4 @@ export class MercadonaScraper extends BaseScraper {
     // This method is kept for interface compatibility
     throw new Error(`scrapeProductDetails not implemented for API-based scraper. URL: ${url}`);
   }
-
-  /**
-   * Cleanup resources
-   */
-  async cleanup(): Promise<void> {
-    this.logger.info(`Cleaning up Mercadona API scraper...`);
-    await this.closeBrowser();
-
-    const stats = this.getStats();
-    this.logger.info('Mercadona scraping completed:', stats);
-  }
 }
@@ -1,3 +1,4 @@
+import { Page } from 'playwright';
 import { BaseScraper } from '../base/BaseScraper';
 import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
 
@@ -39,7 +40,7 @@ export const migrosConfig: Partial<ScraperConfig> = {
     betweenPages: 3000,
   },
   maxRetries: 3,
-  concurrentPages: 2,
+  concurrentPages: 2, // Categories are fetched in parallel on separate pages
   userAgents: [
     'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -128,13 +129,24 @@ export class MigrosScraper extends BaseScraper {
    * Scrape a single category using REST API
    */
   protected async scrapeCategory(category: CategoryConfig): Promise<ProductData[]> {
-    return this.scrapeCategoryViaApi(category.url, category.id, category.name);
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    return this.scrapeCategoryOnPage(category, this.page);
+  }
+
+  /**
+   * Scrape a category on a given page (lets BaseScraper run categories concurrently)
+   */
+  protected async scrapeCategoryOnPage(category: CategoryConfig, page: Page): Promise<ProductData[]> {
+    return this.scrapeCategoryViaApi(page, category.url, category.id, category.name);
   }
 
   /**
    * Scrape a single category using REST API with pagination
    */
   private async scrapeCategoryViaApi(
+    browserPage: Page,
     categoryUrl: string,
     categoryId: string,
     categoryName: string
@@ -145,7 +157,7 @@ export class MigrosScraper extends BaseScraper {
     const categorySlug = categoryUrl.replace(/^\//, '');
 
     // First request to get total page count
-    const firstPageData = await this.fetchCategoryPage(categorySlug, 1);
+    const firstPageData = await this.fetchCategoryPage(browserPage, categorySlug, 1);
 
     if (!firstPageData?.successful) {
       this.logger.warn(`Failed to fetch category ${categoryName}: API returned unsuccessful`);
@@ -180,7 +192,7 @@ export class MigrosScraper extends BaseScraper {
       try {
         await this.waitBetweenRequests();
 
-        const pageData = await this.fetchCategoryPage(categorySlug, page);
+        const pageData = await this.fetchCategoryPage(browserPage, categorySlug, page);
 
         if (!pageData?.successful) {
           this.logger.warn(`Failed to fetch page ${page} of ${categoryName}`);
@@ -208,7 +220,8 @@ export class MigrosScraper extends BaseScraper {
         this.logError(
           `Failed to scrape page ${page} of ${categoryName}`,
           `${this.API_BASE}/${categorySlug}?sayfa=${page}`,
-          error as Error
+          error as Error,
+          page
         );
       }
     }
@@ -219,18 +232,18 @@ export class MigrosScraper extends BaseScraper {
   /**
    * Fetch a single category page from the API using browser context
    */
-  private async fetchCategoryPage(categorySlug: string, page: number): Promise<MigrosApiResponse | null> {
-    if (!this.page) {
-      throw new Error('Page not initialized');
-    }
-
+  private async fetchCategoryPage(
+    browserPage: Page,
+    categorySlug: string,
+    page: number
+  ): Promise<MigrosApiResponse | null> {
     const url = page === 1
       ? `${this.API_BASE}/${categorySlug}`
       : `${this.API_BASE}/${categorySlug}?sayfa=${page}`;
 
     try {
       // Use Playwright's request context (includes cookies from browser)
-      const response = await this.page.request.get(url, {
+      const response = await browserPage.request.get(url, {
         headers: {
           'Accept': 'application/json',
           'X-PWA': 'true',
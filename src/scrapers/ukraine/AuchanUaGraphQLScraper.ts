@@ -1,8 +1,7 @@
-import { BaseScraper } from '../base/BaseScraper';
+import { ApiScraper } from '../base/ApiScraper';
 import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
 import { extractQuantity } from '../../utils/normalizer';
-import { retry, sleep } from '../../utils/retry';
-import https from 'https';
+import { sleep } from '../../utils/retry';
 
 /**
  * GraphQL category configuration with API IDs
@@ -109,6 +108,8 @@ export const auchanUaGraphQLConfig: Partial<ScraperConfig> = {
     betweenRequests: 100, // Small delay between API calls
     betweenPages: 50,
   },
+  // Same budget as AuchanUaScraper - both hit Auchan's servers
+  rateLimit: { requestsPerSecond: 5, burst: 5, key: 'auchan.ua' },
   maxRetries: 3,
   concurrentPages: 5, // Can handle more concurrent requests with API
   userAgents: [
@@ -162,7 +163,8 @@ query getCategoryProducts($filter: ProductAttributeFilterInput, $pageSize: Int,
  * High-performance GraphQL-based scraper for Auchan Ukraine
  * Uses direct API calls instead of browser automation for much faster scraping
  */
-export class AuchanUaGraphQLScraper extends BaseScraper {
+export class AuchanUaGraphQLScraper extends ApiScraper {
+  private readonly GRAPHQL_URL = 'https://express.auchan.ua/graphql/';
   private readonly PAGE_SIZE = 100; // Max products per request
   private readonly MAX_CONCURRENT_PAGES = 5; // Parallel page requests
   private readonly MAX_PAGES_PER_CATEGORY = 100; // Safety limit
@@ -171,15 +173,6 @@ export class AuchanUaGraphQLScraper extends BaseScraper {
     super(config);
   }
 
-  /**
-   * Initialize the scraper (no browser needed)
-   */
-  async initialize(): Promise<void> {
-    this.logger.info(`Initializing Auchan Ukraine GraphQL scraper...`);
-    this.startTime = Date.now();
-    this.logger.info(`Auchan Ukraine GraphQL scraper initialized (no browser required)`);
-  }
-
   /**
    * Scrape a single category using GraphQL API
    */
@@ -340,72 +333,19 @@ export class AuchanUaGraphQLScraper extends BaseScraper {
     categoryId: string,
     pageNum: number
   ): Promise<GraphQLSearchResponse> {
-    return retry(
-      async () => {
-        const variables = {
+    return this.fetchGraphQL<GraphQLSearchResponse>(
+      this.GRAPHQL_URL,
+      {
+        query: PRODUCTS_QUERY,
+        operationName: 'getCategoryProducts',
+        variables: {
           currentPage: pageNum,
           filter: { category_id: { eq: categoryId } },
           pageSize: this.PAGE_SIZE,
           sort: { position: 'ASC' },
-        };
-
-        const requestBody = JSON.stringify({
-          query: PRODUCTS_QUERY,
-          operationName: 'getCategoryProducts',
-          variables,
-        });
-
-        return new Promise<GraphQLSearchResponse>((resolve, reject) => {
-          const options = {
-            hostname: 'express.auchan.ua',
-            port: 443,
-            path: '/graphql/',
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-              'store': 'ua',
-              'User-Agent': this.config.userAgents?.[0] || 'Mozilla/5.0',
-              'Content-Length': Buffer.byteLength(requestBody),
-            },
-          };
-
-          const req = https.request(options, (res) => {
-            let body = '';
-            res.on('data', (chunk) => (body += chunk));
-            res.on('end', () => {
-              try {
-                const data = JSON.parse(body);
-                if (data.errors && data.errors.length > 0) {
-                  reject(new Error(data.errors[0].message));
-                } else {
-                  resolve(data);
-                }
-              } catch (e) {
-                reject(new Error(`Failed to parse response: ${body.substring(0, 200)}`));
-              }
-            });
-          });
-
-          req.on('error', reject);
-          req.setTimeout(30000, () => {
-            req.destroy();
-            reject(new Error('Request timeout'));
-          });
-          req.write(requestBody);
-          req.end();
-        });
-      },
-      {
-        maxRetries: this.config.maxRetries,
-        initialDelay: 1000,
-        onRetry: (attempt, error) => {
-          this.logger.warn(
-            `GraphQL request retry ${attempt} for category ${categoryId}, page ${pageNum}:`,
-            error.message
-          );
         },
-      }
+      },
+      { headers: { 'store': 'ua' } }
     );
   }
 
@@ -491,14 +431,4 @@ export class AuchanUaGraphQLScraper extends BaseScraper {
       'scrapeProductDetails is not needed with GraphQL scraper - all data is fetched in list query'
     );
   }
-
-  /**
-   * Cleanup resources (no browser to close)
-   */
-  async cleanup(): Promise<void> {
-    this.logger.info(`Cleaning up Auchan Ukraine GraphQL scraper...`);
-
-    const stats = this.getStats();
-    this.logger.info('Auchan Ukraine GraphQL scraping completed:', stats);
-  }
 }
@@ -87,6 +87,8 @@ export const auchanUaConfig: Partial<ScraperConfig> = {
     betweenRequests: 1000,
     betweenPages: 1500,
   },
+  // Same budget as AuchanUaGraphQLScraper - both hit Auchan's servers
+  rateLimit: { requestsPerSecond: 5, burst: 5, key: 'auchan.ua' },
   maxRetries: 3,
   concurrentPages: 1,
   userAgents: [
@@ -100,6 +102,7 @@ export const auchanUaConfig: Partial<ScraperConfig> = {
  * Ukraine's major hypermarket chain
  */
 export class AuchanUaScraper extends BaseScraper {
+  readonly supportsProductDetails = true;
   private readonly MAX_PAGES_PER_CATEGORY = 50; // Safety limit
 
   constructor(config: ScraperConfig) {
@@ -192,7 +195,8 @@ export class AuchanUaScraper extends BaseScraper {
         this.logError(
           `Failed to scrape page ${currentPage} of ${categoryName}`,
           baseUrl,
-          error as Error
+          error as Error,
+          currentPage
         );
         // Continue to next category instead of stopping
         break;
@@ -1,3 +1,4 @@
+import { Page } from 'playwright';
 import { BaseScraper } from '../base/BaseScraper';
 import { ProductData, ScraperConfig, CategoryConfig } from '../../types/scraper.types';
 // import { sleep } from '../../utils/retry';
@@ -53,7 +54,7 @@ export const makroConfig: Partial<ScraperConfig> = {
     betweenRequests: 2000,
   },
   maxRetries: 3,
-  concurrentPages: 1,
+  concurrentPages: 3, // Categories are fetched in parallel on separate pages
   userAgents: [
     'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -214,20 +215,31 @@ export class MakroScraper extends BaseScraper {
    * Scrape a single category using REST API
    */
   protected async scrapeCategory(category: CategoryConfig): Promise<ProductData[]> {
-    return this.scrapeCategoryViaApi(category.id, category.name);
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+    return this.scrapeCategoryOnPage(category, this.page);
+  }
+
+  /**
+   * Scrape a category on a given page (lets BaseScraper run categories concurrently)
+   */
+  protected async scrapeCategoryOnPage(category: CategoryConfig, page: Page): Promise<ProductData[]> {
+    return this.scrapeCategoryViaApi(page, category.id, category.name);
   }
 
   /**
    * Scrape a single category using REST API
    */
   private async scrapeCategoryViaApi(
+    page: Page,
     categoryId: string,
     categoryName: string
   ): Promise<ProductData[]> {
     const products: ProductData[] = [];
 
     try {
-      const categoryData = await this.fetchCategory(categoryId);
+      const categoryData = await this.fetchCategory(page, categoryId);
 
       if (!categoryData) {
         this.logger.warn(`Failed to fetch category ${categoryName}`);
@@ -270,16 +282,12 @@ export class MakroScraper extends BaseScraper {
   /**
    * Fetch a category from the API using browser context
    */
-  private async fetchCategory(categoryId: string): Promise<YandexMenuResponse | null> {
-    if (!this.page) {
-      throw new Error('Page not initialized');
-    }
-
+  private async fetchCategory(page: Page, categoryId: string): Promise<YandexMenuResponse | null> {
     const url = `${this.API_BASE}?auto_translate=false`;
 
     try {
       // Use Playwright's request context (includes cookies from browser)
-      const response = await this.page.request.post(url, {
+      const response = await page.request.post(url, {
         headers: {
           'Accept': 'application/json, text/plain, */*',
           'Content-Type': 'application/json;charset=UTF-8',
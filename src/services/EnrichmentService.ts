@@ -0,0 +1,180 @@
+import { ScraperFactory } from '../scrapers/base/ScraperFactory';
+import { RateLimiter } from '../scrapers/base/RateLimiter';
+import { supermarketRepository, enrichmentRepository, rateLimitRepository } from '../repositories';
+import { scraperLogger } from '../utils/logger';
+import { generateRunId } from '../utils/runId';
+import { CircuitOpenError } from '../utils/errors';
+import { EnrichmentCandidateRow } from '../types/db.types';
+import { ProductData } from '../types/scraper.types';
+
+/**
+ * Detail pages requested per supermarket per day unless scraper_config.enrichment.dailyBudget is set
+ */
+export const DEFAULT_DAILY_BUDGET = 200;
+
+/**
+ * Products whose detail page did not fill the gaps are revisited after this many days
+ */
+const RECHECK_AFTER_DAYS = 30;
+
+export interface EnrichmentOptions {
+  /** Cap for this run (still limited by the remaining daily budget) */
+  limit?: number;
+}
+
+export interface EnrichmentResult {
+  supermarketId: string;
+  productsChecked: number;
+  productsEnriched: number;
+  productsFailed: number;
+  skippedReason?: string;
+}
+
+/**
+ * Fills in barcode, description, brand and unit data by visiting product detail pages
+ * through the scraper's scrapeProductDetails(). Runs separately from price scraping
+ * and is limited by a daily per-supermarket request budget.
+ */
+export class EnrichmentService {
+  private rateLimiter: RateLimiter;
+
+  constructor() {
+    this.rateLimiter = new RateLimiter(rateLimitRepository);
+  }
+
+  async runEnrichment(supermarketId: string, options?: EnrichmentOptions): Promise<EnrichmentResult> {
+    const result: EnrichmentResult = {
+      supermarketId,
+      productsChecked: 0,
+      productsEnriched: 0,
+      productsFailed: 0,
+    };
+
+    const supermarket = await supermarketRepository.findById(supermarketId);
+    if (!supermarket) {
+      throw new Error(`Supermarket not found: ${supermarketId}`);
+    }
+    if (!supermarket.is_active) {
+      return { ...result, skippedReason: 'Supermarket not active' };
+    }
+
+    const budget = this.getDailyBudget(supermarket.scraper_config);
+    const remaining = budget - await enrichmentRepository.getCheckedToday(supermarketId);
+    const limit = Math.min(remaining, options?.limit ?? remaining);
+    if (limit <= 0) {
+      scraperLogger.info(`Enrichment budget for ${supermarket.name} used up today (${budget})`);
+      return { ...result, skippedReason: 'Daily budget used up' };
+    }
+
+    const scraper = ScraperFactory.createFromSupermarket(supermarket);
+    if (!scraper.supportsProductDetails) {
+      return { ...result, skippedReason: `${supermarket.scraper_class} does not implement scrapeProductDetails` };
+    }
+
+    const candidates = await enrichmentRepository.findCandidates(supermarketId, limit, RECHECK_AFTER_DAYS);
+    if (candidates.length === 0) {
+      return { ...result, skippedReason: 'No products missing details' };
+    }
+
+    const runId = generateRunId();
+    scraperLogger.info(
+      `Starting enrichment for ${supermarket.name}: ${candidates.length} products (budget ${remaining}/${budget}) [${runId}]`
+    );
+
+    const logId = await enrichmentRepository.createLog(supermarketId, runId);
+    const startTime = Date.now();
+
+    try {
+      scraper.setRunId(runId);
+      // Detail page requests go through the shared per-host limiter
+      scraper.setRateLimiter(this.rateLimiter);
+      await scraper.initialize();
+
+      for (const candidate of candidates) {
+        result.productsChecked++;
+        try {
+          const details = await scraper.scrapeProductDetails(candidate.url);
+          if (await this.applyDetails(candidate, details)) {
+            result.productsEnriched++;
+          }
+        } catch (error) {
+          if (error instanceof CircuitOpenError) throw error;
+          result.productsFailed++;
+          scraperLogger.warn(`Enrichment failed for ${candidate.url}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        await enrichmentRepository.markChecked(candidate.mapping_id);
+      }
+
+      await enrichmentRepository.updateLog(logId, result.productsFailed > 0 ? 'partial' : 'success', {
+        ...result,
+        duration: Date.now() - startTime,
+      });
+
+      scraperLogger.info(
+        `Enrichment completed for ${supermarket.name}: ${result.productsEnriched}/${result.productsChecked} products enriched`
+      );
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      scraperLogger.error(`Enrichment failed for ${supermarket.name}:`, error);
+
+      await enrichmentRepository.updateLog(logId, 'failed', {
+        ...result,
+        error: errorMessage,
+        duration: Date.now() - startTime,
+      });
+      return result;
+    } finally {
+      await scraper.cleanup();
+    }
+  }
+
+  /**
+   * Enrich every active supermarket whose scraper supports detail pages, one at a time
+   */
+  async runAllEnrichment(options?: EnrichmentOptions): Promise<EnrichmentResult[]> {
+    const supermarkets = await supermarketRepository.getActive();
+    const results: EnrichmentResult[] = [];
+
+    for (const supermarket of supermarkets) {
+      try {
+        results.push(await this.runEnrichment(supermarket.id, options));
+      } catch (error) {
+        scraperLogger.error(`Enrichment failed for ${supermarket.name}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  async getRecentRuns(limit: number = 20): Promise<Record<string, unknown>[]> {
+    return enrichmentRepository.getRecent(limit);
+  }
+
+  /**
+   * Write fields the product is missing. Returns true if anything new was found.
+   */
+  private async applyDetails(candidate: EnrichmentCandidateRow, details: ProductData): Promise<boolean> {
+    const updates = {
+      barcode: candidate.barcode ? undefined : details.barcode,
+      description: candidate.description ? undefined : details.description,
+      brand: candidate.brand ? undefined : details.brand,
+      unit: candidate.unit ? undefined : details.unit,
+      unitQuantity: candidate.unit ? undefined : details.unitQuantity,
+    };
+
+    if (!updates.barcode && !updates.description && !updates.brand && !updates.unit) {
+      return false;
+    }
+
+    await enrichmentRepository.applyDetails(candidate.product_id, updates);
+    return true;
+  }
+
+  private getDailyBudget(scraperConfig: Record<string, unknown> | null): number {
+    const enrichment = scraperConfig?.enrichment as { dailyBudget?: number } | undefined;
+    return enrichment?.dailyBudget ?? DEFAULT_DAILY_BUDGET;
+  }
+}
@@ -1,8 +1,28 @@
 import { productRepository, productMappingRepository, priceRepository } from '../repositories';
 import { ProductData } from '../types/scraper.types';
+import { MappingLookupResult } from '../types/db.types';
 import { normalizeProductName } from '../utils/normalizer';
 import { scraperLogger } from '../utils/logger';
 
+/**
+ * Scraped product with the URL, external ID and name normalized for matching
+ */
+export type PreparedProduct = ProductData & { productUrl: string; externalId?: string; normalizedName: string };
+
+export interface ProductMatch {
+  product: PreparedProduct;
+  mapping: MappingLookupResult;
+  matchedBy: 'external_id' | 'url' | 'name_brand';
+}
+
+export interface ProductMatchResult {
+  existing: ProductMatch[];
+  /** Products that would get a new product and mapping */
+  new: PreparedProduct[];
+  /** Products dropped because an earlier product in the batch has the same external ID or URL */
+  duplicates: PreparedProduct[];
+}
+
 export class ProductService {
   // ── Private helpers (business logic — not DB queries) ────────────────────
 
@@ -130,106 +150,120 @@ export class ProductService {
       originalPrice?: number;
       isOnSale: boolean;
       pricePerUnit?: number;
+      locationId?: string;
     }
   ): Promise<void> {
     return priceRepository.recordPrice(productMappingId, priceData);
   }
 
-  async bulkSaveProducts(
-    products: ProductData[],
-    supermarketId: string,
-    currency: string
-  ): Promise<number> {
-    if (products.length === 0) return 0;
+  /**
+   * Match scraped products to the supermarket's existing mappings without writing anything:
+   * by external ID, then URL, then (for products without an external ID) normalized name and brand.
+   * bulkSaveProducts stores products by this match.
+   */
+  async matchProducts(products: ProductData[], supermarketId: string): Promise<ProductMatchResult> {
+    // Prepare and normalize
+    const preparedProducts: PreparedProduct[] = products.map(p => {
+      const normalizedUrl = this.normalizeProductUrl(p.productUrl);
+      return {
+        ...p,
+        productUrl: normalizedUrl,
+        externalId: this.normalizeExternalId(
+          p.externalId || this.extractExternalId(normalizedUrl)
+        ),
+        normalizedName: normalizeProductName(p.name),
+      };
+    });
+
+    // Deduplicate within batch
+    const seenKeys = new Set<string>();
+    const duplicates: PreparedProduct[] = [];
+    const uniqueProducts = preparedProducts.filter(p => {
+      const key = p.externalId ? `ext:${p.externalId}` : `url:${p.productUrl}`;
+      if (seenKeys.has(key)) {
+        duplicates.push(p);
+        return false;
+      }
+      seenKeys.add(key);
+      return true;
+    });
 
-    const startTime = Date.now();
-    scraperLogger.debug(`Bulk saving ${products.length} products...`);
+    if (duplicates.length > 0) {
+      scraperLogger.debug(
+        `Deduplicated page batch: ${preparedProducts.length} -> ${uniqueProducts.length}`
+      );
+    }
 
-    try {
-      // Prepare and normalize
-      const preparedProducts = products.map(p => {
-        const normalizedUrl = this.normalizeProductUrl(p.productUrl);
-        return {
-          ...p,
-          productUrl: normalizedUrl,
-          externalId: this.normalizeExternalId(
-            p.externalId || this.extractExternalId(normalizedUrl)
-          ),
-          normalizedName: normalizeProductName(p.name),
-        };
-      });
-
-      // Deduplicate within batch
-      const seenKeys = new Set<string>();
-      const uniqueProducts = preparedProducts.filter(p => {
-        const key = p.externalId ? `ext:${p.externalId}` : `url:${p.productUrl}`;
-        if (seenKeys.has(key)) return false;
-        seenKeys.add(key);
-        return true;
-      });
-
-      if (uniqueProducts.length !== preparedProducts.length) {
-        scraperLogger.debug(
-          `Deduplicated page batch: ${preparedProducts.length} -> ${uniqueProducts.length}`
-        );
-      }
+    // Batch fetch existing mappings
+    const externalIds = uniqueProducts.map(p => p.externalId).filter((id): id is string => !!id);
+    const urls = uniqueProducts.map(p => p.productUrl);
+
+    const [byExternalId, byUrl] = await Promise.all([
+      productMappingRepository.batchFindMappingsByExternalIds(supermarketId, externalIds),
+      productMappingRepository.batchFindMappingsByUrls(supermarketId, urls),
+    ]);
 
-      // Batch fetch existing mappings
-      const externalIds = uniqueProducts.map(p => p.externalId).filter((id): id is string => !!id);
-      const urls = uniqueProducts.map(p => p.productUrl);
+    const mappingsByExternalId = new Map(
+      byExternalId.filter(m => !!m.external_id).map(m => [m.external_id, m])
+    );
+    const mappingsByUrl = new Map(byUrl.map(m => [m.url, m]));
 
-      const [byExternalId, byUrl] = await Promise.all([
-        productMappingRepository.batchFindMappingsByExternalIds(supermarketId, externalIds),
-        productMappingRepository.batchFindMappingsByUrls(supermarketId, urls),
-      ]);
+    // Separate existing vs new
+    const existing: ProductMatch[] = [];
+    const forNameBrandLookup: PreparedProduct[] = [];
+    const newProducts: PreparedProduct[] = [];
 
-      const mappingsByExternalId = new Map(
-        byExternalId.filter(m => !!m.external_id).map(m => [m.external_id, m])
+    for (const product of uniqueProducts) {
+      if (product.externalId && mappingsByExternalId.has(product.externalId)) {
+        existing.push({ product, mapping: mappingsByExternalId.get(product.externalId)!, matchedBy: 'external_id' });
+        continue;
+      }
+      if (mappingsByUrl.has(product.productUrl)) {
+        existing.push({ product, mapping: mappingsByUrl.get(product.productUrl)!, matchedBy: 'url' });
+        continue;
+      }
+      if (!product.externalId) {
+        forNameBrandLookup.push(product);
+      } else {
+        newProducts.push(product);
+      }
+    }
+
+    if (forNameBrandLookup.length > 0) {
+      const byNameBrand = await productMappingRepository.batchFindMappingsByNameAndBrand(
+        supermarketId,
+        forNameBrandLookup
       );
-      const mappingsByUrl = new Map(byUrl.map(m => [m.url, m]));
-
-      // Separate existing vs new
-      const existingProducts: Array<{
-        product: typeof uniqueProducts[0];
-        mapping: typeof byExternalId[0];
-      }> = [];
-      const forNameBrandLookup: typeof uniqueProducts = [];
-      const newProducts: typeof uniqueProducts = [];
-
-      for (const product of uniqueProducts) {
-        if (product.externalId && mappingsByExternalId.has(product.externalId)) {
-          existingProducts.push({ product, mapping: mappingsByExternalId.get(product.externalId)! });
-          continue;
-        }
-        if (mappingsByUrl.has(product.productUrl)) {
-          existingProducts.push({ product, mapping: mappingsByUrl.get(product.productUrl)! });
-          continue;
-        }
-        if (!product.externalId) {
-          forNameBrandLookup.push(product);
+      const mappingsByNameBrand = new Map(
+        byNameBrand.map(m => [this.buildNameBrandKey(m.lookup_normalized_name, m.lookup_brand), m])
+      );
+      for (const product of forNameBrandLookup) {
+        const key = this.buildNameBrandKey(product.normalizedName, product.brand);
+        const mapping = mappingsByNameBrand.get(key);
+        if (mapping) {
+          existing.push({ product, mapping, matchedBy: 'name_brand' });
         } else {
           newProducts.push(product);
         }
       }
+    }
 
-      if (forNameBrandLookup.length > 0) {
-        const byNameBrand = await productMappingRepository.batchFindMappingsByNameAndBrand(
-          supermarketId,
-          forNameBrandLookup
-        );
-        const mappingsByNameBrand = new Map(
-          byNameBrand.map(m => [this.buildNameBrandKey(m.lookup_normalized_name, m.lookup_brand), m])
-        );
-        for (const product of forNameBrandLookup) {
-          const key = this.buildNameBrandKey(product.normalizedName, product.brand);
-          const mapping = mappingsByNameBrand.get(key);
-          if (mapping) {
-            existingProducts.push({ product, mapping });
-          } else {
-            newProducts.push(product);
-          }
-        }
-      }
+    return { existing, new: newProducts, duplicates };
+  }
+
+  async bulkSaveProducts(
+    products: ProductData[],
+    supermarketId: string,
+    currency: string,
+    locationId?: string
+  ): Promise<number> {
+    if (products.length === 0) return 0;
+
+    const startTime = Date.now();
+    scraperLogger.debug(`Bulk saving ${products.length} products...`);
+
+    try {
+      const { existing: existingProducts, new: newProducts } = await this.matchProducts(products, supermarketId);
 
       scraperLogger.debug(
         `Found ${existingProducts.length} existing, ${newProducts.length} new products`
@@ -254,7 +288,7 @@ export class ProductService {
       const allProducts = [...existingProducts.map(ep => ep.product), ...newProducts];
 
       if (allMappingIds.length > 0) {
-        await priceRepository.batchInsertPrices(allMappingIds, allProducts, currency);
+        await priceRepository.batchInsertPrices(allMappingIds, allProducts, currency, locationId);
       }
 
       const duration = Date.now() - startTime;
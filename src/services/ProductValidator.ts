@@ -0,0 +1,149 @@
+import Joi from 'joi';
+import { ProductData, RejectedProduct } from '../types/scraper.types';
+import { scraperLogger } from '../utils/logger';
+
+/**
+ * Units the rest of the pipeline understands (see calculatePricePerUnit)
+ */
+export const KNOWN_UNITS = ['kg', 'g', 'l', 'ml', 'pieces'];
+
+/**
+ * Spellings scrapers pass through from their sites, mapped to KNOWN_UNITS
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kgs: 'kg',
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  liter: 'l',
+  litre: 'l',
+  liters: 'l',
+  litres: 'l',
+  ltr: 'l',
+  milliliter: 'ml',
+  millilitre: 'ml',
+  piece: 'pieces',
+  pc: 'pieces',
+  pcs: 'pieces',
+  each: 'pieces',
+  stk: 'pieces',
+  kom: 'pieces',
+  adet: 'pieces',
+  'шт': 'pieces',
+  'кг': 'kg',
+  'г': 'g',
+  'л': 'l',
+  'мл': 'ml',
+};
+
+export interface PriceBounds {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Per-supermarket validation settings from scraper_config.validation
+ */
+export interface ValidationConfig {
+  /** Category ID -> allowed price range in local currency; "default" applies to all other categories */
+  priceBounds?: Record<string, PriceBounds>;
+}
+
+const productSchema = Joi.object({
+  name: Joi.string().pattern(/\S/).max(255).required().messages({
+    'string.pattern.base': '"name" must not be blank',
+  }),
+  price: Joi.number().positive().required(),
+  currency: Joi.string().length(3).required(),
+  originalPrice: Joi.number().min(0).allow(null),
+  isOnSale: Joi.boolean().required(),
+  imageUrl: Joi.string().allow('', null),
+  productUrl: Joi.string().pattern(/\S/).required().messages({
+    'string.pattern.base': '"productUrl" must not be blank',
+  }),
+  externalId: Joi.string().allow('', null),
+  brand: Joi.string().allow('', null),
+  unit: Joi.string().valid(...KNOWN_UNITS).allow(null),
+  unitQuantity: Joi.number().positive().allow(null),
+  description: Joi.string().allow('', null),
+  barcode: Joi.string().allow('', null),
+  categoryName: Joi.string().allow('', null),
+  isAvailable: Joi.boolean().required(),
+}).unknown(true);
+
+/**
+ * Checks scraped products before they are stored.
+ * Products that fail the schema or a business rule are returned as rejects with a reason.
+ * Units are mapped to KNOWN_UNITS first; a unit that cannot be mapped is dropped with a warning
+ * rather than rejecting the product, since price and name are still usable.
+ */
+export class ProductValidator {
+  // Units already warned about, so a site's unknown unit is logged once per run
+  private unknownUnits = new Set<string>();
+
+  constructor(
+    private readonly currencyCode: string,
+    private readonly config: ValidationConfig = {}
+  ) {}
+
+  validate(products: ProductData[], categoryId: string): { valid: ProductData[]; rejected: RejectedProduct[] } {
+    const valid: ProductData[] = [];
+    const rejected: RejectedProduct[] = [];
+
+    for (const scraped of products) {
+      const product = this.normalizeUnit(scraped);
+      const reason = this.check(product, categoryId);
+      if (reason) {
+        rejected.push({ product, categoryId, reason });
+      } else {
+        valid.push(product);
+      }
+    }
+
+    return { valid, rejected };
+  }
+
+  /**
+   * Returns why a product is invalid, or null if it can be stored
+   */
+  check(product: ProductData, categoryId: string): string | null {
+    // convert: false so NaN, numeric strings and whitespace-only names are not coerced into valid values
+    const { error } = productSchema.validate(product, { convert: false });
+    if (error) return error.details[0].message;
+
+    if (product.currency !== this.currencyCode) {
+      return `Currency ${product.currency} does not match supermarket currency ${this.currencyCode}`;
+    }
+
+    const bounds = this.config.priceBounds?.[categoryId] ?? this.config.priceBounds?.default;
+    if (bounds?.min !== undefined && product.price < bounds.min) {
+      return `Price ${product.price} is below the minimum of ${bounds.min} for category ${categoryId}`;
+    }
+    if (bounds?.max !== undefined && product.price > bounds.max) {
+      return `Price ${product.price} is above the maximum of ${bounds.max} for category ${categoryId}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Map the product's unit to one of KNOWN_UNITS, or drop unit and unitQuantity if it has none
+   */
+  normalizeUnit(product: ProductData): ProductData {
+    if (typeof product.unit !== 'string') return product;
+
+    const unit = product.unit.trim().toLowerCase().replace(/\.$/, '');
+    const known = KNOWN_UNITS.includes(unit) ? unit : UNIT_ALIASES[unit];
+    if (known) {
+      return known === product.unit ? product : { ...product, unit: known };
+    }
+
+    if (!this.unknownUnits.has(product.unit)) {
+      this.unknownUnits.add(product.unit);
+      scraperLogger.warn(`Unknown unit "${product.unit}" (e.g. ${product.productUrl}), storing products without a unit`);
+    }
+    return { ...product, unit: undefined, unitQuantity: undefined };
+  }
+}
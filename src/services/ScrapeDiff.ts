@@ -0,0 +1,133 @@
+import { MappingLookupResult, MappingWithLatestPrice } from '../types/db.types';
+import { DiffProduct, MappingCollision, PriceChange, ScrapeDiff, UnitChange } from '../types/scraper.types';
+import { PreparedProduct, ProductMatchResult } from './ProductService';
+
+// Price differences below this are rounding, not changes
+const PRICE_EPSILON = 0.005;
+
+export interface ScrapeDiffOptions {
+  /**
+   * Mappings priced since this time that the scrape did not find are reported as disappeared.
+   * Omit for category-filtered runs, which cannot tell a disappeared product from an unscraped one.
+   */
+  activeSince?: Date;
+}
+
+function toDiffProduct(product: PreparedProduct, mappingId?: string): DiffProduct {
+  return {
+    name: product.name,
+    externalId: product.externalId ?? null,
+    url: product.productUrl,
+    mappingId,
+    price: product.price,
+    currency: product.currency,
+  };
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * Compare matched scrape results with the supermarket's stored mappings and latest prices
+ */
+export function buildScrapeDiff(
+  match: ProductMatchResult,
+  mappings: MappingWithLatestPrice[],
+  options: ScrapeDiffOptions = {}
+): Pick<
+  ScrapeDiff,
+  'duplicates' | 'matched' | 'newProducts' | 'disappeared' | 'priceChanges' | 'unitChanges' | 'collisions'
+> {
+  const mappingsById = new Map(mappings.map(m => [String(m.id), m]));
+  const priceChanges: PriceChange[] = [];
+  const unitChanges: UnitChange[] = [];
+  const collisions: MappingCollision[] = [];
+  const byMapping = new Map<string, { mapping: MappingLookupResult; products: PreparedProduct[] }>();
+  const matched = { externalId: 0, url: 0, nameBrand: 0 };
+
+  for (const { product, mapping, matchedBy } of match.existing) {
+    const mappingId = String(mapping.id);
+    const entry = byMapping.get(mappingId) ?? { mapping, products: [] };
+    entry.products.push(product);
+    byMapping.set(mappingId, entry);
+
+    if (matchedBy === 'external_id') matched.externalId++;
+    else if (matchedBy === 'url') matched.url++;
+    else matched.nameBrand++;
+
+    if (matchedBy !== 'external_id' && mapping.external_id && product.externalId && mapping.external_id !== product.externalId) {
+      collisions.push({
+        mappingId,
+        reason: 'external_id_changed',
+        mapping: { externalId: mapping.external_id, url: mapping.url },
+        products: [toDiffProduct(product, mappingId)],
+      });
+    }
+
+    const stored = mappingsById.get(mappingId);
+    if (!stored) continue;
+
+    const oldPrice = toNumber(stored.price);
+    if (oldPrice !== null && Math.abs(oldPrice - product.price) >= PRICE_EPSILON) {
+      priceChanges.push({
+        ...toDiffProduct(product, mappingId),
+        mappingId,
+        oldPrice,
+        newPrice: product.price,
+        changePercent: oldPrice > 0 ? Math.round(((product.price - oldPrice) / oldPrice) * 10000) / 100 : 0,
+        lastScrapedAt: stored.scraped_at,
+      });
+    }
+
+    // Stored units are only overwritten by values the scraper provides (COALESCE on update)
+    const oldUnitQuantity = toNumber(stored.unit_quantity);
+    const unitChanged = !!product.unit && product.unit !== stored.unit;
+    const quantityChanged = !!product.unitQuantity && product.unitQuantity !== oldUnitQuantity;
+    if (unitChanged || quantityChanged) {
+      unitChanges.push({
+        ...toDiffProduct(product, mappingId),
+        mappingId,
+        oldUnit: stored.unit,
+        oldUnitQuantity,
+        newUnit: product.unit ?? stored.unit,
+        newUnitQuantity: product.unitQuantity ?? oldUnitQuantity,
+      });
+    }
+  }
+
+  for (const [mappingId, { mapping, products }] of byMapping) {
+    if (products.length < 2) continue;
+    collisions.push({
+      mappingId,
+      reason: 'shared_mapping',
+      mapping: { externalId: mapping.external_id, url: mapping.url },
+      products: products.map(p => toDiffProduct(p, mappingId)),
+    });
+  }
+
+  let disappeared: DiffProduct[] | null = null;
+  if (options.activeSince) {
+    const since = options.activeSince.getTime();
+    disappeared = mappings
+      .filter(m => !byMapping.has(String(m.id)) && m.scraped_at && new Date(m.scraped_at).getTime() >= since)
+      .map(m => ({
+        name: m.name,
+        externalId: m.external_id,
+        url: m.url,
+        mappingId: String(m.id),
+        price: toNumber(m.price) ?? undefined,
+        currency: m.currency ?? undefined,
+      }));
+  }
+
+  return {
+    duplicates: match.duplicates.length,
+    matched,
+    newProducts: match.new.map(p => toDiffProduct(p)),
+    disappeared,
+    priceChanges,
+    unitChanges,
+    collisions,
+  };
+}
@@ -1,35 +1,171 @@
 import { BaseScraper } from '../scrapers/base/BaseScraper';
 import { ScraperFactory, CreateScraperOptions } from '../scrapers/base/ScraperFactory';
 import { ProductService } from './ProductService';
-import { supermarketRepository, scrapeLogRepository } from '../repositories';
+import { ProductValidator, ValidationConfig } from './ProductValidator';
+import {
+  supermarketRepository,
+  scrapeLogRepository,
+  scrapeErrorRepository,
+  quarantineRepository,
+  snapshotRepository,
+  rateLimitRepository,
+  proxyHealthRepository,
+  storeLocationRepository,
+  scraperCategoryRepository,
+  productMappingRepository,
+  scrapeEventRepository,
+} from '../repositories';
 import { scraperLogger } from '../utils/logger';
-import { ProductData, ScrapeResult, CategoryConfig, PageInfo } from '../types/scraper.types';
+import {
+  ProductData,
+  ScrapeResult,
+  CategoryConfig,
+  PageInfo,
+  ScrapeCheckpoint,
+  ScrapeAnomaly,
+  ScrapeError,
+  RejectedProduct,
+  FailureSnapshot,
+  StoreLocation,
+  DiscoveredCategory,
+  ScrapeProgressEvent,
+  CategoryDiff,
+  ScrapeDiff,
+  ScrapeFailover,
+} from '../types/scraper.types';
 import { calculatePricePerUnit } from '../utils/normalizer';
-import { getScraperCategories } from '../scrapers/scraperRegistry';
+import { toScrapedProduct, ProductFileWriter } from '../utils/productExport';
+import {
+  getScraperCategories,
+  getScraperImplementations,
+  getScraperRegistration,
+  ScraperRegistration,
+} from '../scrapers/scraperRegistry';
+import { buildScrapeDiff } from './ScrapeDiff';
 import { generateRunId } from '../utils/runId';
+import { NetworkFixtures } from '../scrapers/base/NetworkFixtures';
+import { RateLimiter } from '../scrapers/base/RateLimiter';
+import { ArtifactStore, StoredArtifact, createArtifactStore } from '../scrapers/base/ArtifactStore';
+import { ProxyPool, ProxyRotation } from '../scrapers/base/ProxyPool';
+import { CircuitOpenError, ScrapeCancelledError, classifyError } from '../utils/errors';
+import { ScrapeLogRow, SupermarketRow, StoreLocationRow, ScraperCategoryRow } from '../types/db.types';
+import { detectCountAnomaly, describeAnomaly, expectedCategoryCounts } from '../utils/anomaly';
+import { diffCategories } from '../utils/categoryDiff';
+import { config } from '../config/env';
+
+// How often a running scraper checks whether its cancellation was requested
+const CANCEL_POLL_MS = 5000;
 
 export interface RunScraperOptions {
   categoryIds?: string[];
+  /** Run ID to use instead of a generated one, so the caller can refer to the run before it starts */
+  runId?: string;
+  /** Store location to scrape prices for (defaults to the supermarket's default location) */
+  locationId?: string;
+  /** Record network traffic to, or replay it from, a fixture directory */
+  networkFixtures?: NetworkFixtures;
+  /** Scrape log of an interrupted run to continue from (set by resumeScraper) */
+  resumeFrom?: ScrapeLogRow;
+}
+
+export interface DryRunOptions {
+  categoryIds?: string[];
+  /** Write products here (NDJSON or CSV); without it products are only returned */
+  writer?: ProductFileWriter;
+  /** Currency products are validated against (defaults to the currency of the first product) */
+  currency?: string;
+}
+
+export interface DiffScraperOptions {
+  categoryIds?: string[];
+  /** Run this scraper class instead of the supermarket's, e.g. to vet a rewrite */
+  scraperClass?: string;
+  /** Products priced within this many days count as disappeared when not found (default: 7) */
+  activeDays?: number;
+}
+
+export interface CategoryDiscoveryResult {
+  supermarketId: string;
+  supermarketName: string;
+  discovered: DiscoveredCategory[];
+  /** Against the stored category list, or the scraper_config/registry list if none is stored */
+  diff: CategoryDiff;
+  /** Stored category list after saving (only when saved) */
+  saved?: ScraperCategoryRow[];
+}
+
+/**
+ * Error thrown when categories cannot be discovered for a supermarket
+ */
+export class CategoryDiscoveryError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'not_found' | 'not_supported' | 'empty'
+  ) {
+    super(message);
+    this.name = 'CategoryDiscoveryError';
+  }
+}
+
+/**
+ * Error thrown when a run cannot be resumed
+ */
+export class ResumeError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'not_found' | 'not_resumable'
+  ) {
+    super(message);
+    this.name = 'ResumeError';
+  }
 }
 
 export class ScraperService {
   private productService: ProductService;
+  private rateLimiter: RateLimiter;
+  private artifactStore: ArtifactStore;
+  private proxyPool: ProxyPool;
 
   constructor() {
     this.productService = new ProductService();
+    // Buckets live in Postgres so every process shares the same per-host budget
+    this.rateLimiter = new RateLimiter(rateLimitRepository);
+    this.artifactStore = createArtifactStore();
+    this.proxyPool = new ProxyPool(config.scraper.proxyConfig, proxyHealthRepository, {
+      maxFailures: config.scraper.proxyMaxFailures,
+      evictionMinutes: config.scraper.proxyEvictionMinutes,
+    });
   }
 
   async runScraper(supermarketId: string, options?: RunScraperOptions): Promise<ScrapeResult> {
-    const runId = generateRunId();
+    const runId = options?.runId ?? generateRunId();
     const categoryInfo = options?.categoryIds?.length
       ? ` (categories: ${options.categoryIds.join(', ')})`
       : '';
-    scraperLogger.info(`Starting scraper for supermarket: ${supermarketId}${categoryInfo} [${runId}]`);
+    const resumeInfo = options?.resumeFrom ? ` (resuming ${options.resumeFrom.run_id})` : '';
+    scraperLogger.info(`Starting scraper for supermarket: ${supermarketId}${categoryInfo}${resumeInfo} [${runId}]`);
 
     let scraper: BaseScraper | null = null;
     let scrapeLogId: string | null = null;
+    let cancelPoll: NodeJS.Timeout | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
     const startTime = Date.now();
-    let totalStoredCount = 0;
+
+    // Progress events are written in order without holding up the scraper; failed writes only cost the live view
+    let progressWrite: Promise<void> = Promise.resolve();
+    const emitProgress = (event: ScrapeProgressEvent): void => {
+      const logId = scrapeLogId;
+      if (!logId) return;
+      progressWrite = progressWrite
+        .then(() => scrapeEventRepository.create(logId, event))
+        .catch(error => {
+          scraperLogger.warn(`Could not store progress event of run ${runId}: ${(error as Error).message}`);
+        });
+    };
+    // Resumed runs carry over the counts of the interrupted run so the totals stay comparable
+    let totalStoredCount = options?.resumeFrom?.products_scraped ?? 0;
+    let totalRejectedCount = options?.resumeFrom?.products_failed ?? 0;
+    const categoryCounts: Record<string, number> = { ...(options?.resumeFrom?.category_counts ?? {}) };
 
     try {
       const supermarket = await supermarketRepository.findById(supermarketId);
@@ -42,47 +178,243 @@ export class ScraperService {
         return this.buildEmptyResult(supermarketId, 'Supermarket not active');
       }
 
-      scrapeLogId = await scrapeLogRepository.create(supermarketId, 'running');
+      const location = await this.resolveLocation(supermarketId, options?.locationId);
+
+      // Category IDs differ between implementations, so category-filtered runs never fall back
+      const previous = options?.resumeFrom?.checkpoint;
+      const chain = options?.categoryIds?.length
+        ? [supermarket.scraper_class ?? '']
+        : getScraperImplementations(
+            supermarket.scraper_class ?? '',
+            (supermarket.scraper_config as { fallbacks?: string[] } | null)?.fallbacks
+          );
+      // A resumed run continues with the implementation its checkpoint belongs to
+      const implementations = chain.slice(Math.max(0, chain.indexOf(previous?.implementation ?? '')));
+
+      // Carry over progress from the interrupted run so the scraper skips finished work
+      const checkpoint: ScrapeCheckpoint = {
+        categoryIds: options?.categoryIds,
+        completedCategories: [...(previous?.completedCategories ?? [])],
+        lastPages: { ...(previous?.lastPages ?? {}) },
+        implementation: implementations[0],
+      };
+
+      scrapeLogId = await scrapeLogRepository.create(supermarketId, 'running', {
+        runId,
+        checkpoint,
+        resumedFrom: options?.resumeFrom?.id,
+        locationId: location?.id,
+        implementation: implementations[0],
+      });
+      const logId = scrapeLogId;
+
+      // Without heartbeats the reaper takes the log for one left behind by a dead process
+      heartbeat = setInterval(() => {
+        scrapeLogRepository
+          .heartbeat(logId)
+          .then(alive => {
+            if (!alive) scraperLogger.warn(`Run ${runId} was reaped as abandoned after missed heartbeats`);
+          })
+          .catch(error => scraperLogger.warn(`Heartbeat failed for run ${runId}: ${(error as Error).message}`));
+      }, config.scraper.heartbeatSeconds * 1000);
+
+      emitProgress({
+        type: 'run_started',
+        resumedFrom: options?.resumeFrom?.run_id ?? undefined,
+        expectedCounts: await this.getExpectedCounts(supermarketId, location?.id, implementations[0]),
+      });
+
+      // Cancellation is requested through the API, usually from another process
+      const cancellation = new AbortController();
+      cancelPoll = setInterval(() => {
+        scrapeLogRepository
+          .isCancelRequested(logId)
+          .then(requested => {
+            if (requested && !cancellation.signal.aborted) {
+              scraperLogger.info(`Cancellation requested for run ${runId}, stopping at the next page`);
+              cancellation.abort();
+            }
+          })
+          .catch(error => scraperLogger.warn(`Could not check cancellation of run ${runId}: ${(error as Error).message}`));
+      }, CANCEL_POLL_MS);
+
+      // Categories may run concurrently - chain writes so an older snapshot never lands last
+      let checkpointWrite: Promise<void> = Promise.resolve();
+      const saveCheckpoint = (): Promise<void> => {
+        checkpointWrite = checkpointWrite
+          .catch(() => undefined)
+          .then(() => scrapeLogRepository.saveCheckpoint(logId, checkpoint));
+        return checkpointWrite;
+      };
+
+      const validator = new ProductValidator(
+        supermarket.currency_code,
+        (supermarket.scraper_config as { validation?: ValidationConfig } | null)?.validation
+      );
 
-      const scraperOptions: CreateScraperOptions = { categoryIds: options?.categoryIds };
-      scraper = ScraperFactory.createFromSupermarket(supermarket, scraperOptions);
-      scraper.setRunId(runId);
+      const onPageScraped = async (products: ProductData[], pageInfo: PageInfo): Promise<number> => {
+        const { valid, rejected } = validator.validate(products, pageInfo.categoryId);
+        if (rejected.length > 0) {
+          totalRejectedCount += rejected.length;
+          await this.quarantineProducts(supermarketId, logId, rejected);
+        }
 
-      scraper.setOnPageScrapedCallback(async (products: ProductData[], pageInfo: PageInfo): Promise<number> => {
-        const savedCount = await this.storeProducts(products, supermarketId);
+        const savedCount = await this.storeProducts(valid, supermarketId, location?.id);
         totalStoredCount += savedCount;
+        categoryCounts[pageInfo.categoryId] = (categoryCounts[pageInfo.categoryId] ?? 0) + savedCount;
+
+        const lastPage = checkpoint.lastPages[pageInfo.categoryId] ?? 0;
+        checkpoint.lastPages[pageInfo.categoryId] = Math.max(lastPage, pageInfo.pageNumber);
+        await saveCheckpoint();
+
+        emitProgress({
+          type: 'page_saved',
+          categoryId: pageInfo.categoryId,
+          categoryName: pageInfo.categoryName,
+          pageNumber: pageInfo.pageNumber,
+          saved: savedCount,
+          productsOnPage: products.length,
+        });
+
         scraperLogger.debug(
           `Page callback: saved ${savedCount}/${products.length} products from ${pageInfo.categoryName} page ${pageInfo.pageNumber}`
         );
         return savedCount;
-      });
+      };
 
-      await scraper.initialize();
-      const products = await scraper.scrapeProductList();
+      const onCategoryCompleted = async (category: CategoryConfig): Promise<void> => {
+        checkpoint.completedCategories.push(category.id);
+        delete checkpoint.lastPages[category.id];
+        await saveCheckpoint();
+      };
 
-      scraperLogger.info(
-        `Scraped ${products.length} products from ${supermarket.name}, stored ${totalStoredCount}`
-      );
+      const failovers: ScrapeFailover[] = [];
+      let products: ProductData[] = [];
+      let anomaly: ScrapeAnomaly | null = null;
+
+      for (let attempt = 0; ; attempt++) {
+        const implementation = implementations[attempt];
+        const isLast = attempt === implementations.length - 1;
+        const storedBefore = totalStoredCount;
+        let failover: ScrapeFailover;
+
+        scraper = await this.createScraper(supermarket, implementation, {
+          categoryIds: options?.categoryIds,
+          location: location ? this.toStoreLocation(location) : undefined,
+        });
+        scraper.setRunId(runId);
+        scraper.setCheckpoint(checkpoint);
+        scraper.setCancelSignal(cancellation.signal);
+        if (options?.networkFixtures) {
+          scraper.setNetworkFixtures(options.networkFixtures);
+        }
+        if (options?.networkFixtures?.mode !== 'replay') {
+          scraper.setRateLimiter(this.rateLimiter);
+
+          const proxySession = this.proxyPool.createSession(
+            supermarket.name,
+            supermarket.country_code,
+            (supermarket.scraper_config as { proxy?: { rotation?: ProxyRotation } } | null)?.proxy?.rotation
+              ?? config.scraper.proxyRotation
+          );
+          if (proxySession) {
+            scraper.setProxySession(proxySession);
+          }
+        }
+        scraper.setArtifactStore(this.artifactStore);
+        scraper.setOnProgressCallback(emitProgress);
+        scraper.setOnSnapshotCapturedCallback(async (snapshot: FailureSnapshot): Promise<void> => {
+          await snapshotRepository.create(logId, snapshot);
+        });
+        scraper.setOnPageScrapedCallback(onPageScraped);
+        scraper.setOnCategoryCompletedCallback(onCategoryCompleted);
+
+        try {
+          await scraper.initialize();
+          products = await scraper.scrapeProductList();
+
+          scraperLogger.info(
+            `Scraped ${products.length} products from ${supermarket.name} with ${implementation}, stored ${totalStoredCount}`
+          );
+
+          await scraper.releaseProxy();
+          await this.saveErrors(logId, scraper.getErrors());
+
+          anomaly = await this.detectAnomaly(supermarket, implementation, categoryCounts, options?.categoryIds, location?.id);
+          if (!anomaly || isLast) break;
+          failover = {
+            implementation,
+            reason: 'anomaly',
+            message: describeAnomaly(anomaly),
+            productsScraped: totalStoredCount - storedBefore,
+          };
+        } catch (error) {
+          if (error instanceof ScrapeCancelledError || isLast) throw error;
+          await scraper.releaseProxy(error);
+          await this.saveErrors(logId, [...scraper.getErrors(), this.toScrapeError(error)]);
+          failover = {
+            implementation,
+            reason: 'failed',
+            message: error instanceof Error ? error.message : 'Unknown error',
+            productsScraped: totalStoredCount - storedBefore,
+          };
+        }
+
+        // The next implementation has its own category IDs, so it starts over with a fresh checkpoint
+        const next = implementations[attempt + 1];
+        scraperLogger.warn(
+          `${implementation} ${failover.reason === 'failed' ? 'failed' : 'returned too few products'} for ` +
+            `${supermarket.name}, falling back to ${next}: ${failover.message}`
+        );
+        failovers.push(failover);
+        await scraper.cleanup();
+        scraper = null;
+
+        checkpoint.completedCategories = [];
+        checkpoint.lastPages = {};
+        checkpoint.implementation = next;
+        for (const categoryId of Object.keys(categoryCounts)) delete categoryCounts[categoryId];
+        await saveCheckpoint();
+        await scrapeLogRepository.recordFailover(logId, next, failovers);
+        emitProgress({
+          type: 'failover',
+          from: implementation,
+          to: next,
+          reason: failover.reason,
+          message: failover.message,
+          expectedCounts: await this.getExpectedCounts(supermarketId, location?.id, next),
+        });
+      }
+
+      if (anomaly) {
+        scraperLogger.warn(`Product counts for ${supermarket.name} dropped, marking run partial: ${describeAnomaly(anomaly)}`);
+      }
 
       if (scrapeLogId) {
-        await scrapeLogRepository.update(scrapeLogId, 'success', {
+        await scrapeLogRepository.update(scrapeLogId, anomaly ? 'partial' : 'success', {
           productsScraped: totalStoredCount,
+          productsFailed: totalRejectedCount,
           duration: Date.now() - startTime,
+          categoryCounts,
+          anomaly: anomaly ?? undefined,
         });
       }
+      emitProgress({
+        type: 'finished',
+        status: anomaly ? 'partial' : 'success',
+        productsScraped: totalStoredCount,
+        productsFailed: totalRejectedCount,
+      });
 
       const result: ScrapeResult = {
         supermarketId,
-        products: products.map(p => ({
-          ...p,
-          normalizedName: p.name,
-          pricePerUnit: calculatePricePerUnit(p.price, p.unitQuantity, p.unit),
-        })),
+        products: products.map(toScrapedProduct),
         scrapedAt: new Date(),
         duration: Date.now() - startTime,
         productsScraped: totalStoredCount,
-        productsFailed: products.length - totalStoredCount,
-        errors: [],
+        productsFailed: totalRejectedCount,
+        errors: scraper.getErrors(),
+        anomaly: anomaly ?? undefined,
       };
 
       scraperLogger.info(
@@ -91,49 +423,442 @@ export class ScraperService {
 
       return result;
     } catch (error) {
+      if (error instanceof ScrapeCancelledError && scrapeLogId) {
+        scraperLogger.warn(`Scraping cancelled for supermarket ${supermarketId} [${runId}]`);
+        await scraper?.releaseProxy();
+        await this.saveErrors(scrapeLogId, scraper?.getErrors() ?? []);
+        // The checkpoint is kept, so the run can be resumed
+        await scrapeLogRepository.update(scrapeLogId, 'cancelled', {
+          productsScraped: totalStoredCount,
+          productsFailed: totalRejectedCount,
+          duration: Date.now() - startTime,
+          categoryCounts,
+        });
+        emitProgress({
+          type: 'finished',
+          status: 'cancelled',
+          productsScraped: totalStoredCount,
+          productsFailed: totalRejectedCount,
+        });
+        return this.buildEmptyResult(supermarketId, error.message);
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       scraperLogger.error(`Scraping failed for supermarket ${supermarketId}:`, error);
+      await scraper?.releaseProxy(error);
 
       if (scrapeLogId) {
+        // Keep what the scraper collected plus the error that ended the run
+        await this.saveErrors(scrapeLogId, [...(scraper?.getErrors() ?? []), this.toScrapeError(error)]);
+
         await scrapeLogRepository.update(scrapeLogId, 'failed', {
+          productsScraped: totalStoredCount,
+          productsFailed: totalRejectedCount,
           error: errorMessage,
           duration: Date.now() - startTime,
+          failureReason: error instanceof CircuitOpenError ? 'circuit_open' : undefined,
+          categoryCounts,
+        });
+        emitProgress({
+          type: 'finished',
+          status: 'failed',
+          productsScraped: totalStoredCount,
+          productsFailed: totalRejectedCount,
+          error: errorMessage,
         });
       }
 
       return this.buildEmptyResult(supermarketId, errorMessage);
     } finally {
+      clearInterval(cancelPoll);
+      clearInterval(heartbeat);
+      await progressWrite;
       if (scraper) await scraper.cleanup();
     }
   }
 
+  /**
+   * Run a scraper without touching the database: products are validated and normalized the way
+   * runScraper stores them, then written to a file instead. The scraper uses its registry config
+   * (no scraper_config, store location, rate limit buckets or proxy health), so it works on a
+   * laptop without Postgres.
+   */
+  async dryRunScraper(registration: ScraperRegistration, options?: DryRunOptions): Promise<ScrapeResult> {
+    const startTime = Date.now();
+    const name = registration.defaultConfig.name ?? registration.className;
+    let validator = options?.currency ? new ProductValidator(options.currency) : undefined;
+    let validCount = 0;
+    let rejectedCount = 0;
+
+    scraperLogger.info(`Dry run of ${registration.className} - nothing is written to the database`);
+
+    const scraper = ScraperFactory.createFromSupermarket(
+      {
+        id: 'dry-run',
+        name,
+        website_url: null,
+        scraper_class: registration.className,
+        scraper_config: null,
+      },
+      { categoryIds: options?.categoryIds }
+    );
+    scraper.setRunId(generateRunId());
+
+    scraper.setOnPageScrapedCallback(async (products: ProductData[], pageInfo: PageInfo): Promise<number> => {
+      validator ??= new ProductValidator(products[0]?.currency ?? '');
+      const { valid, rejected } = validator.validate(products, pageInfo.categoryId);
+
+      rejectedCount += rejected.length;
+      for (const reject of rejected) {
+        scraperLogger.warn(`Would quarantine ${reject.product.name || reject.product.productUrl}: ${reject.reason}`);
+      }
+
+      await options?.writer?.write(valid.map(toScrapedProduct));
+      validCount += valid.length;
+      return valid.length;
+    });
+
+    try {
+      await scraper.initialize();
+      const products = await scraper.scrapeProductList();
+
+      return {
+        supermarketId: 'dry-run',
+        products: products.map(toScrapedProduct),
+        scrapedAt: new Date(),
+        duration: Date.now() - startTime,
+        productsScraped: validCount,
+        productsFailed: rejectedCount,
+        errors: scraper.getErrors(),
+      };
+    } finally {
+      await scraper.cleanup();
+    }
+  }
+
+  /**
+   * Run a scraper against a supermarket and report what storing the result would change:
+   * new and disappeared products, price and unit changes, and mapping collisions.
+   * Products are matched with ProductService.matchProducts, the same way a run stores them.
+   * Nothing is written except shared rate limit buckets and proxy health.
+   */
+  async diffScraper(supermarketId: string, options?: DiffScraperOptions): Promise<ScrapeDiff> {
+    const supermarket = await supermarketRepository.findById(supermarketId);
+    if (!supermarket) {
+      throw new Error(`Supermarket not found: ${supermarketId}`);
+    }
+
+    const scraperClass = options?.scraperClass ?? supermarket.scraper_class ?? '';
+    if (!getScraperRegistration(scraperClass)) {
+      throw new Error(`Scraper class not found: ${scraperClass}`);
+    }
+    // Category lists belong to a scraper class - another class starts from its own registry list
+    const categories = options?.scraperClass && options.scraperClass !== supermarket.scraper_class
+      ? getScraperCategories(scraperClass)
+      : (await scraperCategoryRepository.findEnabled(supermarketId)) ?? undefined;
+
+    const location = await this.resolveLocation(supermarketId);
+    const scraper = ScraperFactory.createFromSupermarket(
+      { ...supermarket, scraper_class: scraperClass },
+      {
+        categoryIds: options?.categoryIds,
+        categories,
+        location: location ? this.toStoreLocation(location) : undefined,
+      }
+    );
+    scraper.setRunId(generateRunId());
+    scraper.setRateLimiter(this.rateLimiter);
+    const proxySession = this.proxyPool.createSession(supermarket.name, supermarket.country_code, 'per-run');
+    if (proxySession) {
+      scraper.setProxySession(proxySession);
+    }
+
+    const validator = new ProductValidator(
+      supermarket.currency_code,
+      (supermarket.scraper_config as { validation?: ValidationConfig } | null)?.validation
+    );
+    const scraped: ProductData[] = [];
+    let rejectedCount = 0;
+
+    scraper.setOnPageScrapedCallback(async (products: ProductData[], pageInfo: PageInfo): Promise<number> => {
+      const { valid, rejected } = validator.validate(products, pageInfo.categoryId);
+      rejectedCount += rejected.length;
+      scraped.push(...valid);
+      return valid.length;
+    });
+
+    scraperLogger.info(`Diffing ${scraperClass} against stored products of ${supermarket.name} - nothing is stored`);
+
+    let errorCount = 0;
+    try {
+      await scraper.initialize();
+      await scraper.scrapeProductList();
+      errorCount = scraper.getErrors().length;
+      await scraper.releaseProxy();
+    } catch (error) {
+      await scraper.releaseProxy(error);
+      throw error;
+    } finally {
+      await scraper.cleanup();
+    }
+
+    const [match, mappings] = await Promise.all([
+      this.productService.matchProducts(scraped, supermarketId),
+      productMappingRepository.findAllWithLatestPrices(supermarketId),
+    ]);
+    const activeDays = options?.activeDays ?? 7;
+
+    return {
+      supermarketId,
+      supermarketName: supermarket.name,
+      scraperClass,
+      scraped: scraped.length,
+      rejected: rejectedCount,
+      errors: errorCount,
+      ...buildScrapeDiff(match, mappings, {
+        activeSince: options?.categoryIds?.length ? undefined : new Date(Date.now() - activeDays * 24 * 60 * 60 * 1000),
+      }),
+    };
+  }
+
+  /**
+   * Continue a failed or interrupted run from its last checkpoint.
+   * Completed categories are skipped and paginated categories continue after the last saved page.
+   */
+  async resumeScraper(runId: string, options?: Omit<RunScraperOptions, 'resumeFrom'>): Promise<ScrapeResult> {
+    const log = await this.getResumableRun(runId);
+
+    return this.runScraper(log.supermarket_id, {
+      ...options,
+      categoryIds: log.checkpoint?.categoryIds,
+      locationId: log.location_id ?? undefined,
+      resumeFrom: log,
+    });
+  }
+
+  /**
+   * Look up a run and check that it can be resumed
+   */
+  async getResumableRun(runId: string): Promise<ScrapeLogRow> {
+    const log = await scrapeLogRepository.findByRunId(runId);
+
+    if (!log) {
+      throw new ResumeError(`Scrape run not found: ${runId}`, 'not_found');
+    }
+    if (log.status === 'success') {
+      throw new ResumeError(`Scrape run ${runId} already completed successfully`, 'not_resumable');
+    }
+    if (log.status === 'running') {
+      const lastSeen = new Date(log.heartbeat_at ?? log.started_at).getTime();
+      if (Date.now() - lastSeen < config.scraper.heartbeatTimeoutSeconds * 1000) {
+        throw new ResumeError(`Scrape run ${runId} is still in progress`, 'not_resumable');
+      }
+      // A killed process (OOM, task stop) never gets to mark its log as failed; the reaper has not caught up yet
+      scraperLogger.warn(`Scrape run ${runId} is still marked as running without heartbeats - assuming it was interrupted`);
+    }
+    if (!log.checkpoint) {
+      throw new ResumeError(`Scrape run ${runId} has no checkpoint to resume from`, 'not_resumable');
+    }
+
+    return log;
+  }
+
+  /**
+   * Keep products that failed validation for review - they count as failed, not stored
+   */
+  private async quarantineProducts(
+    supermarketId: string,
+    scrapeLogId: string,
+    rejected: RejectedProduct[]
+  ): Promise<void> {
+    scraperLogger.warn(
+      `Quarantined ${rejected.length} invalid products from ${rejected[0].categoryId}: ${rejected[0].reason}`
+    );
+    try {
+      await quarantineRepository.insertMany(supermarketId, scrapeLogId, rejected);
+    } catch (error) {
+      scraperLogger.error('Failed to quarantine invalid products', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * The location a run scrapes: the requested one, or the supermarket's default.
+   * Supermarkets without locations scrape whatever their scraper defaults to.
+   */
+  private async resolveLocation(supermarketId: string, locationId?: string): Promise<StoreLocationRow | null> {
+    if (!locationId) {
+      return storeLocationRepository.findDefault(supermarketId);
+    }
+
+    const location = await storeLocationRepository.findById(locationId);
+    if (!location || String(location.supermarket_id) !== String(supermarketId)) {
+      throw new Error(`Store location ${locationId} not found for supermarket ${supermarketId}`);
+    }
+    return location;
+  }
+
+  private toStoreLocation(row: StoreLocationRow): StoreLocation {
+    return {
+      id: String(row.id),
+      name: row.name,
+      city: row.city,
+      postalCode: row.postal_code ?? undefined,
+      storeId: row.store_id ?? undefined,
+      coordinates: row.latitude !== null && row.longitude !== null
+        ? { latitude: Number(row.latitude), longitude: Number(row.longitude) }
+        : undefined,
+    };
+  }
+
+  /**
+   * Store the run's errors - failing to do so must not change the run's outcome
+   */
+  private async saveErrors(scrapeLogId: string, errors: ScrapeError[]): Promise<void> {
+    try {
+      await scrapeErrorRepository.insertMany(scrapeLogId, errors);
+    } catch (error) {
+      scraperLogger.warn(`Failed to store ${errors.length} scrape errors`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private toScrapeError(error: unknown): ScrapeError {
+    return {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date(),
+      errorClass: classifyError(error),
+    };
+  }
+
+  /**
+   * Create the scraper of one implementation. The supermarket's own class gets its scraper_config
+   * and approved categories; a fallback runs with its registry defaults.
+   */
+  private async createScraper(
+    supermarket: SupermarketRow,
+    implementation: string,
+    options: CreateScraperOptions
+  ): Promise<BaseScraper> {
+    if (implementation !== supermarket.scraper_class) {
+      return ScraperFactory.createFromSupermarket(
+        { ...supermarket, scraper_class: implementation, website_url: null, scraper_config: null },
+        options
+      );
+    }
+    return ScraperFactory.createFromSupermarket(supermarket, {
+      ...options,
+      categories: (await scraperCategoryRepository.findEnabled(supermarket.id)) ?? undefined,
+    });
+  }
+
+  /**
+   * Products each category usually yields, for the progress bars of the live view
+   */
+  private async getExpectedCounts(
+    supermarketId: string,
+    locationId?: string,
+    implementation?: string
+  ): Promise<Record<string, number>> {
+    try {
+      const baseline = await scrapeLogRepository.getBaselineCounts(
+        supermarketId,
+        config.scraper.anomalyBaselineRuns,
+        locationId,
+        implementation
+      );
+      return expectedCategoryCounts(baseline);
+    } catch (error) {
+      scraperLogger.warn(`Could not load expected category counts of supermarket ${supermarketId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Compare this run's product counts with the rolling baseline of previous successful runs of
+   * the same implementation. The drop threshold comes from scraper_config.anomaly.threshold or
+   * SCRAPER_ANOMALY_THRESHOLD.
+   */
+  private async detectAnomaly(
+    supermarket: SupermarketRow,
+    implementation: string,
+    categoryCounts: Record<string, number>,
+    categoryIds?: string[],
+    locationId?: string
+  ): Promise<ScrapeAnomaly | null> {
+    const overrides = (supermarket.scraper_config as { anomaly?: { threshold?: number } } | null)?.anomaly;
+    const threshold = overrides?.threshold ?? config.scraper.anomalyThreshold;
+    if (threshold <= 0) return null;
+
+    try {
+      const baseline = await scrapeLogRepository.getBaselineCounts(
+        supermarket.id,
+        config.scraper.anomalyBaselineRuns,
+        locationId,
+        implementation
+      );
+      // Only categories still configured are checked one by one, so removed categories do not count as drops
+      const configured = categoryIds?.length
+        ? categoryIds
+        : implementation === supermarket.scraper_class
+          ? (await this.getAvailableCategories(supermarket.id)).map(c => c.id)
+          : getScraperCategories(implementation).map(c => c.id);
+
+      return detectCountAnomaly(categoryCounts, baseline, {
+        threshold,
+        categoryIds: configured,
+        checkTotal: !categoryIds?.length,
+      });
+    } catch (error) {
+      scraperLogger.warn(`Anomaly detection failed for ${supermarket.name}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
   async runAllScrapers(concurrency: number = 3): Promise<ScrapeResult[]> {
     scraperLogger.info(`Starting scrape for all active supermarkets (concurrency: ${concurrency})`);
 
-    const supermarkets = await supermarketRepository.getActive();
+    const [supermarkets, locations] = await Promise.all([
+      supermarketRepository.getActive(),
+      storeLocationRepository.findAllActive(),
+    ]);
     scraperLogger.info(`Found ${supermarkets.length} active supermarkets to scrape`);
 
+    // Supermarkets with store locations are scraped once per active location
+    const queue = supermarkets.flatMap(supermarket => {
+      const own = locations.filter(l => String(l.supermarket_id) === String(supermarket.id));
+      if (own.length === 0) return [{ supermarket, location: undefined as StoreLocationRow | undefined }];
+      return own.map(location => ({ supermarket, location }));
+    });
+
     const results: ScrapeResult[] = [];
-    const queue = [...supermarkets];
     const running: Promise<void>[] = [];
 
     const runNext = async (): Promise<void> => {
-      const supermarket = queue.shift();
-      if (!supermarket) return;
+      const job = queue.shift();
+      if (!job) return;
 
+      const label = job.location ? `${job.supermarket.name} (${job.location.city})` : job.supermarket.name;
       try {
-        scraperLogger.info(`[Pool] Starting: ${supermarket.name}`);
-        const result = await this.runScraper(supermarket.id);
+        scraperLogger.info(`[Pool] Starting: ${label}`);
+        const result = await this.runScraper(job.supermarket.id, { locationId: job.location?.id });
         results.push(result);
-        scraperLogger.info(`[Pool] Completed: ${supermarket.name} (${result.productsScraped} products)`);
+        scraperLogger.info(`[Pool] Completed: ${label} (${result.productsScraped} products)`);
       } catch (error) {
-        scraperLogger.error(`Failed to run scraper for ${supermarket.name}:`, error);
+        scraperLogger.error(`Failed to run scraper for ${label}:`, error);
       }
 
       await runNext();
     };
 
-    for (let i = 0; i < Math.min(concurrency, supermarkets.length); i++) {
+    for (let i = 0; i < Math.min(concurrency, queue.length); i++) {
       running.push(runNext());
     }
 
@@ -143,12 +868,12 @@ export class ScraperService {
     return results;
   }
 
-  private async storeProducts(products: ProductData[], supermarketId: string): Promise<number> {
+  private async storeProducts(products: ProductData[], supermarketId: string, locationId?: string): Promise<number> {
     if (products.length === 0) return 0;
 
     const currency = products[0].currency;
     try {
-      return await this.productService.bulkSaveProducts(products, supermarketId, currency);
+      return await this.productService.bulkSaveProducts(products, supermarketId, currency, locationId);
     } catch (error) {
       scraperLogger.error('Bulk save failed, falling back to individual saves', error);
 
@@ -162,6 +887,7 @@ export class ScraperService {
             originalPrice: product.originalPrice,
             isOnSale: product.isOnSale,
             pricePerUnit: calculatePricePerUnit(product.price, product.unitQuantity, product.unit),
+            locationId,
           });
           storedCount++;
         } catch (err) {
@@ -172,6 +898,13 @@ export class ScraperService {
     }
   }
 
+  /**
+   * Read a stored snapshot artifact (used by the admin API)
+   */
+  async getSnapshotArtifact(key: string): Promise<StoredArtifact | null> {
+    return this.artifactStore.get(key);
+  }
+
   async getScrapeHistory(supermarketId: string, limit: number = 10): Promise<Record<string, unknown>[]> {
     return scrapeLogRepository.getHistoryForSupermarket(supermarketId, limit);
   }
@@ -183,6 +916,83 @@ export class ScraperService {
   async getAvailableCategories(supermarketId: string): Promise<CategoryConfig[]> {
     const supermarket = await supermarketRepository.findById(supermarketId);
     if (!supermarket) return [];
+
+    // The approved list in scraper_categories replaces the built-in lists
+    const stored = await scraperCategoryRepository.findEnabled(supermarketId);
+    if (stored) return stored;
+
+    return this.getConfiguredCategories(supermarket);
+  }
+
+  /**
+   * Crawl the supermarket's category tree with its scraper and compare it with the category list.
+   * With save, the result is stored in scraper_categories: new categories are added disabled
+   * for an admin to approve.
+   */
+  async discoverCategories(supermarketId: string, options?: { save?: boolean }): Promise<CategoryDiscoveryResult> {
+    const supermarket = await supermarketRepository.findById(supermarketId);
+    if (!supermarket) {
+      throw new CategoryDiscoveryError(`Supermarket not found: ${supermarketId}`, 'not_found');
+    }
+
+    const scraper = ScraperFactory.createFromSupermarket(supermarket);
+    if (!scraper.discoverCategories) {
+      throw new CategoryDiscoveryError(
+        `${supermarket.scraper_class} does not support category discovery`,
+        'not_supported'
+      );
+    }
+
+    let discovered: DiscoveredCategory[];
+    scraper.setRateLimiter(this.rateLimiter);
+    const proxySession = this.proxyPool.createSession(supermarket.name, supermarket.country_code, 'per-run');
+    if (proxySession) {
+      scraper.setProxySession(proxySession);
+    }
+
+    try {
+      await scraper.initialize();
+      discovered = await scraper.discoverCategories();
+      await scraper.releaseProxy();
+    } catch (error) {
+      await scraper.releaseProxy(error);
+      throw error;
+    } finally {
+      await scraper.cleanup();
+    }
+
+    // An empty tree is a broken crawl, not a retailer without categories
+    if (discovered.length === 0) {
+      throw new CategoryDiscoveryError(`No categories discovered for ${supermarket.name}`, 'empty');
+    }
+
+    const stored = await scraperCategoryRepository.findBySupermarket(supermarketId);
+    const configured = this.getConfiguredCategories(supermarket);
+    const current = stored.length > 0
+      ? stored.map(row => ({ id: row.category_id, name: row.name, url: row.url }))
+      : configured;
+
+    const result: CategoryDiscoveryResult = {
+      supermarketId,
+      supermarketName: supermarket.name,
+      discovered,
+      diff: diffCategories(current, discovered),
+    };
+
+    if (options?.save) {
+      result.saved = await scraperCategoryRepository.saveDiscovery(supermarketId, configured, discovered);
+    }
+
+    return result;
+  }
+
+  /**
+   * Built-in category list: scraper_config.categories, or the registry (same as ScraperFactory)
+   */
+  private getConfiguredCategories(supermarket: SupermarketRow): CategoryConfig[] {
+    const dbCategories = (supermarket.scraper_config as { categories?: CategoryConfig[] } | null)?.categories;
+    if (dbCategories && dbCategories.length > 0) return dbCategories;
+
     return getScraperCategories(supermarket.scraper_class ?? '');
   }
 
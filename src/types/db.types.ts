@@ -1,3 +1,5 @@
+import { ScrapeCheckpoint, ScrapeAnomaly, FailureSnapshot, ScrapeProgressEvent, ScrapeFailover } from './scraper.types';
+
 export interface CountryRow {
   id: string;
   name: string;
@@ -50,6 +52,7 @@ export interface ProductMappingRow {
   url: string;
   is_available: boolean | null;
   last_scraped_at: Date | null;
+  details_checked_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -66,6 +69,16 @@ export interface NameBrandMappingResult extends MappingLookupResult {
   lookup_brand: string | null;
 }
 
+export interface MappingWithLatestPrice extends MappingLookupResult {
+  name: string;
+  brand: string | null;
+  unit: string | null;
+  unit_quantity: string | null;
+  price: string | null;
+  currency: string | null;
+  scraped_at: Date | null;
+}
+
 export interface PriceRow {
   id: string;
   product_mapping_id: string;
@@ -97,6 +110,192 @@ export interface ScrapeLogRow {
   duration_seconds: number | null;
   started_at: Date;
   completed_at: Date | null;
+  run_id: string | null;
+  checkpoint: ScrapeCheckpoint | null;
+  resumed_from: string | null;
+  failure_reason: string | null;
+  category_counts: Record<string, number> | null;
+  anomaly: ScrapeAnomaly | null;
+  location_id: string | null;
+  cancel_requested_at: Date | null;
+  cancelled_by: string | null;
+  heartbeat_at: Date | null;
+  implementation: string | null;
+  failovers: ScrapeFailover[] | null;
+  baseline_accepted_at: Date | null;
+  baseline_accepted_by: string | null;
+}
+
+export interface ScrapeErrorRow {
+  id: string;
+  scrape_log_id: string;
+  error_class: string | null;
+  message: string;
+  signature: string;
+  product_url: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  page_number: number | null;
+  stack: string | null;
+  occurred_at: Date;
+}
+
+export interface ScrapeErrorGroupRow {
+  signature: string;
+  error_class: string | null;
+  category_name: string | null;
+  count: number;
+  sample_message: string;
+  first_seen: Date;
+  last_seen: Date;
+}
+
+export interface ScrapeSnapshotRow {
+  id: string;
+  scrape_log_id: string;
+  category_id: string;
+  category_name: string | null;
+  reason: FailureSnapshot['reason'];
+  error_message: string | null;
+  artifacts: FailureSnapshot['artifacts'];
+  created_at: Date;
+}
+
+export interface ScrapeEventRow {
+  id: string;
+  scrape_log_id: string;
+  type: ScrapeProgressEvent['type'];
+  data: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface StoreLocationRow {
+  id: string;
+  supermarket_id: string;
+  name: string;
+  city: string;
+  postal_code: string | null;
+  store_id: string | null;
+  latitude: string | null;  // NUMERIC comes back as a string
+  longitude: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProxyHealthRow {
+  proxy_id: string;
+  success_count: number;
+  failure_count: number;
+  consecutive_failures: number;
+  last_error: string | null;
+  last_used_at: Date | null;
+  last_success_at: Date | null;
+  last_failure_at: Date | null;
+  evicted_until: Date | null;
+  updated_at: Date;
+}
+
+export interface ScraperCategoryRow {
+  id: string;
+  supermarket_id: string;
+  category_id: string;
+  name: string;
+  url: string;
+  parent_name: string | null;
+  source: 'registry' | 'discovered';
+  is_enabled: boolean;
+  sort_order: number;
+  last_seen_at: Date | null;
+  missing_since: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScrapeScheduleRow {
+  id: string;
+  supermarket_id: string;
+  cron_expression: string;
+  timezone: string;
+  category_ids: string[] | null;
+  location_id: string | null;
+  is_enabled: boolean;
+  next_run_at: Date | null;
+  last_fired_at: Date | null;
+  last_status: 'queued' | 'skipped' | null;
+  last_job_id: string | null;
+  last_run_id: string | null;
+  last_message: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScrapeScheduleWithDetails extends ScrapeScheduleRow {
+  supermarket_name: string;
+  location_city: string | null;
+  last_job_status: ScrapeJobStatus | null;
+  /** Status of the scrape log of last_run_id, e.g. running or success */
+  last_run_status: string | null;
+}
+
+export type ScrapeJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ScrapeJobRow {
+  id: string;
+  supermarket_id: string;
+  category_ids: string[] | null;
+  location_id: string | null;
+  resume_run_id: string | null;
+  status: ScrapeJobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  source: 'api' | 'scheduler' | 'cli';
+  schedule_id: string | null;
+  requested_by: string | null;
+  worker_id: string | null;
+  run_id: string | null;
+  heartbeat_at: Date | null;
+  started_at: Date | null;
+  finished_at: Date | null;
+  products_scraped: number | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScrapeJobWithDetails extends ScrapeJobRow {
+  supermarket_name: string;
+  location_city: string | null;
+  /** Status of the scrape log of run_id */
+  run_status: string | null;
+}
+
+export interface EnrichmentLogRow {
+  id: string;
+  supermarket_id: string;
+  run_id: string | null;
+  status: string;
+  products_checked: number;
+  products_enriched: number;
+  products_failed: number;
+  error_message: string | null;
+  duration_seconds: number | null;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+export interface EnrichmentCandidateRow {
+  mapping_id: string;
+  product_id: string;
+  url: string;
+  name: string;
+  brand: string | null;
+  unit: string | null;
+  barcode: string | null;
+  description: string | null;
 }
 
 export interface ExchangeRateRow {
@@ -8,11 +8,101 @@ export interface CategoryConfig {
   url: string;      // e.g., '/icecek-c-6'
 }
 
+/**
+ * Category found on the retailer's site by BaseScraper.discoverCategories()
+ */
+export interface DiscoveredCategory extends CategoryConfig {
+  parentName?: string;  // Top-level section the category belongs to, e.g. 'Bodega'
+}
+
+/**
+ * Product as reported by scrape diff mode
+ */
+export interface DiffProduct {
+  name: string;
+  externalId?: string | null;
+  url: string;
+  mappingId?: string;
+  price?: number;
+  currency?: string;
+}
+
+export interface PriceChange extends DiffProduct {
+  mappingId: string;
+  oldPrice: number;
+  newPrice: number;
+  changePercent: number;
+  lastScrapedAt: Date | null;
+}
+
+export interface UnitChange extends DiffProduct {
+  mappingId: string;
+  oldUnit: string | null;
+  oldUnitQuantity: number | null;
+  newUnit: string | null;
+  newUnitQuantity: number | null;
+}
+
+/**
+ * Scraped products that would land on a mapping in a way that loses data:
+ * - shared_mapping: several scraped products match the same mapping, so their prices would mix
+ * - external_id_changed: matched by URL or name but with a different external ID, which would be overwritten
+ */
+export interface MappingCollision {
+  mappingId: string;
+  reason: 'shared_mapping' | 'external_id_changed';
+  mapping: { externalId: string | null; url: string };
+  products: DiffProduct[];
+}
+
+/**
+ * What storing a scrape would change, computed without writing anything
+ */
+export interface ScrapeDiff {
+  supermarketId: string;
+  supermarketName: string;
+  scraperClass: string;
+  scraped: number;
+  rejected: number;     // Would be quarantined
+  duplicates: number;   // Same external ID or URL scraped more than once
+  errors: number;       // Scrape errors - with errors, disappeared products may just have been missed
+  matched: { externalId: number; url: number; nameBrand: number };
+  newProducts: DiffProduct[];
+  disappeared: DiffProduct[] | null;  // null for category-filtered runs, which cannot tell
+  priceChanges: PriceChange[];
+  unitChanges: UnitChange[];
+  collisions: MappingCollision[];
+}
+
+/**
+ * Differences between a scraper's category list and the categories found on the site
+ */
+export interface CategoryDiff {
+  added: DiscoveredCategory[];    // On the site but not in the list
+  removed: CategoryConfig[];      // In the list but no longer on the site
+  renamed: Array<{ id: string; from: string; to: string }>;
+  unchanged: number;
+}
+
+/**
+ * Delivery location a scraper should see prices for (from store_locations)
+ */
+export interface StoreLocation {
+  id: string;
+  name: string;         // e.g., 'Madrid Centro'
+  city: string;         // e.g., 'Madrid'
+  postalCode?: string;  // e.g., '28001'
+  storeId?: string;     // Site-specific store or warehouse ID
+  coordinates?: { latitude: number; longitude: number };
+}
+
 export interface ScraperConfig {
   supermarketId: string;
   name: string;
   baseUrl: string;
   categories: CategoryConfig[];
+  // Location to scrape prices for - scrapers fall back to their built-in default without one
+  location?: StoreLocation;
   // Legacy support - will be converted to categories if present
   categoryUrls?: string[];
   selectors: ScraperSelectors;
@@ -22,6 +112,10 @@ export interface ScraperConfig {
   maxRetries: number;
   concurrentPages: number;
   userAgents?: string[];
+  pagination?: PaginationConfig;
+  parsing?: ParsingRules;
+  rateLimit?: RateLimitConfig;
+  wolt?: WoltVenueConfig;
 }
 
 export interface ScraperSelectors {
@@ -38,6 +132,47 @@ export interface ScraperSelectors {
   nextPage?: string;
 }
 
+export type PaginationStrategy = 'none' | 'nextButton' | 'urlParam' | 'infiniteScroll';
+
+export interface PaginationConfig {
+  strategy: PaginationStrategy;
+  param?: string;       // urlParam: query parameter name (default: 'page')
+  startPage?: number;   // urlParam: first page number (default: 1)
+  maxPages?: number;    // Safety limit (default: 50)
+}
+
+/**
+ * Token bucket settings for the shared per-host rate limiter
+ */
+export interface RateLimitConfig {
+  requestsPerSecond: number;  // Sustained request rate for the host
+  burst?: number;             // Requests allowed back-to-back before throttling (default: 1)
+  key?: string;               // Share one budget across hosts, e.g. 'auchan.ua' (default: request host)
+}
+
+/**
+ * Rules for turning scraped text into prices and units
+ */
+export interface ParsingRules {
+  currency: string;                  // e.g., 'EUR'
+  decimalSeparator?: ',' | '.';      // Auto-detected when omitted
+  unitPattern?: string;              // Regex with (value)(unit) groups, e.g. '(\\d+[,.]?\\d*)\\s*(kg|g|l|ml)'
+  unitMap?: Record<string, string>;  // Site unit -> standard unit, e.g. { "kom": "pieces" }
+}
+
+/**
+ * Wolt venue scraped by WoltScraper, e.g. https://wolt.com/en/alb/tirana/venue/bela-fruta
+ */
+export interface WoltVenueConfig {
+  venueSlug: string;                 // e.g., 'bela-fruta'
+  city: string;                      // City slug in the venue URL, e.g. 'tirana'
+  country: string;                   // Wolt's three-letter country code in the venue URL, e.g. 'alb'
+  currency: string;                  // e.g., 'ALL'
+  language?: string;                 // Site language (default: 'en')
+  discoverCategories?: boolean;      // Discover categories when none are configured (default: true)
+  excludeCategories?: string[];      // Category slugs never scraped, e.g. alcohol
+}
+
 export interface WaitTimes {
   pageLoad: number;
   dynamicContent: number;
@@ -58,10 +193,20 @@ export interface ProductData {
   unit?: string;
   unitQuantity?: number;
   description?: string;
+  barcode?: string;
   categoryName?: string;
   isAvailable: boolean;
 }
 
+/**
+ * Product that failed ingest validation and was quarantined instead of stored
+ */
+export interface RejectedProduct {
+  product: ProductData;
+  categoryId: string;
+  reason: string;
+}
+
 export interface ScrapedProduct extends ProductData {
   normalizedName: string;
   pricePerUnit?: number;
@@ -75,6 +220,7 @@ export interface ScrapeResult {
   productsScraped: number;
   productsFailed: number;
   errors: ScrapeError[];
+  anomaly?: ScrapeAnomaly;  // Set when the run was marked partial
 }
 
 export interface ScrapeError {
@@ -82,6 +228,10 @@ export interface ScrapeError {
   message: string;
   stack?: string;
   timestamp: Date;
+  errorClass?: string;    // See ErrorClass in utils/errors
+  categoryId?: string;
+  categoryName?: string;
+  pageNumber?: number;
 }
 
 export enum ScrapeStatus {
@@ -103,3 +253,94 @@ export interface PageInfo {
   pageNumber: number;
   totalProductsOnPage: number;
 }
+
+/**
+ * Callback function called after a category has been fully scraped
+ */
+export type OnCategoryCompletedCallback = (category: CategoryConfig) => Promise<void>;
+
+/**
+ * Debugging artifacts captured when a category fails or yields no products
+ */
+export interface FailureSnapshot {
+  categoryId: string;
+  categoryName: string;
+  reason: 'error' | 'empty';
+  errorMessage?: string;
+  /** Artifact store keys */
+  artifacts: {
+    html?: string;
+    screenshot?: string;
+    network?: string;
+  };
+}
+
+/**
+ * Callback function called after a failure snapshot has been stored
+ */
+export type OnSnapshotCapturedCallback = (snapshot: FailureSnapshot) => Promise<void>;
+
+/**
+ * Live progress of a scrape run, stored in scrape_events and streamed to the admin UI
+ */
+export type ScrapeProgressEvent =
+  | { type: 'run_started'; resumedFrom?: string; expectedCounts: Record<string, number> }
+  | { type: 'categories_planned'; categories: { id: string; name: string }[]; completedCategories: string[] }
+  | { type: 'category_started'; categoryId: string; categoryName: string }
+  | { type: 'page_saved'; categoryId: string; categoryName: string; pageNumber: number; saved: number; productsOnPage: number }
+  | { type: 'category_finished'; categoryId: string; categoryName: string; products: number }
+  | { type: 'retry'; attempt: number; message: string; categoryId?: string }
+  | { type: 'error'; message: string; categoryId?: string; pageNumber?: number }
+  | { type: 'failover'; from: string; to: string; reason: ScrapeFailover['reason']; message: string; expectedCounts: Record<string, number> }
+  | {
+      type: 'finished';
+      status: 'success' | 'partial' | 'failed' | 'cancelled';
+      productsScraped: number;
+      productsFailed: number;
+      error?: string;
+    };
+
+/**
+ * Callback function called for each progress event. Must not block the scraper.
+ */
+export type OnProgressCallback = (event: ScrapeProgressEvent) => void;
+
+/**
+ * Progress of a scrape run, persisted against its scrape_logs row so the run can be resumed
+ */
+export interface ScrapeCheckpoint {
+  categoryIds?: string[];              // Category filter of the original run
+  completedCategories: string[];       // Category IDs that finished
+  lastPages: Record<string, number>;   // Category ID -> last saved page number
+  implementation?: string;             // Scraper class the progress belongs to (category IDs differ between implementations)
+}
+
+/**
+ * Implementation a run gave up on before falling back to the next one
+ */
+export interface ScrapeFailover {
+  implementation: string;              // Scraper class that failed, e.g. 'LotussApiScraper'
+  reason: 'failed' | 'anomaly';        // It threw, or returned anomalously few products
+  message: string;                     // Error message or anomaly summary
+  productsScraped: number;             // Products it stored before giving up
+}
+
+/**
+ * Product count that fell below its baseline
+ */
+export interface CountDrop {
+  categoryId?: string;  // Omitted for the run total
+  expected: number;     // Median of the baseline runs
+  actual: number;
+  dropPercent: number;
+}
+
+/**
+ * Explanation stored with a run marked partial because its product counts dropped
+ */
+export interface ScrapeAnomaly {
+  threshold: number;     // Drop (0-1) that triggers the anomaly
+  baselineRuns: number;  // Successful runs the baseline was built from
+  total?: CountDrop;
+  categories: CountDrop[];
+}
@@ -0,0 +1,108 @@
+import { CountDrop, ScrapeAnomaly } from '../types/scraper.types';
+
+/**
+ * Fewer successful runs than this are not a reliable baseline
+ */
+export const MIN_BASELINE_RUNS = 3;
+
+/**
+ * Categories that usually hold fewer products than this are too noisy to check
+ */
+const MIN_CATEGORY_BASELINE = 20;
+
+export interface AnomalyCheckOptions {
+  /** Drop (0-1) below the baseline median that counts as an anomaly */
+  threshold: number;
+  /** Category IDs this run was expected to cover - others are not checked individually */
+  categoryIds: string[];
+  /** Compare the run total as well (off for category-filtered runs) */
+  checkTotal: boolean;
+}
+
+/**
+ * Compare a run's per-category product counts against previous successful runs.
+ * Returns null when counts are within the threshold or there is not enough history.
+ */
+export function detectCountAnomaly(
+  counts: Record<string, number>,
+  baseline: Record<string, number>[],
+  options: AnomalyCheckOptions
+): ScrapeAnomaly | null {
+  if (baseline.length < MIN_BASELINE_RUNS) return null;
+
+  const categories: CountDrop[] = [];
+  for (const categoryId of options.categoryIds) {
+    const history = baseline.map(run => run[categoryId]).filter((n): n is number => n !== undefined);
+    if (history.length < MIN_BASELINE_RUNS) continue;
+
+    const drop = checkDrop(median(history), counts[categoryId] ?? 0, options.threshold);
+    if (drop && drop.expected >= MIN_CATEGORY_BASELINE) {
+      categories.push({ categoryId, ...drop });
+    }
+  }
+
+  const total = options.checkTotal
+    ? checkDrop(median(baseline.map(sum)), sum(counts), options.threshold)
+    : undefined;
+
+  if (!total && categories.length === 0) return null;
+
+  return {
+    threshold: options.threshold,
+    baselineRuns: baseline.length,
+    total,
+    categories: categories.sort((a, b) => b.dropPercent - a.dropPercent),
+  };
+}
+
+/**
+ * Products a category usually yields: the median of the baseline runs that scraped it.
+ * Categories with fewer than MIN_BASELINE_RUNS runs are left out.
+ */
+export function expectedCategoryCounts(baseline: Record<string, number>[]): Record<string, number> {
+  const expected: Record<string, number> = {};
+  const categoryIds = new Set(baseline.flatMap(run => Object.keys(run)));
+  for (const categoryId of categoryIds) {
+    const history = baseline.map(run => run[categoryId]).filter((n): n is number => n !== undefined);
+    if (history.length >= MIN_BASELINE_RUNS) {
+      expected[categoryId] = median(history);
+    }
+  }
+  return expected;
+}
+
+/**
+ * One-line summary of an anomaly for logs
+ */
+export function describeAnomaly(anomaly: ScrapeAnomaly): string {
+  const parts: string[] = [];
+  if (anomaly.total) {
+    parts.push(`total ${anomaly.total.actual}/${anomaly.total.expected} (-${anomaly.total.dropPercent}%)`);
+  }
+  if (anomaly.categories.length > 0) {
+    parts.push(
+      `${anomaly.categories.length} categories dropped: ` +
+        anomaly.categories.map(c => `${c.categoryId} ${c.actual}/${c.expected}`).join(', ')
+    );
+  }
+  return parts.join('; ');
+}
+
+function checkDrop(expected: number, actual: number, threshold: number): CountDrop | undefined {
+  if (expected <= 0 || actual >= expected * (1 - threshold)) return undefined;
+  return {
+    expected,
+    actual,
+    dropPercent: Math.round((1 - actual / expected) * 100),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function sum(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((total, n) => total + n, 0);
+}
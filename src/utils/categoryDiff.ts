@@ -0,0 +1,26 @@
+import { CategoryConfig, CategoryDiff, DiscoveredCategory } from '../types/scraper.types';
+
+/**
+ * Compare a scraper's category list with the categories discovered on the site.
+ * Categories are matched by ID; a changed name on the same ID counts as a rename.
+ */
+export function diffCategories(current: CategoryConfig[], discovered: DiscoveredCategory[]): CategoryDiff {
+  const currentById = new Map(current.map(c => [c.id, c]));
+  const discoveredIds = new Set(discovered.map(c => c.id));
+
+  const diff: CategoryDiff = { added: [], removed: [], renamed: [], unchanged: 0 };
+
+  for (const category of discovered) {
+    const known = currentById.get(category.id);
+    if (!known) {
+      diff.added.push(category);
+    } else if (known.name.trim().toLowerCase() !== category.name.trim().toLowerCase()) {
+      diff.renamed.push({ id: category.id, from: known.name, to: category.name });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = current.filter(c => !discoveredIds.has(c.id));
+  return diff;
+}
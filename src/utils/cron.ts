@@ -0,0 +1,249 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in an IANA timezone.
+ * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 8-18/2), month and weekday names (JAN, MON)
+ * and the @hourly, @daily, @weekly, @monthly and @yearly shortcuts. As in Vixie cron, when both
+ * day-of-month and day-of-week are restricted a day matching either one fires.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month and day-of-week are combined with OR when both are restricted */
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted instead of numbers, indexed from min */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded into 0 below
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Give up looking for a fire time after this long - covers "0 0 29 2 *" (leap days)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = index >= 0 ? index + (spec.name === 'month' ? 1 : 0) : Number(value);
+  if (!/^\d+$/.test(value) && index < 0) {
+    throw new CronExpressionError(`Invalid ${spec.name} value: ${value}`);
+  }
+  if (number < spec.min || number > spec.max) {
+    throw new CronExpressionError(`${spec.name} value ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid ${spec.name} step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} range: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing CronExpressionError if it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: !fields[2].startsWith('*'),
+    restrictedDayOfWeek: !fields[4].startsWith('*'),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+  /** Wall-clock time as "YYYY-MM-DD HH:MM", to tell repeated DST hours apart from their instants */
+  key: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toZonedTime(date: Date, timezone: string): ZonedTime {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    key: `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`,
+  };
+}
+
+function matchesDay(schedule: CronSchedule, time: ZonedTime): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(time.day);
+  const dayOfWeek = schedule.daysOfWeek.has(time.weekday);
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time after `after` (exclusive, minute precision) the schedule fires in the timezone.
+ * Returns null if it never fires, e.g. "0 0 31 2 *".
+ *
+ * Times in a skipped DST hour are not fired that day; in a repeated hour, a time with the same
+ * wall clock as `after` is not fired twice.
+ */
+export function nextCronTime(schedule: CronSchedule | string, timezone: string, after: Date = new Date()): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const afterKey = toZonedTime(after, timezone).key;
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  while (time <= limit) {
+    const zoned = toZonedTime(new Date(time), timezone);
+    const minutesIntoDay = zoned.hour * 60 + zoned.minute;
+
+    if (!cron.months.has(zoned.month) || !matchesDay(cron, zoned)) {
+      // Skip to the last hour of the day rather than midnight, so a shorter DST day cannot overshoot it
+      const untilMidnight = 24 * 60 - minutesIntoDay;
+      time += (untilMidnight > 60 ? untilMidnight - 60 : untilMidnight) * 60000;
+    } else if (!cron.hours.has(zoned.hour)) {
+      time += (60 - zoned.minute) * 60000;
+    } else if (!cron.minutes.has(zoned.minute)) {
+      const nextMinute = Array.from(cron.minutes).filter(m => m > zoned.minute).sort((a, b) => a - b)[0];
+      time += ((nextMinute ?? 60) - zoned.minute) * 60000;
+    } else if (zoned.key === afterKey) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` fire times after `after`
+ */
+export function upcomingCronTimes(
+  schedule: CronSchedule | string,
+  timezone: string,
+  count: number,
+  after: Date = new Date()
+): Date[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const times: Date[] = [];
+  let from = after;
+  while (times.length < count) {
+    const next = nextCronTime(cron, timezone, from);
+    if (!next) break;
+    times.push(next);
+    from = next;
+  }
+  return times;
+}
@@ -0,0 +1,179 @@
+/**
+ * Typed scraper errors and error classification.
+ * The class decides how retry() treats the error (see RetryPolicy).
+ */
+
+export type ErrorClass = 'blocked' | 'not-found' | 'rate-limited' | 'transient' | 'parse-error';
+
+/**
+ * Base class for classified scraper errors
+ */
+export class ScraperError extends Error {
+  constructor(
+    message: string,
+    public readonly errorClass: ErrorClass,
+    public readonly url?: string,
+    /** Server-requested wait before retrying (rate-limited responses) */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ScraperError';
+  }
+}
+
+/**
+ * The site refused us (403, captcha, bot wall) - retrying right away only makes it worse
+ */
+export class BlockedError extends ScraperError {
+  constructor(message: string, url?: string) {
+    super(message, 'blocked', url);
+    this.name = 'BlockedError';
+  }
+}
+
+/**
+ * The page or category no longer exists (404, 410)
+ */
+export class NotFoundError extends ScraperError {
+  constructor(message: string, url?: string) {
+    super(message, 'not-found', url);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The site asked us to slow down (429), optionally with Retry-After
+ */
+export class RateLimitedError extends ScraperError {
+  constructor(message: string, url?: string, retryAfterMs?: number) {
+    super(message, 'rate-limited', url, retryAfterMs);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Timeouts, connection resets and 5xx responses - worth retrying with backoff
+ */
+export class TransientError extends ScraperError {
+  constructor(message: string, url?: string) {
+    super(message, 'transient', url);
+    this.name = 'TransientError';
+  }
+}
+
+/**
+ * The response arrived but could not be parsed - the same response will fail again
+ */
+export class ParseError extends ScraperError {
+  constructor(message: string, url?: string) {
+    super(message, 'parse-error', url);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Thrown once a scraper has been blocked too many times in a row
+ */
+export class CircuitOpenError extends BlockedError {
+  constructor(public readonly consecutiveBlocks: number) {
+    super(`Circuit breaker opened after ${consecutiveBlocks} consecutive blocked requests`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown once a run's cancellation has been requested. Not a ScraperError: it is never
+ * retried or recorded as a scrape error.
+ */
+export class ScrapeCancelledError extends Error {
+  constructor() {
+    super('Scrape cancelled');
+    this.name = 'ScrapeCancelledError';
+  }
+}
+
+const BLOCKED_PATTERNS = [/captcha/i, /cloudflare/i, /access denied/i, /bot detected/i, /forbidden/i];
+const TRANSIENT_PATTERNS = [/timeout/i, /ECONNRESET/, /ECONNREFUSED/, /ETIMEDOUT/, /EAI_AGAIN/, /socket hang up/i, /net::ERR_/];
+
+/**
+ * Map an HTTP status code to an error class (undefined for successful responses)
+ */
+export function classifyStatus(status: number): ErrorClass | undefined {
+  if (status === 401 || status === 403) return 'blocked';
+  if (status === 404 || status === 410) return 'not-found';
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status >= 500) return 'transient';
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build a typed error for a failed HTTP response, or undefined if the status is not an error
+ */
+export function errorFromStatus(
+  status: number,
+  url: string,
+  retryAfter?: string | null
+): ScraperError | undefined {
+  const message = `HTTP ${status} for ${url}`;
+
+  switch (classifyStatus(status)) {
+    case 'blocked':
+      return new BlockedError(message, url);
+    case 'not-found':
+      return new NotFoundError(message, url);
+    case 'rate-limited':
+      return new RateLimitedError(message, url, parseRetryAfter(retryAfter));
+    case 'transient':
+      return new TransientError(message, url);
+    default:
+      return status >= 400 ? new ScraperError(message, 'transient', url) : undefined;
+  }
+}
+
+/**
+ * Classify any thrown value.
+ * Untyped errors are matched on status code and message; anything unrecognised is treated as transient.
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof ScraperError) return error.errorClass;
+  if (error instanceof SyntaxError) return 'parse-error';
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    const statusClass = classifyStatus(status);
+    if (statusClass) return statusClass;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (BLOCKED_PATTERNS.some(p => p.test(message))) return 'blocked';
+  if (TRANSIENT_PATTERNS.some(p => p.test(message))) return 'transient';
+
+  return 'transient';
+}
+
+/**
+ * Normalise an error message so repeated errors group together:
+ * URLs, quoted values and numbers are replaced with placeholders.
+ */
+export function errorSignature(message: string): string {
+  return message
+    .replace(/"[^"]*"/g, '"…"')
+    .replace(/https?:\/\/[^\s"')]+/g, '<url>')
+    .replace(/\d+(\.\d+)?/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 255);
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { ProductData, ScrapedProduct } from '../types/scraper.types';
+import { normalizeProductName, calculatePricePerUnit } from './normalizer';
+
+export type ProductFileFormat = 'ndjson' | 'csv';
+
+// Column order of CSV output - every ScrapedProduct field
+const CSV_COLUMNS: Array<keyof ScrapedProduct> = [
+  'name',
+  'normalizedName',
+  'brand',
+  'price',
+  'currency',
+  'originalPrice',
+  'isOnSale',
+  'pricePerUnit',
+  'unit',
+  'unitQuantity',
+  'isAvailable',
+  'categoryName',
+  'externalId',
+  'barcode',
+  'productUrl',
+  'imageUrl',
+  'description',
+];
+
+/**
+ * Add the fields ProductService computes when storing a product
+ */
+export function toScrapedProduct(product: ProductData): ScrapedProduct {
+  return {
+    ...product,
+    normalizedName: normalizeProductName(product.name),
+    pricePerUnit: calculatePricePerUnit(product.price, product.unitQuantity, product.unit),
+  };
+}
+
+/**
+ * Output format from the file extension: .csv, otherwise NDJSON (.ndjson, .jsonl, ...)
+ */
+export function productFileFormat(filePath: string): ProductFileFormat {
+  return path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'ndjson';
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Streams scraped products to an NDJSON or CSV file as pages come in
+ */
+export class ProductFileWriter {
+  readonly format: ProductFileFormat;
+  private readonly stream: fs.WriteStream;
+  private count = 0;
+
+  constructor(readonly filePath: string) {
+    this.format = productFileFormat(filePath);
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    this.stream = fs.createWriteStream(filePath, { encoding: 'utf-8' });
+
+    if (this.format === 'csv') {
+      this.stream.write(CSV_COLUMNS.join(',') + '\n');
+    }
+  }
+
+  get written(): number {
+    return this.count;
+  }
+
+  async write(products: ScrapedProduct[]): Promise<void> {
+    if (products.length === 0) return;
+
+    const lines = products.map(product =>
+      this.format === 'csv'
+        ? CSV_COLUMNS.map(column => csvValue(product[column])).join(',')
+        : JSON.stringify(product)
+    );
+    this.count += products.length;
+
+    if (!this.stream.write(lines.join('\n') + '\n')) {
+      await new Promise<void>(resolve => this.stream.once('drain', () => resolve()));
+    }
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(() => resolve());
+    });
+  }
+}
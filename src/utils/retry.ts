@@ -3,12 +3,30 @@
  */
 
 import { logger } from './logger';
+import { ErrorClass, ScraperError, CircuitOpenError, ScrapeCancelledError, classifyError } from './errors';
+
+/**
+ * Which error classes are worth retrying
+ */
+export type RetryPolicy = Record<ErrorClass, boolean>;
+
+export const defaultRetryPolicy: RetryPolicy = {
+  'blocked': false,       // Hammering a bot wall only extends the block
+  'not-found': false,     // Removed pages stay removed
+  'rate-limited': true,   // Waits for Retry-After when the server sends it
+  'transient': true,
+  'parse-error': false,   // The same response will fail to parse again
+};
 
 export interface RetryOptions {
   maxRetries: number;
   initialDelay: number;
   maxDelay: number;
   exponential: boolean;
+  /** Override which error classes are retried */
+  policy?: Partial<RetryPolicy>;
+  /** Upper bound for waits requested via Retry-After */
+  maxRetryAfter: number;
   onRetry?: (attempt: number, error: Error) => void;
 }
 
@@ -17,10 +35,12 @@ const defaultOptions: RetryOptions = {
   initialDelay: 1000,
   maxDelay: 10000,
   exponential: true,
+  maxRetryAfter: 60000,
 };
 
 /**
- * Retry a function with exponential backoff
+ * Retry a function with exponential backoff.
+ * Errors are classified first and only retried if the policy allows it.
  * @param fn - Async function to retry
  * @param options - Retry options
  * @returns Result of the function
@@ -30,6 +50,7 @@ export async function retry<T>(
   options: Partial<RetryOptions> = {}
 ): Promise<T> {
   const opts = { ...defaultOptions, ...options };
+  const policy = { ...defaultRetryPolicy, ...opts.policy };
   let lastError: Error | undefined;
 
   for (let attempt = 1; attempt <= opts.maxRetries + 1; attempt++) {
@@ -37,15 +58,24 @@ export async function retry<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      if (error instanceof ScrapeCancelledError) throw error;
+
+      const errorClass = classifyError(error);
+      if (!policy[errorClass]) {
+        logger.warn(`Not retrying ${errorClass} error: ${lastError.message}`);
+        throw lastError;
+      }
 
       if (attempt > opts.maxRetries) {
         logger.error(`Failed after ${opts.maxRetries} retries:`, error);
         throw lastError;
       }
 
-      const delay = opts.exponential
+      const backoff = opts.exponential
         ? Math.min(opts.initialDelay * Math.pow(2, attempt - 1), opts.maxDelay)
         : opts.initialDelay;
+      const retryAfter = error instanceof ScraperError ? error.retryAfterMs : undefined;
+      const delay = retryAfter !== undefined ? Math.min(retryAfter, opts.maxRetryAfter) : backoff;
 
       logger.warn(
         `Attempt ${attempt}/${opts.maxRetries} failed. Retrying in ${delay}ms...`,
@@ -71,6 +101,54 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Circuit breaker for a single scraper run.
+ * Counts consecutive blocked responses and opens once the threshold is reached,
+ * so a run that is being blocked aborts early instead of failing every remaining page.
+ */
+export class CircuitBreaker {
+  private consecutiveBlocks: number = 0;
+
+  constructor(private readonly threshold: number) {}
+
+  /**
+   * A request went through - the block streak is over
+   */
+  recordSuccess(): void {
+    this.consecutiveBlocks = 0;
+  }
+
+  /**
+   * A request failed - only blocks count towards opening the circuit
+   */
+  recordFailure(error: unknown): void {
+    if (error instanceof CircuitOpenError) return;
+    if (classifyError(error) === 'blocked') {
+      this.consecutiveBlocks++;
+    }
+  }
+
+  /**
+   * Start over, e.g. after switching to another proxy
+   */
+  reset(): void {
+    this.consecutiveBlocks = 0;
+  }
+
+  get isOpen(): boolean {
+    return this.threshold > 0 && this.consecutiveBlocks >= this.threshold;
+  }
+
+  /**
+   * Throw CircuitOpenError if the circuit is open
+   */
+  check(): void {
+    if (this.isOpen) {
+      throw new CircuitOpenError(this.consecutiveBlocks);
+    }
+  }
+}
+
 /**
  * Retry with specific error types
  * Only retry if error matches specified types
@@ -0,0 +1,183 @@
+import os from 'os';
+import { ScraperService, ResumeError } from '../services/ScraperService';
+import { scrapeJobRepository, scrapeLogRepository, scrapeScheduleRepository } from '../repositories';
+import { ScrapeJobRow } from '../types/db.types';
+import { ScrapeResult } from '../types/scraper.types';
+import { generateRunId } from '../utils/runId';
+import { createPrefixedLogger } from '../utils/logger';
+
+export interface ScrapeWorkerOptions {
+  /** Jobs this worker runs at the same time */
+  concurrency: number;
+  /** How often the queue is checked while below concurrency */
+  pollIntervalMs: number;
+  /** How often running jobs report that the worker is alive */
+  heartbeatIntervalMs: number;
+  /** Running jobs without a heartbeat for this long are taken back from their worker */
+  heartbeatTimeoutSeconds: number;
+  /** Delay before the first retry of a failed job; doubles with every further attempt */
+  retryDelaySeconds: number;
+}
+
+const logger = createPrefixedLogger('Worker');
+
+/**
+ * Runs jobs from the scrape_jobs queue.
+ *
+ * Jobs are claimed with SELECT ... FOR UPDATE SKIP LOCKED, so any number of workers can share
+ * the queue. While a job runs, the worker refreshes its heartbeat; every poll also puts jobs of
+ * workers that stopped sending heartbeats back in the queue. A failed run is retried after a
+ * growing delay until the job runs out of attempts, resuming from the failed run's checkpoint.
+ */
+export class ScrapeWorker {
+  readonly workerId: string;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+  // Jobs in progress, keyed by job ID
+  private active = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly scraperService: ScraperService,
+    private readonly options: ScrapeWorkerOptions,
+    workerId?: string
+  ) {
+    this.workerId = workerId ?? `${os.hostname()}:${process.pid}`;
+  }
+
+  start(): void {
+    logger.info(
+      `Worker ${this.workerId} started (concurrency ${this.options.concurrency}, ` +
+        `poll every ${this.options.pollIntervalMs / 1000}s)`
+    );
+    this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    void this.poll();
+  }
+
+  /**
+   * Stop claiming jobs. Resolves once the jobs in progress have finished.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.timer);
+    await Promise.all(this.active.values());
+    logger.info(`Worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Reclaim abandoned jobs and claim queued ones up to the concurrency limit.
+   * A poll still in progress is not overlapped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      for (const job of await scrapeJobRepository.requeueAbandoned(this.options.heartbeatTimeoutSeconds)) {
+        logger.warn(`Job ${job.id} lost its worker ${job.worker_id}, now ${job.status}`);
+      }
+
+      while (!this.stopped && this.active.size < this.options.concurrency) {
+        const job = await scrapeJobRepository.claimNext(this.workerId);
+        if (!job) break;
+        this.active.set(job.id, this.execute(job));
+      }
+    } catch (error) {
+      logger.error('Worker poll failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async execute(job: ScrapeJobRow): Promise<void> {
+    const runId = generateRunId();
+    const label = `job ${job.id} (supermarket ${job.supermarket_id}, attempt ${job.attempts}/${job.max_attempts})`;
+
+    const heartbeat = setInterval(() => {
+      scrapeJobRepository
+        .heartbeat(job.id, this.workerId)
+        .then(owned => {
+          if (!owned) logger.warn(`${label} was taken back from this worker after missed heartbeats`);
+        })
+        .catch(error => logger.warn(`Heartbeat failed for ${label}`, { error: (error as Error).message }));
+    }, this.options.heartbeatIntervalMs);
+
+    try {
+      await scrapeJobRepository.setRunId(job.id, runId);
+      if (job.schedule_id) {
+        await scrapeScheduleRepository.recordRun(job.schedule_id, runId);
+      }
+      logger.info(`Starting ${label} [${runId}]`);
+
+      const result = await this.runJob(job, runId);
+      const log = await scrapeLogRepository.findByRunId(runId);
+
+      if (log?.status === 'cancelled') {
+        await scrapeJobRepository.markCancelled(job.id, this.workerId);
+        logger.info(`Cancelled ${label} [${runId}] at the request of ${log.cancelled_by ?? 'an admin'}`);
+      } else if (log && log.status !== 'failed') {
+        if (await scrapeJobRepository.complete(job.id, this.workerId, result.productsScraped)) {
+          logger.info(`Finished ${label} [${runId}]: ${log.status}, ${result.productsScraped} products stored`);
+        } else {
+          logger.warn(`Finished ${label} [${runId}], but the job was taken back from this worker meanwhile`);
+        }
+      } else {
+        // Without a scrape log the run never started (e.g. inactive supermarket) - a retry would not help
+        const error = log?.error_message ?? result.errors[0]?.message ?? 'Run failed';
+        await this.recordFailure(job, error, log !== null);
+      }
+    } catch (error) {
+      await this.recordFailure(
+        job,
+        error instanceof Error ? error.message : String(error),
+        !(error instanceof ResumeError)
+      );
+    } finally {
+      clearInterval(heartbeat);
+      this.active.delete(job.id);
+      void this.poll();
+    }
+  }
+
+  /**
+   * A resume job continues its run; a retried job continues the run of its failed attempt
+   * if that run has a checkpoint, and starts over otherwise
+   */
+  private async runJob(job: ScrapeJobRow, runId: string): Promise<ScrapeResult> {
+    if (job.resume_run_id) {
+      return this.scraperService.resumeScraper(job.resume_run_id, { runId });
+    }
+
+    if (job.attempts > 1 && job.run_id) {
+      try {
+        return await this.scraperService.resumeScraper(job.run_id, { runId });
+      } catch (error) {
+        if (!(error instanceof ResumeError)) throw error;
+        logger.info(`Job ${job.id}: cannot resume ${job.run_id} (${error.message}), starting over`);
+      }
+    }
+
+    return this.scraperService.runScraper(job.supermarket_id, {
+      runId,
+      categoryIds: job.category_ids ?? undefined,
+      locationId: job.location_id ?? undefined,
+    });
+  }
+
+  private async recordFailure(job: ScrapeJobRow, error: string, retryable: boolean): Promise<void> {
+    try {
+      const retryDelay = retryable ? this.options.retryDelaySeconds * 2 ** (job.attempts - 1) : null;
+      const status = await scrapeJobRepository.fail(job.id, this.workerId, error, retryDelay);
+      if (!status) {
+        logger.warn(`Job ${job.id} failed, but was taken back from this worker meanwhile: ${error}`);
+      } else if (status === 'queued') {
+        logger.warn(`Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${retryDelay}s: ${error}`);
+      } else {
+        logger.error(`Job ${job.id} failed: ${error}`);
+      }
+    } catch (updateError) {
+      // The job stays running and is reclaimed once its heartbeat expires
+      logger.error(`Could not record failure of job ${job.id}`, { error: (updateError as Error).message });
+    }
+  }
+}
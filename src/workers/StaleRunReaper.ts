@@ -0,0 +1,65 @@
+import { scrapeEventRepository, scrapeLogRepository } from '../repositories';
+import { createPrefixedLogger } from '../utils/logger';
+
+export interface StaleRunReaperOptions {
+  /** How often running scrape logs are checked */
+  intervalMs: number;
+  /** Running logs without a heartbeat for this long are marked failed */
+  heartbeatTimeoutSeconds: number;
+  /** Progress events of finished runs older than this are deleted */
+  eventRetentionDays: number;
+}
+
+const logger = createPrefixedLogger('Reaper');
+
+/**
+ * Marks scrape logs left in 'running' by a process that died mid-run as failed, with
+ * failure_reason 'abandoned'. ScraperService refreshes heartbeat_at while a run is alive, so a
+ * log whose heartbeat expired has nobody left to finish it. Reaping is a conditional update,
+ * so the API server and every worker can run a reaper side by side.
+ *
+ * Each pass also deletes the progress events of finished runs after eventRetentionDays.
+ */
+export class StaleRunReaper {
+  private timer?: NodeJS.Timeout;
+  private reaping = false;
+
+  constructor(private readonly options: StaleRunReaperOptions) {}
+
+  start(): void {
+    this.timer = setInterval(() => void this.reap(), this.options.intervalMs);
+    void this.reap();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Reap abandoned runs and delete old events once. A pass still in progress is not overlapped.
+   */
+  async reap(): Promise<void> {
+    if (this.reaping) return;
+    this.reaping = true;
+
+    try {
+      for (const log of await scrapeLogRepository.reapAbandoned(this.options.heartbeatTimeoutSeconds)) {
+        const lastSeen = new Date(log.heartbeat_at ?? log.started_at).toISOString();
+        logger.warn(`Run ${log.run_id ?? log.id} (supermarket ${log.supermarket_id}) abandoned, last heartbeat ${lastSeen}`);
+      }
+    } catch (error) {
+      logger.error('Reaping abandoned runs failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    try {
+      const deleted = await scrapeEventRepository.deleteFinishedOlderThan(this.options.eventRetentionDays);
+      if (deleted > 0) {
+        logger.info(`Deleted ${deleted} progress events older than ${this.options.eventRetentionDays} days`);
+      }
+    } catch (error) {
+      logger.error('Deleting old progress events failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.reaping = false;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+// Unit tests never connect to Postgres, but config validation needs a URL
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/whereislifecheaper_test';
+process.env.LOG_LEVEL ??= 'warn';
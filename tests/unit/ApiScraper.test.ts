@@ -0,0 +1,57 @@
+import { Headers } from 'undici';
+import { ApiScraper, ApiResponse } from '../../src/scrapers/base/ApiScraper';
+import { ProductData } from '../../src/types/scraper.types';
+
+class TestApiScraper extends ApiScraper {
+  constructor() {
+    super({
+      supermarketId: 'test',
+      name: 'Test',
+      baseUrl: 'https://api.example.com',
+      categories: [],
+      selectors: {} as never,
+      waitTimes: { pageLoad: 0, dynamicContent: 0, betweenRequests: 0 },
+      maxRetries: 1,
+      concurrentPages: 1,
+    });
+  }
+
+  query(): Promise<{ data?: { ok: boolean }; errors?: Array<{ message: string }> }> {
+    return this.fetchGraphQL('/graphql', { query: '{ ok }' });
+  }
+
+  protected async scrapeCategory(): Promise<ProductData[]> {
+    return [];
+  }
+
+  async scrapeProductDetails(): Promise<ProductData> {
+    throw new Error('Not implemented');
+  }
+}
+
+const response = (body: unknown): ApiResponse => ({
+  status: 200,
+  url: 'https://api.example.com/graphql',
+  headers: new Headers(),
+  body: JSON.stringify(body),
+});
+
+describe('ApiScraper.fetchGraphQL', () => {
+  it('retries a response that lists GraphQL errors', async () => {
+    const scraper = new TestApiScraper();
+    const request = jest.spyOn(scraper as unknown as { request: () => Promise<ApiResponse> }, 'request')
+      .mockResolvedValueOnce(response({ errors: [{ message: 'Internal server error' }] }))
+      .mockResolvedValueOnce(response({ data: { ok: true } }));
+
+    await expect(scraper.query()).resolves.toEqual({ data: { ok: true } });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails with the GraphQL error once retries are used up', async () => {
+    const scraper = new TestApiScraper();
+    jest.spyOn(scraper as unknown as { request: () => Promise<ApiResponse> }, 'request')
+      .mockResolvedValue(response({ errors: [{ message: 'Category not found' }] }));
+
+    await expect(scraper.query()).rejects.toThrow('Category not found');
+  });
+});
@@ -0,0 +1,23 @@
+import { RateLimiter, RateLimitStore } from '../../src/scrapers/base/RateLimiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('limits per process while the shared store is down and goes back to it after a minute', async () => {
+    const store: RateLimitStore = { reserve: jest.fn().mockRejectedValueOnce(new Error('connection refused')).mockResolvedValue(0) };
+    const limiter = new RateLimiter(store);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await limiter.acquire('https://www.example.com/a');
+    await limiter.acquire('https://www.example.com/b');
+    expect(store.reserve).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 60_000);
+    await limiter.acquire('https://www.example.com/c');
+    await limiter.acquire('https://www.example.com/d');
+    expect(store.reserve).toHaveBeenCalledTimes(3);
+    expect(store.reserve).toHaveBeenLastCalledWith('example.com', 2, 5);
+  });
+});
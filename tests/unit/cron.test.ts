@@ -0,0 +1,197 @@
+import {
+  CronExpressionError,
+  isValidTimezone,
+  nextCronTime,
+  parseCron,
+  upcomingCronTimes,
+} from '../../src/utils/cron';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('parses lists, ranges and steps', () => {
+      const schedule = parseCron('0,15,30 8-18/2 1-3 */4 MON-FRI');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30]);
+      expect([...schedule.hours]).toEqual([8, 10, 12, 14, 16, 18]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 2, 3]);
+      expect([...schedule.months]).toEqual([1, 5, 9]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('steps from a single start value up to the field maximum', () => {
+      expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+    });
+
+    it('accepts month and weekday names in any case', () => {
+      const schedule = parseCron('0 0 * jan,Jun sun');
+
+      expect([...schedule.months]).toEqual([1, 6]);
+      expect([...schedule.daysOfWeek]).toEqual([0]);
+    });
+
+    it('folds weekday 7 into Sunday', () => {
+      expect([...parseCron('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+    });
+
+    it('expands shortcuts', () => {
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+      expect(parseCron('@WEEKLY')).toEqual(parseCron('0 0 * * 0'));
+      expect(parseCron('@yearly')).toEqual(parseCron('0 0 1 1 *'));
+    });
+
+    it('only counts day fields that do not start with * as restricted', () => {
+      expect(parseCron('0 0 */2 * *')).toMatchObject({ restrictedDayOfMonth: false, restrictedDayOfWeek: false });
+      expect(parseCron('0 0 1 * MON')).toMatchObject({ restrictedDayOfMonth: true, restrictedDayOfWeek: true });
+    });
+
+    it.each([
+      ['0 0 * *', /Expected 5 fields/],
+      ['0 0 * * * *', /Expected 5 fields/],
+      ['', /Expected 5 fields/],
+      ['60 * * * *', /minute value 60 is out of range/],
+      ['0 24 * * *', /hour value 24 is out of range/],
+      ['0 0 0 * *', /day of month value 0 is out of range/],
+      ['0 0 * 13 *', /month value 13 is out of range/],
+      ['0 0 * * 8', /day of week value 8 is out of range/],
+      ['*/0 * * * *', /Invalid minute step/],
+      ['*/x * * * *', /Invalid minute step/],
+      ['0 18-8 * * *', /Invalid hour range/],
+      ['0 0 * FOO *', /Invalid month value: FOO/],
+      ['1.5 * * * *', /Invalid minute value/],
+      ['@every5m', /Expected 5 fields/],
+    ])('rejects %j', (expression, message) => {
+      expect(() => parseCron(expression)).toThrow(CronExpressionError);
+      expect(() => parseCron(expression)).toThrow(message);
+    });
+  });
+
+  describe('nextCronTime', () => {
+    it('returns the next matching minute after the given time, exclusive', () => {
+      const after = new Date('2026-10-19T10:15:00Z');
+
+      expect(nextCronTime('15 10 * * *', 'UTC', after)?.toISOString()).toBe('2026-10-20T10:15:00.000Z');
+      expect(nextCronTime('*/20 * * * *', 'UTC', after)?.toISOString()).toBe('2026-10-19T10:20:00.000Z');
+      expect(nextCronTime('0 * * * *', 'UTC', new Date('2026-10-19T10:15:42Z'))?.toISOString()).toBe(
+        '2026-10-19T11:00:00.000Z'
+      );
+    });
+
+    it('evaluates the expression in the schedule timezone', () => {
+      // 3 AM in Madrid is 01:00 UTC in summer time and 02:00 UTC in winter time
+      expect(nextCronTime('0 3 * * *', 'Europe/Madrid', new Date('2026-07-01T12:00:00Z'))?.toISOString()).toBe(
+        '2026-07-02T01:00:00.000Z'
+      );
+      expect(nextCronTime('0 3 * * *', 'Europe/Madrid', new Date('2026-12-01T12:00:00Z'))?.toISOString()).toBe(
+        '2026-12-02T02:00:00.000Z'
+      );
+      expect(nextCronTime('30 9 * * *', 'Asia/Kolkata', new Date('2026-10-19T00:00:00Z'))?.toISOString()).toBe(
+        '2026-10-19T04:00:00.000Z'
+      );
+    });
+
+    it('fires on days matching day-of-month or day-of-week when both are restricted', () => {
+      // 2026-10-01 is a Thursday: Fridays 2, 9, 16 plus the 13th (a Tuesday)
+      const times = upcomingCronTimes('0 12 13 * FRI', 'UTC', 4, new Date('2026-10-01T00:00:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-10-02T12:00:00.000Z',
+        '2026-10-09T12:00:00.000Z',
+        '2026-10-13T12:00:00.000Z',
+        '2026-10-16T12:00:00.000Z',
+      ]);
+    });
+
+    it('fires only on matching weekdays when day-of-month is *', () => {
+      const times = upcomingCronTimes('0 6 * * MON-FRI', 'UTC', 3, new Date('2026-10-16T12:00:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-10-19T06:00:00.000Z',
+        '2026-10-20T06:00:00.000Z',
+        '2026-10-21T06:00:00.000Z',
+      ]);
+    });
+
+    it('combines a day-of-month step with the weekday as AND', () => {
+      // */2 starts with *, so it is not a restriction: odd days that are also Mondays
+      const times = upcomingCronTimes('0 0 */2 * MON', 'UTC', 2, new Date('2026-10-01T00:00:00Z'));
+
+      expect(iso(times)).toEqual(['2026-10-05T00:00:00.000Z', '2026-10-19T00:00:00.000Z']);
+    });
+
+    it('skips months without the day and finds leap days', () => {
+      expect(nextCronTime('0 0 31 * *', 'UTC', new Date('2026-09-01T00:00:00Z'))?.toISOString()).toBe(
+        '2026-10-31T00:00:00.000Z'
+      );
+      expect(nextCronTime('0 0 29 2 *', 'UTC', new Date('2026-03-01T00:00:00Z'))?.toISOString()).toBe(
+        '2028-02-29T00:00:00.000Z'
+      );
+    });
+
+    it('returns null for a schedule that never fires', () => {
+      expect(nextCronTime('0 0 31 2 *', 'UTC', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+      expect(upcomingCronTimes('0 0 30 2 *', 'UTC', 3, new Date('2026-01-01T00:00:00Z'))).toEqual([]);
+    });
+
+    describe('daylight saving time', () => {
+      // Berlin skips 02:00-03:00 on 2026-03-29 and repeats 02:00-03:00 on 2026-10-25
+
+      it('does not fire a time in the skipped hour that day', () => {
+        const times = upcomingCronTimes('30 2 * * *', 'Europe/Berlin', 3, new Date('2026-03-27T12:00:00Z'));
+
+        expect(iso(times)).toEqual([
+          '2026-03-28T01:30:00.000Z', // 02:30 CET
+          '2026-03-30T00:30:00.000Z', // 02:30 CEST
+          '2026-03-31T00:30:00.000Z',
+        ]);
+      });
+
+      it('keeps firing around the skipped hour', () => {
+        const times = upcomingCronTimes('0 * * * *', 'Europe/Berlin', 3, new Date('2026-03-29T00:30:00Z'));
+
+        // 01:00 CET, then 03:00 CEST right after it, then 04:00 CEST
+        expect(iso(times)).toEqual([
+          '2026-03-29T01:00:00.000Z',
+          '2026-03-29T02:00:00.000Z',
+          '2026-03-29T03:00:00.000Z',
+        ]);
+      });
+
+      it('fires a time in the repeated hour once', () => {
+        const times = upcomingCronTimes('30 2 * * *', 'Europe/Berlin', 2, new Date('2026-10-24T12:00:00Z'));
+
+        expect(iso(times)).toEqual([
+          '2026-10-25T00:30:00.000Z', // 02:30 CEST; 02:30 CET an hour later is not fired again
+          '2026-10-26T01:30:00.000Z', // 02:30 CET
+        ]);
+      });
+
+      it('fires daily jobs outside the changed hour at the same wall-clock time', () => {
+        const times = upcomingCronTimes('0 4 * * *', 'Europe/Berlin', 2, new Date('2026-10-24T12:00:00Z'));
+
+        expect(iso(times)).toEqual(['2026-10-25T03:00:00.000Z', '2026-10-26T03:00:00.000Z']);
+      });
+    });
+  });
+
+  describe('upcomingCronTimes', () => {
+    it('returns the requested number of fire times in order', () => {
+      const times = upcomingCronTimes('@hourly', 'UTC', 3, new Date('2026-10-19T10:00:00Z'));
+
+      expect(iso(times)).toEqual([
+        '2026-10-19T11:00:00.000Z',
+        '2026-10-19T12:00:00.000Z',
+        '2026-10-19T13:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('isValidTimezone', () => {
+    it('accepts IANA names and rejects unknown ones', () => {
+      expect(isValidTimezone('Europe/Madrid')).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
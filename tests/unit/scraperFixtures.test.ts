@@ -0,0 +1,20 @@
+import { replayScraperFixture } from '../../src/scrapers/scraperFixtures';
+import { hasScraperFixture } from '../../src/scrapers/base/NetworkFixtures';
+import { getRegisteredScraperNames } from '../../src/scrapers/scraperRegistry';
+
+// Every scraper with a golden fixture in src/scrapers/__fixtures__ is replayed offline
+const scrapersWithFixtures = getRegisteredScraperNames().filter(name => hasScraperFixture(name));
+
+describe('scraper fixtures', () => {
+  it('ships at least one fixture', () => {
+    expect(scrapersWithFixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(scrapersWithFixtures)('%s matches its expected snapshot', async (className) => {
+    const result = await replayScraperFixture(className);
+
+    expect(result.misses).toBe(0);
+    expect(result.products.length).toBeGreaterThan(0);
+    expect(result.differences).toEqual([]);
+  });
+});